@@ -3,13 +3,15 @@ pragma solidity ^0.8.19;
 
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 
 /**
  * @title IdentityAttestation
  * @dev Decentralized identity verification system for evidence submitters and witnesses
  * @notice Allows trusted entities to verify identities while maintaining privacy options
  */
-contract IdentityAttestation is AccessControl, ReentrancyGuard {
+contract IdentityAttestation is AccessControl, ReentrancyGuard, Initializable, UUPSUpgradeable {
 
     // Role definitions
     bytes32 public constant IDENTITY_ADMIN_ROLE = keccak256("IDENTITY_ADMIN_ROLE");
@@ -169,8 +171,20 @@ contract IdentityAttestation is AccessControl, ReentrancyGuard {
     );
 
     constructor() {
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        _grantRole(IDENTITY_ADMIN_ROLE, msg.sender);
+        _initializeIdentityAttestation(msg.sender);
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize a deployment behind an ERC-1967 proxy; direct deployments are initialized by the constructor
+     */
+    function initialize() external initializer {
+        _initializeIdentityAttestation(msg.sender);
+    }
+
+    function _initializeIdentityAttestation(address _admin) private {
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(IDENTITY_ADMIN_ROLE, _admin);
         
         // Set default verification fees (in wei)
         verificationFees[VerificationLevel.BASIC_KYC] = 0.01 ether;
@@ -438,4 +452,9 @@ contract IdentityAttestation is AccessControl, ReentrancyGuard {
     function grantNGORepresentativeRole(address account) external onlyRole(IDENTITY_ADMIN_ROLE) {
         _grantRole(NGO_REPRESENTATIVE_ROLE, account);
     }
+
+    /**
+     * @dev Only the default admin may upgrade a proxied deployment
+     */
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
 }
@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {LegalCaseManager} from "./LegalCaseManager.sol";
+
+/**
+ * @title LegalCaseLib
+ * @dev Case, party, evidence, order and settlement record keeping for LegalCaseManager
+ * @notice Deployed once and linked into LegalCaseManager, keeping the manager under the
+ *         24KB contract size limit; its functions run in the manager's storage
+ */
+library LegalCaseLib {
+
+    /**
+     * @dev Store a newly filed case
+     */
+    function fileCase(
+        LegalCaseManager.LegalCase storage legalCase,
+        uint256 _caseId,
+        string memory _caseNumber,
+        string memory _caseTitle,
+        LegalCaseManager.CaseType _caseType,
+        LegalCaseManager.CasePriority _priority,
+        string memory _description,
+        string memory _jurisdiction,
+        string memory _courtLocation,
+        bool _isPublic
+    ) external {
+        legalCase.caseId = _caseId;
+        legalCase.caseNumber = _caseNumber;
+        legalCase.caseTitle = _caseTitle;
+        legalCase.caseType = _caseType;
+        legalCase.status = LegalCaseManager.CaseStatus.FILED;
+        legalCase.priority = _priority;
+        legalCase.filedBy = msg.sender;
+        legalCase.filingTimestamp = block.timestamp;
+        legalCase.lastUpdatedTimestamp = block.timestamp;
+        legalCase.description = _description;
+        legalCase.jurisdiction = _jurisdiction;
+        legalCase.courtLocation = _courtLocation;
+        legalCase.isPublic = _isPublic;
+        legalCase.isActive = true;
+    }
+
+    /**
+     * @dev Add a party to a case
+     */
+    function addParty(
+        LegalCaseManager.CaseParty[] storage parties,
+        address _partyAddress,
+        LegalCaseManager.PartyRole _role,
+        string memory _partyName,
+        string memory _contactInfo,
+        bool _isAnonymous
+    ) external {
+        parties.push(LegalCaseManager.CaseParty({
+            partyAddress: _partyAddress,
+            role: _role,
+            partyName: _partyName,
+            contactInfo: _contactInfo,
+            legalRepresentative: address(0),
+            joinedTimestamp: block.timestamp,
+            isActive: true,
+            isAnonymous: _isAnonymous
+        }));
+    }
+
+    /**
+     * @dev Link ProofVault evidence to a case
+     */
+    function linkEvidence(
+        LegalCaseManager.CaseEvidence[] storage evidenceList,
+        uint256 _caseId,
+        uint256 _evidenceId,
+        string memory _evidenceType,
+        string memory _relevance,
+        uint256 _evidenceWeight
+    ) external {
+        evidenceList.push(LegalCaseManager.CaseEvidence({
+            evidenceId: _evidenceId,
+            caseId: _caseId,
+            submittedBy: msg.sender,
+            submissionTimestamp: block.timestamp,
+            evidenceType: _evidenceType,
+            relevance: _relevance,
+            isAccepted: false,
+            isChallenged: false,
+            challengedBy: address(0),
+            challengeReason: "",
+            evidenceWeight: _evidenceWeight
+        }));
+    }
+
+    /**
+     * @dev Mark linked evidence as challenged
+     */
+    function challengeEvidence(
+        LegalCaseManager.CaseEvidence[] storage evidenceList,
+        uint256 _evidenceId,
+        string memory _challengeReason
+    ) external {
+        for (uint i = 0; i < evidenceList.length; i++) {
+            if (evidenceList[i].evidenceId == _evidenceId) {
+                require(!evidenceList[i].isChallenged, "Evidence already challenged");
+                evidenceList[i].isChallenged = true;
+                evidenceList[i].challengedBy = msg.sender;
+                evidenceList[i].challengeReason = _challengeReason;
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Mark linked evidence as accepted
+     */
+    function acceptEvidence(LegalCaseManager.CaseEvidence[] storage evidenceList, uint256 _evidenceId) external {
+        for (uint i = 0; i < evidenceList.length; i++) {
+            if (evidenceList[i].evidenceId == _evidenceId) {
+                evidenceList[i].isAccepted = true;
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Add a court order to a case
+     */
+    function issueCourtOrder(
+        LegalCaseManager.CourtOrder[] storage orders,
+        uint256 _orderId,
+        uint256 _caseId,
+        string memory _orderType,
+        string memory _orderDetails,
+        uint256 _effectiveDate,
+        uint256 _expiryDate
+    ) external {
+        orders.push(LegalCaseManager.CourtOrder({
+            orderId: _orderId,
+            caseId: _caseId,
+            issuedBy: msg.sender,
+            orderType: _orderType,
+            orderDetails: _orderDetails,
+            issuedTimestamp: block.timestamp,
+            effectiveDate: _effectiveDate,
+            expiryDate: _expiryDate,
+            isActive: true,
+            complianceStatus: "PENDING"
+        }));
+    }
+
+    /**
+     * @dev Record a case settlement
+     */
+    function settleCase(
+        LegalCaseManager.CaseSettlement storage settlement,
+        uint256 _caseId,
+        address[] memory _parties,
+        uint256 _settlementAmount,
+        string memory _terms,
+        string memory _settlementType
+    ) external {
+        settlement.caseId = _caseId;
+        settlement.parties = _parties;
+        settlement.settlementAmount = _settlementAmount;
+        settlement.terms = _terms;
+        settlement.agreedTimestamp = block.timestamp;
+        settlement.isExecuted = false;
+        settlement.mediator = msg.sender;
+        settlement.settlementType = _settlementType;
+    }
+
+    /**
+     * @dev Add timeline entry
+     */
+    function addTimelineEntry(
+        LegalCaseManager.CaseTimeline[] storage timeline,
+        string memory _eventType,
+        string memory _description,
+        address _triggeredBy,
+        string memory _additionalData
+    ) external {
+        timeline.push(LegalCaseManager.CaseTimeline({
+            timestamp: block.timestamp,
+            eventType: _eventType,
+            description: _description,
+            triggeredBy: _triggeredBy,
+            additionalData: _additionalData
+        }));
+    }
+}
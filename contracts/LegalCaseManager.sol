@@ -3,6 +3,9 @@ pragma solidity ^0.8.19;
 
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {LegalCaseLib} from "./LegalCaseLib.sol";
 
 interface IProofVault {
     function getEvidenceRecord(uint256 evidenceId) external view returns (
@@ -24,7 +27,7 @@ interface IIdentityAttestation {
  * @dev Manages legal cases, links evidence, and coordinates between parties
  * @notice Integrates with ProofVault for evidence management and identity verification
  */
-contract LegalCaseManager is AccessControl, ReentrancyGuard {
+contract LegalCaseManager is AccessControl, ReentrancyGuard, Initializable, UUPSUpgradeable {
 
     // Role definitions
     bytes32 public constant CASE_ADMIN_ROLE = keccak256("CASE_ADMIN_ROLE");
@@ -255,23 +258,58 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
     );
 
     constructor(address _proofVault, address _identityAttestation) {
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        _grantRole(CASE_ADMIN_ROLE, msg.sender);
+        _initializeLegalCaseManager(msg.sender, _proofVault, _identityAttestation);
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize a deployment behind an ERC-1967 proxy; direct deployments are initialized by the constructor
+     */
+    function initialize(address _proofVault, address _identityAttestation) external initializer {
+        _initializeLegalCaseManager(msg.sender, _proofVault, _identityAttestation);
+    }
+
+    function _initializeLegalCaseManager(
+        address _admin,
+        address _proofVault,
+        address _identityAttestation
+    ) private {
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(CASE_ADMIN_ROLE, _admin);
         proofVault = IProofVault(_proofVault);
         identityAttestation = IIdentityAttestation(_identityAttestation);
     }
 
+    // Modifiers delegate to internal functions so their checks are compiled once, not inlined per function
     modifier verifiedUser(address user) {
-        require(identityAttestation.isVerified(user), "User not verified");
+        _checkVerifiedUser(user);
         _;
     }
 
     modifier validCaseId(uint256 caseId) {
-        require(caseId > 0 && caseId <= _caseIdCounter, "Invalid case ID");
+        _checkValidCaseId(caseId);
         _;
     }
 
     modifier caseAccess(uint256 caseId) {
+        _checkCaseAccess(caseId);
+        _;
+    }
+
+    modifier emergencyStopCheck() {
+        require(!emergencyStopped, "Contract is emergency stopped");
+        _;
+    }
+
+    function _checkVerifiedUser(address user) internal view {
+        require(identityAttestation.isVerified(user), "User not verified");
+    }
+
+    function _checkValidCaseId(uint256 caseId) internal view {
+        require(caseId > 0 && caseId <= _caseIdCounter, "Invalid case ID");
+    }
+
+    function _checkCaseAccess(uint256 caseId) internal view {
         require(
             legalCases[caseId].isPublic ||
             hasAccessToCase[caseId][msg.sender] ||
@@ -280,12 +318,6 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
             hasRole(CASE_ADMIN_ROLE, msg.sender),
             "No access to case"
         );
-        _;
-    }
-
-    modifier emergencyStopCheck() {
-        require(!emergencyStopped, "Contract is emergency stopped");
-        _;
     }
 
     /**
@@ -307,26 +339,18 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         _caseIdCounter++;
         uint256 newCaseId = _caseIdCounter;
 
-        legalCases[newCaseId] = LegalCase({
-            caseId: newCaseId,
-            caseNumber: _caseNumber,
-            caseTitle: _caseTitle,
-            caseType: _caseType,
-            status: CaseStatus.FILED,
-            priority: _priority,
-            filedBy: msg.sender,
-            filingTimestamp: block.timestamp,
-            lastUpdatedTimestamp: block.timestamp,
-            description: _description,
-            jurisdiction: _jurisdiction,
-            assignedJudge: address(0),
-            expectedTrialDate: 0,
-            courtLocation: _courtLocation,
-            isPublic: _isPublic,
-            isActive: true,
-            evidenceCount: 0,
-            totalStakeAmount: 0
-        });
+        LegalCaseLib.fileCase(
+            legalCases[newCaseId],
+            newCaseId,
+            _caseNumber,
+            _caseTitle,
+            _caseType,
+            _priority,
+            _description,
+            _jurisdiction,
+            _courtLocation,
+            _isPublic
+        );
 
         caseNumberToId[_caseNumber] = newCaseId;
         userCases[msg.sender].push(newCaseId);
@@ -360,18 +384,7 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
             require(identityAttestation.isVerified(_partyAddress), "Party not verified");
         }
 
-        CaseParty memory newParty = CaseParty({
-            partyAddress: _partyAddress,
-            role: _role,
-            partyName: _partyName,
-            contactInfo: _contactInfo,
-            legalRepresentative: address(0),
-            joinedTimestamp: block.timestamp,
-            isActive: true,
-            isAnonymous: _isAnonymous
-        });
-
-        caseParties[_caseId].push(newParty);
+        LegalCaseLib.addParty(caseParties[_caseId], _partyAddress, _role, _partyName, _contactInfo, _isAnonymous);
         userCases[_partyAddress].push(_caseId);
         hasAccessToCase[_caseId][_partyAddress] = true;
 
@@ -396,21 +409,14 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         (uint256 evidenceId, , , , , , , , , , , , , , ) = proofVault.getEvidenceRecord(_evidenceId);
         require(evidenceId == _evidenceId, "Evidence not found in ProofVault");
 
-        CaseEvidence memory newEvidence = CaseEvidence({
-            evidenceId: _evidenceId,
-            caseId: _caseId,
-            submittedBy: msg.sender,
-            submissionTimestamp: block.timestamp,
-            evidenceType: _evidenceType,
-            relevance: _relevance,
-            isAccepted: false,
-            isChallenged: false,
-            challengedBy: address(0),
-            challengeReason: "",
-            evidenceWeight: _evidenceWeight
-        });
-
-        caseEvidenceList[_caseId].push(newEvidence);
+        LegalCaseLib.linkEvidence(
+            caseEvidenceList[_caseId],
+            _caseId,
+            _evidenceId,
+            _evidenceType,
+            _relevance,
+            _evidenceWeight
+        );
         linkedEvidence[_caseId][_evidenceId] = true;
         legalCases[_caseId].evidenceCount++;
         legalCases[_caseId].lastUpdatedTimestamp = block.timestamp;
@@ -488,20 +494,15 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         _orderIdCounter++;
         uint256 newOrderId = _orderIdCounter;
 
-        CourtOrder memory newOrder = CourtOrder({
-            orderId: newOrderId,
-            caseId: _caseId,
-            issuedBy: msg.sender,
-            orderType: _orderType,
-            orderDetails: _orderDetails,
-            issuedTimestamp: block.timestamp,
-            effectiveDate: _effectiveDate,
-            expiryDate: _expiryDate,
-            isActive: true,
-            complianceStatus: "PENDING"
-        });
-
-        caseOrders[_caseId].push(newOrder);
+        LegalCaseLib.issueCourtOrder(
+            caseOrders[_caseId],
+            newOrderId,
+            _caseId,
+            _orderType,
+            _orderDetails,
+            _effectiveDate,
+            _expiryDate
+        );
         legalCases[_caseId].lastUpdatedTimestamp = block.timestamp;
 
         _addTimelineEntry(_caseId, "COURT_ORDER_ISSUED", _orderType, msg.sender, _orderDetails);
@@ -518,17 +519,7 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
     ) external validCaseId(_caseId) caseAccess(_caseId) verifiedUser(msg.sender) {
         require(linkedEvidence[_caseId][_evidenceId], "Evidence not linked to case");
 
-        // Find and update evidence
-        CaseEvidence[] storage evidenceList = caseEvidenceList[_caseId];
-        for (uint i = 0; i < evidenceList.length; i++) {
-            if (evidenceList[i].evidenceId == _evidenceId) {
-                require(!evidenceList[i].isChallenged, "Evidence already challenged");
-                evidenceList[i].isChallenged = true;
-                evidenceList[i].challengedBy = msg.sender;
-                evidenceList[i].challengeReason = _challengeReason;
-                break;
-            }
-        }
+        LegalCaseLib.challengeEvidence(caseEvidenceList[_caseId], _evidenceId, _challengeReason);
 
         legalCases[_caseId].lastUpdatedTimestamp = block.timestamp;
         _addTimelineEntry(_caseId, "EVIDENCE_CHALLENGED", "Evidence challenged", msg.sender, _challengeReason);
@@ -549,14 +540,7 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         );
         require(linkedEvidence[_caseId][_evidenceId], "Evidence not linked to case");
 
-        // Find and update evidence
-        CaseEvidence[] storage evidenceList = caseEvidenceList[_caseId];
-        for (uint i = 0; i < evidenceList.length; i++) {
-            if (evidenceList[i].evidenceId == _evidenceId) {
-                evidenceList[i].isAccepted = true;
-                break;
-            }
-        }
+        LegalCaseLib.acceptEvidence(caseEvidenceList[_caseId], _evidenceId);
 
         legalCases[_caseId].lastUpdatedTimestamp = block.timestamp;
         _addTimelineEntry(_caseId, "EVIDENCE_ACCEPTED", "Evidence accepted by judge", msg.sender, "");
@@ -575,18 +559,14 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         require(legalCases[_caseId].status != CaseStatus.CLOSED, "Case already closed");
         require(_parties.length > 0, "No parties specified");
 
-        CaseSettlement memory settlement = CaseSettlement({
-            caseId: _caseId,
-            parties: _parties,
-            settlementAmount: _settlementAmount,
-            terms: _terms,
-            agreedTimestamp: block.timestamp,
-            isExecuted: false,
-            mediator: msg.sender,
-            settlementType: _settlementType
-        });
-
-        caseSettlements[_caseId] = settlement;
+        LegalCaseLib.settleCase(
+            caseSettlements[_caseId],
+            _caseId,
+            _parties,
+            _settlementAmount,
+            _terms,
+            _settlementType
+        );
         legalCases[_caseId].status = CaseStatus.SETTLED;
         legalCases[_caseId].lastUpdatedTimestamp = block.timestamp;
 
@@ -672,15 +652,7 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
         address _triggeredBy,
         string memory _additionalData
     ) internal {
-        CaseTimeline memory timelineEntry = CaseTimeline({
-            timestamp: block.timestamp,
-            eventType: _eventType,
-            description: _description,
-            triggeredBy: _triggeredBy,
-            additionalData: _additionalData
-        });
-
-        caseTimelines[_caseId].push(timelineEntry);
+        LegalCaseLib.addTimelineEntry(caseTimelines[_caseId], _eventType, _description, _triggeredBy, _additionalData);
     }
 
     /**
@@ -786,4 +758,9 @@ contract LegalCaseManager is AccessControl, ReentrancyGuard {
     function grantPublicDefenderRole(address account) external onlyRole(CASE_ADMIN_ROLE) {
         _grantRole(PUBLIC_DEFENDER_ROLE, account);
     }
+
+    /**
+     * @dev Only the default admin may upgrade a proxied deployment
+     */
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
 }
@@ -4,13 +4,15 @@ pragma solidity ^0.8.19;
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 
 /**
  * @title ProofVault
  * @dev Decentralized evidence management system for legal proceedings
  * @notice Stores and manages digital evidence with cryptographic integrity and access controls
  */
-contract ProofVault is AccessControl, ReentrancyGuard, Pausable {
+contract ProofVault is AccessControl, ReentrancyGuard, Pausable, Initializable, UUPSUpgradeable {
     // Role definitions
     bytes32 public constant EVIDENCE_ADMIN_ROLE = keccak256("EVIDENCE_ADMIN_ROLE");
     bytes32 public constant EVIDENCE_SUBMITTER_ROLE = keccak256("EVIDENCE_SUBMITTER_ROLE");
@@ -184,8 +186,20 @@ contract ProofVault is AccessControl, ReentrancyGuard, Pausable {
     );
 
     constructor() {
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        _grantRole(EVIDENCE_ADMIN_ROLE, msg.sender);
+        _initializeProofVault(msg.sender);
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize a deployment behind an ERC-1967 proxy; direct deployments are initialized by the constructor
+     */
+    function initialize() external initializer {
+        _initializeProofVault(msg.sender);
+    }
+
+    function _initializeProofVault(address _admin) private {
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(EVIDENCE_ADMIN_ROLE, _admin);
         _evidenceIdCounter = 0;
     }
 
@@ -673,4 +687,9 @@ contract ProofVault is AccessControl, ReentrancyGuard, Pausable {
     function grantAuditorRole(address account) external onlyRole(EVIDENCE_ADMIN_ROLE) {
         _grantRole(AUDITOR_ROLE, account);
     }
+
+    /**
+     * @dev Only the default admin may upgrade a proxied deployment
+     */
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/**
+ * @title ProofVaultProxy
+ * @dev ERC-1967 proxy deployed in front of the UUPS-upgradeable ProofVault contracts
+ * @notice Calls `_data` on the implementation to initialize the proxy's storage
+ */
+contract ProofVaultProxy is ERC1967Proxy {
+    constructor(address _implementation, bytes memory _data) payable ERC1967Proxy(_implementation, _data) {}
+}
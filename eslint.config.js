@@ -32,6 +32,13 @@ module.exports = [
         process: 'readonly',
         Buffer: 'readonly',
         setTimeout: 'readonly',
+        clearTimeout: 'readonly',
+        fetch: 'readonly',
+        Response: 'readonly',
+        FormData: 'readonly',
+        Blob: 'readonly',
+        URL: 'readonly',
+        URLSearchParams: 'readonly',
         require: 'readonly',
         module: 'readonly',
         __dirname: 'readonly',
@@ -16,6 +16,12 @@ const baseConfig: HardhatUserConfig = {
         runs: 200,
       },
       viaIR: true,
+      // Storage layouts let upgrades check compatibility between contract versions
+      outputSelection: {
+        '*': {
+          '*': ['storageLayout'],
+        },
+      },
     },
   },
   defaultNetwork: 'testnet',
@@ -1,162 +1,981 @@
 /**
  * Configuration management for ProofVault deployment
+ *
+ * Settings are merged from built-in defaults, a `proofvault.config.{ts,json}` file,
+ * environment variables and CLI flags, each source overriding the previous one, and
+ * validated as a whole before anything reads them.
  */
 
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
 import dotenv from 'dotenv';
-import type { DeploymentConfig, HederaClientConfig, NetworkConfig } from '../types';
+import { ZeroAddress } from 'ethers';
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import {
+  createPostDeploymentActions,
+  loadDeploymentManifest,
+  loadPostDeploymentConfig,
+  orderContracts,
+} from '../deployment';
+import type {
+  BuiltInNetworkName,
+  ConfigLoadOptions,
+  DeploymentConfig,
+  HederaClientConfig,
+  HederaNetwork,
+  IndexerConfig,
+  LogLevel,
+  NetworkConfig,
+  ProofVaultConfig,
+  ProofVaultConfigFile,
+  ProofVaultNetworkSettings,
+  ResolvedConfig,
+  StorageConfig,
+} from '../types';
+import { ConfigError } from '../types';
+import { isValidHederaPrivateKey } from '../utils';
 
 dotenv.config();
 
+// Loads ts-node and TypeScript config files, which have no static import
+const requireModule = createRequire(__filename);
+
+/**
+ * EVM chain IDs of the supported Hedera networks; local networks may use another one
+ */
+export const NETWORK_CHAIN_IDS: Record<HederaNetwork, number> = {
+  testnet: 296,
+  mainnet: 295,
+  previewnet: 297,
+  local: 298,
+};
+
+// Networks that always exist; the config file can define more, e.g. staging
+export const BUILT_IN_NETWORKS: BuiltInNetworkName[] = ['testnet', 'mainnet', 'local'];
+
+// Config files looked up in the working directory when no path is given, in order
+export const CONFIG_FILE_NAMES = ['proofvault.config.ts', 'proofvault.config.json'];
+
+/**
+ * Environment variable of each global setting, keyed by dotted setting path
+ */
+export const CONFIG_ENV_VARS: Record<string, string> = {
+  network: 'NETWORK',
+  'gas.price': 'GAS_PRICE',
+  'gas.limit': 'GAS_LIMIT',
+  'verification.enabled': 'VERIFY_CONTRACTS',
+  'verification.apiKey': 'ETHERSCAN_API_KEY',
+  'verification.delay': 'VERIFICATION_DELAY',
+  'verification.apiUrl': 'VERIFICATION_URL',
+  'deployment.outputDir': 'DEPLOYMENT_OUTPUT_DIR',
+  'deployment.manifest': 'DEPLOYMENT_MANIFEST',
+  'storage.backend': 'STORAGE_BACKEND',
+  'storage.directory': 'STORAGE_DIR',
+  'storage.apiUrl': 'IPFS_API_URL',
+  'indexer.databasePath': 'INDEXER_DB_PATH',
+  'indexer.startBlock': 'INDEXER_START_BLOCK',
+  'indexer.batchSize': 'INDEXER_BATCH_SIZE',
+  'indexer.confirmations': 'INDEXER_CONFIRMATIONS',
+  'indexer.reorgDepth': 'INDEXER_REORG_DEPTH',
+  logLevel: 'LOG_LEVEL',
+  ci: 'CI',
+};
+
+// Env var suffixes of per-network settings, prefixed with the network name
+const NETWORK_ENV_VARS: Record<string, string> = {
+  hederaNetwork: 'HEDERA_NETWORK',
+  rpcUrl: 'RPC_URL',
+  chainId: 'CHAIN_ID',
+  operatorKey: 'OPERATOR_KEY',
+  operatorId: 'OPERATOR_ID',
+  mirrorNodeUrl: 'MIRROR_NODE_URL',
+  consensusNodes: 'CONSENSUS_NODES',
+  mirrorNetwork: 'MIRROR_NETWORK',
+  outputDir: 'DEPLOYMENT_OUTPUT_DIR',
+};
+
+// Testnet predates named networks and keeps its unprefixed env vars
+const TESTNET_ENV_SETTINGS = ['rpcUrl', 'operatorKey', 'operatorId', 'mirrorNodeUrl'];
+
 /**
- * Get environment variable with validation
+ * Environment variables of a network's settings, e.g. STAGING_RPC_URL for staging
  */
-function getEnvVar(name: string, required = true, defaultValue?: string): string {
-  const value = process.env[name] ?? defaultValue;
-  if (required && !value) {
-    throw new Error(`Environment variable ${name} is required but not set`);
+export function getNetworkEnvVars(networkName: string): Record<string, string> {
+  const prefix =
+    networkName === 'testnet' ? '' : `${networkName.toUpperCase().replace(/-/g, '_')}_`;
+  return Object.fromEntries(
+    Object.entries(NETWORK_ENV_VARS)
+      .filter(([setting]) => networkName !== 'testnet' || TESTNET_ENV_SETTINGS.includes(setting))
+      .map(([setting, suffix]) => [`networks.${networkName}.${setting}`, `${prefix}${suffix}`]),
+  );
+}
+
+// Public endpoints of each Hedera network, inherited by networks that leave them unset
+const HEDERA_NETWORK_DEFAULTS: Record<
+  HederaNetwork,
+  Omit<ProofVaultNetworkSettings, 'hederaNetwork'>
+> = {
+  testnet: {
+    rpcUrl: 'https://testnet.hashio.io/api',
+    chainId: NETWORK_CHAIN_IDS.testnet,
+    timeout: 60000,
+    mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+  },
+  mainnet: {
+    rpcUrl: 'https://mainnet.hashio.io/api',
+    chainId: NETWORK_CHAIN_IDS.mainnet,
+    timeout: 60000,
+    mirrorNodeUrl: 'https://mainnet-public.mirrornode.hedera.com',
+  },
+  previewnet: {
+    rpcUrl: 'https://previewnet.hashio.io/api',
+    chainId: NETWORK_CHAIN_IDS.previewnet,
+    timeout: 60000,
+    mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com',
+  },
+  // hedera-local-node: its JSON-RPC relay, mirror node and consensus node ports, and
+  // the first ECDSA alias account it funds, usable by both the Hedera SDK and JSON-RPC
+  local: {
+    rpcUrl: 'http://localhost:7546',
+    chainId: NETWORK_CHAIN_IDS.local,
+    timeout: 30000,
+    operatorKey: '0x105d050185ccb907fba04dd92d8de9e32c18305e097ab41dadda21489a211524',
+    operatorId: '0.0.1012',
+    mirrorNodeUrl: 'http://localhost:5551',
+    consensusNodes: { '127.0.0.1:50211': '0.0.3' },
+    mirrorNetwork: ['127.0.0.1:5600'],
+  },
+};
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const DEFAULT_CONFIG: ProofVaultConfig = {
+  network: 'testnet',
+  networks: {
+    testnet: { hederaNetwork: 'testnet', ...HEDERA_NETWORK_DEFAULTS.testnet },
+    mainnet: { hederaNetwork: 'mainnet', ...HEDERA_NETWORK_DEFAULTS.mainnet },
+    local: { hederaNetwork: 'local', ...HEDERA_NETWORK_DEFAULTS.local },
+  },
+  gas: { price: 'auto', limit: 8000000 },
+  verification: { enabled: true, delay: 30000, apiUrl: 'https://server-verify.hashscan.io' },
+  deployment: { outputDir: './deployments' },
+  storage: { backend: 'filesystem', directory: './storage', apiUrl: 'http://127.0.0.1:5001' },
+  indexer: {
+    databasePath: './indexer-data/proofvault.sqlite',
+    startBlock: 0,
+    batchSize: 2000,
+    confirmations: 0,
+    reorgDepth: 64,
+  },
+  logLevel: 'info',
+  ci: false,
+};
+
+// Settings holding secrets, masked by redactConfig
+const SECRET_SETTINGS = ['operatorKey', 'apiKey'];
+
+const POSITIVE_INTEGER = { type: 'integer', minimum: 1 };
+const NON_NEGATIVE_INTEGER = { type: 'integer', minimum: 0 };
+const URL_STRING = { type: 'string', format: 'url' };
+
+const NETWORK_SCHEMA = {
+  type: 'object',
+  required: ['hederaNetwork', 'rpcUrl', 'chainId', 'timeout'],
+  additionalProperties: false,
+  properties: {
+    hederaNetwork: { type: 'string', enum: ['testnet', 'mainnet', 'previewnet', 'local'] },
+    rpcUrl: URL_STRING,
+    // Local networks may pick their own chain ID; hedera-local-node uses 298
+    chainId: POSITIVE_INTEGER,
+    timeout: POSITIVE_INTEGER,
+    operatorKey: { type: 'string', format: 'hedera-private-key' },
+    operatorId: { type: 'string', format: 'hedera-account-id' },
+    mirrorNodeUrl: URL_STRING,
+    consensusNodes: {
+      type: 'object',
+      minProperties: 1,
+      additionalProperties: { type: 'string', format: 'hedera-account-id' },
+    },
+    mirrorNetwork: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    outputDir: { type: 'string', minLength: 1 },
+  },
+  allOf: (['testnet', 'mainnet', 'previewnet'] as const).map((hederaNetwork) => ({
+    if: { properties: { hederaNetwork: { const: hederaNetwork } } },
+    then: { properties: { chainId: { const: NETWORK_CHAIN_IDS[hederaNetwork] } } },
+  })),
+};
+
+/**
+ * JSON schema of the merged configuration
+ */
+export const CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'ProofVault configuration',
+  type: 'object',
+  required: ['network', 'networks', 'gas', 'verification', 'deployment', 'storage', 'indexer'],
+  additionalProperties: false,
+  properties: {
+    network: { type: 'string', minLength: 1 },
+    networks: {
+      type: 'object',
+      required: BUILT_IN_NETWORKS,
+      // Names become env var prefixes and deployment file names
+      propertyNames: { pattern: '^[a-z][a-z0-9-]*$' },
+      additionalProperties: NETWORK_SCHEMA,
+    },
+    gas: {
+      type: 'object',
+      required: ['price', 'limit'],
+      additionalProperties: false,
+      properties: {
+        price: { type: 'string', pattern: '^(auto|\\d+)$' },
+        limit: POSITIVE_INTEGER,
+      },
+    },
+    verification: {
+      type: 'object',
+      required: ['enabled', 'delay', 'apiUrl'],
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean' },
+        apiKey: { type: 'string' },
+        delay: NON_NEGATIVE_INTEGER,
+        apiUrl: URL_STRING,
+      },
+    },
+    deployment: {
+      type: 'object',
+      required: ['outputDir'],
+      additionalProperties: false,
+      properties: {
+        outputDir: { type: 'string', minLength: 1 },
+        manifest: { type: 'string', minLength: 1 },
+      },
+    },
+    storage: {
+      type: 'object',
+      required: ['backend'],
+      additionalProperties: false,
+      properties: {
+        backend: { type: 'string', enum: ['filesystem', 'ipfs'] },
+        directory: { type: 'string', minLength: 1 },
+        apiUrl: URL_STRING,
+      },
+    },
+    indexer: {
+      type: 'object',
+      required: ['databasePath', 'startBlock', 'batchSize', 'confirmations', 'reorgDepth'],
+      additionalProperties: false,
+      properties: {
+        databasePath: { type: 'string', minLength: 1 },
+        startBlock: NON_NEGATIVE_INTEGER,
+        batchSize: POSITIVE_INTEGER,
+        confirmations: NON_NEGATIVE_INTEGER,
+        reorgDepth: POSITIVE_INTEGER,
+      },
+    },
+    logLevel: { type: 'string', enum: LOG_LEVELS },
+    ci: { type: 'boolean' },
+  },
+};
+
+const FORMAT_MESSAGES: Record<string, string> = {
+  url: 'must be an http(s) or ws(s) URL',
+  'hedera-private-key': 'must be a 32-byte hex or DER-encoded private key',
+  'hedera-account-id': 'must be an account ID such as 0.0.1234',
+};
+
+/**
+ * Parse `address=accountId` pairs, e.g. `127.0.0.1:50211=0.0.3`, into an SDK network map
+ */
+function parseConsensusNodes(value: string): Record<string, string> {
+  const nodes: Record<string, string> = {};
+  for (const entry of value
+    .split(',')
+    .map((node) => node.trim())
+    .filter(Boolean)) {
+    const [address, accountId] = entry.split('=').map((part) => part.trim());
+    if (!address || !accountId || !/^\d+\.\d+\.\d+$/.test(accountId)) {
+      throw new Error(`Invalid consensus node "${entry}"; expected <host:port>=<node account ID>`);
+    }
+    nodes[address] = accountId;
+  }
+  if (Object.keys(nodes).length === 0) {
+    throw new Error('At least one local consensus node must be configured');
   }
-  return value ?? '';
+  return nodes;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Parsers for settings given as strings in env vars and `--set` flags, keyed by
+// setting name; other values are coerced to the schema's types during validation
+const VALUE_PARSERS: Record<string, (value: string) => unknown> = {
+  consensusNodes: parseConsensusNodes,
+  mirrorNetwork: parseList,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested settings into dotted paths; consensus node maps and arrays are single settings
+ */
+export function flattenSettings(
+  settings: Record<string, unknown>,
+  prefix = '',
+): [string, unknown][] {
+  return Object.entries(settings).flatMap(([key, value]): [string, unknown][] => {
+    const settingPath = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && key !== 'consensusNodes') {
+      return flattenSettings(value, settingPath);
+    }
+    return value === undefined ? [] : [[settingPath, value]];
+  });
+}
+
+function applySetting(
+  target: Record<string, unknown>,
+  sources: Record<string, string>,
+  settingPath: string,
+  value: unknown,
+  source: string,
+): void {
+  const keys = settingPath.split('.');
+  const name = keys.pop() ?? settingPath;
+  let node = target;
+  for (const key of keys) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[name] = value;
+
+  for (const key of Object.keys(sources)) {
+    if (key.startsWith(`${settingPath}.`)) {
+      delete sources[key];
+    }
+  }
+  sources[settingPath] = source;
+}
+
+/**
+ * Apply a setting given as a string, recording a parse failure as an issue
+ */
+function applyStringSetting(
+  target: Record<string, unknown>,
+  sources: Record<string, string>,
+  issues: string[],
+  settingPath: string,
+  value: string,
+  source: string,
+): void {
+  const parse = VALUE_PARSERS[settingPath.split('.').pop() ?? ''];
+  try {
+    applySetting(target, sources, settingPath, parse ? parse(value) : value, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    issues.push(`${settingPath}: ${message} (from ${source})`);
+  }
+}
+
+function findConfigFile(
+  configPath: string | undefined,
+  env: Record<string, string | undefined>,
+  cwd: string,
+): string | undefined {
+  const fromEnv = env['PROOFVAULT_CONFIG'];
+  const explicit = configPath ?? (fromEnv === '' ? undefined : fromEnv);
+  if (explicit) {
+    const filePath = path.resolve(cwd, explicit);
+    if (!fs.existsSync(filePath)) {
+      throw new ConfigError(`Config file ${filePath} not found`, 'CONFIG_NOT_FOUND');
+    }
+    return filePath;
+  }
+  return CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((filePath) =>
+    fs.existsSync(filePath),
+  );
+}
+
+/**
+ * Compile TypeScript config files when not already running under ts-node, e.g. from dist
+ *
+ * ts-node is only a development dependency, so installs without it can only read JSON configs.
+ */
+function registerTypeScript(filePath: string): void {
+  if ('.ts' in requireModule.extensions) {
+    return;
+  }
+
+  let tsNode: { register(options: object): unknown };
+  try {
+    tsNode = requireModule('ts-node') as typeof tsNode;
+  } catch {
+    throw new ConfigError(
+      `Config file ${filePath} is TypeScript, which requires ts-node; install it with \`npm install --save-dev ts-node\` or use a .json config`,
+      'TYPESCRIPT_UNAVAILABLE',
+    );
+  }
+  tsNode.register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+}
+
+/**
+ * Read a JSON config file, or a TypeScript one exporting the config as default
+ */
+function readConfigFile(filePath: string): ProofVaultConfigFile {
+  const extension = path.extname(filePath);
+  if (extension !== '.json' && extension !== '.ts') {
+    throw new ConfigError(
+      `Config file ${filePath} must be a .json or .ts file`,
+      'UNSUPPORTED_CONFIG_FILE',
+    );
+  }
+
+  if (extension === '.ts') {
+    registerTypeScript(filePath);
+  }
+
+  let content: unknown;
+  try {
+    if (extension === '.json') {
+      content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } else {
+      const loaded = requireModule(filePath) as { default?: unknown };
+      content = loaded.default ?? loaded;
+    }
+  } catch (error) {
+    throw new ConfigError(
+      `Config file ${filePath} could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_CONFIG_FILE',
+    );
+  }
+  if (!isPlainObject(content)) {
+    throw new ConfigError(`Config file ${filePath} must export an object`, 'INVALID_CONFIG_FILE');
+  }
+  return JSON.parse(JSON.stringify(content)) as ProofVaultConfigFile;
+}
+
+let configValidator: ValidateFunction | undefined;
+
+function getConfigValidator(): ValidateFunction {
+  if (!configValidator) {
+    // Env vars and flags are strings, so values are coerced to the schema's types
+    const ajv = new Ajv({ allErrors: true, coerceTypes: true, verbose: true });
+    ajv.addFormat('url', (value: string) => {
+      try {
+        return ['http:', 'https:', 'ws:', 'wss:'].includes(new URL(value).protocol);
+      } catch {
+        return false;
+      }
+    });
+    ajv.addFormat('hedera-private-key', isValidHederaPrivateKey);
+    ajv.addFormat('hedera-account-id', /^\d+\.\d+\.\d+$/);
+    configValidator = ajv.compile(CONFIG_SCHEMA);
+  }
+  return configValidator;
+}
+
+function describeIssue(
+  settingPath: string,
+  message: string,
+  sources: Record<string, string>,
+): string {
+  // An unknown object setting is recorded under its leaves
+  const source =
+    sources[settingPath] ??
+    Object.entries(sources).find(([key]) => key.startsWith(`${settingPath}.`))?.[1];
+  return `${settingPath || 'config'}: ${message}${source ? ` (from ${source})` : ''}`;
+}
+
+function formatConfigIssue(
+  error: ErrorObject,
+  sources: Record<string, string>,
+): string | undefined {
+  // `if` and network name pattern errors restate the errors reported next to them
+  if (error.keyword === 'if' || error.propertyName !== undefined) {
+    return undefined;
+  }
+
+  let settingPath = error.instancePath.slice(1).replace(/\//g, '.');
+  let message: string;
+  if (error.keyword === 'propertyNames') {
+    settingPath = `${settingPath}.${String(error.params['propertyName'])}`;
+    message = 'network names must start with a lowercase letter and contain only a-z, 0-9 and -';
+  } else if (error.keyword === 'additionalProperties') {
+    settingPath = [settingPath, String(error.params['additionalProperty'])]
+      .filter(Boolean)
+      .join('.');
+    message = 'is not a known setting';
+  } else if (error.keyword === 'required') {
+    settingPath = [settingPath, String(error.params['missingProperty'])].filter(Boolean).join('.');
+    message = 'is required';
+  } else if (error.keyword === 'enum') {
+    message = `must be one of ${(error.params['allowedValues'] as unknown[]).join(', ')}`;
+  } else if (error.keyword === 'const') {
+    message = `must be ${String(error.params['allowedValue'])}`;
+  } else if (error.keyword === 'format') {
+    message =
+      FORMAT_MESSAGES[String(error.params['format'])] ?? error.message ?? 'has an invalid format';
+  } else {
+    message = error.message ?? 'is invalid';
+  }
+  return describeIssue(settingPath, message, sources);
+}
+
+/**
+ * Fill unset network settings from the public endpoints of the network's Hedera ledger
+ */
+function applyHederaNetworkDefaults(
+  merged: Record<string, unknown>,
+  sources: Record<string, string>,
+): void {
+  const networks = isPlainObject(merged['networks']) ? merged['networks'] : {};
+  for (const [name, settings] of Object.entries(networks)) {
+    const hederaNetwork = isPlainObject(settings) ? settings['hederaNetwork'] : undefined;
+    if (
+      !isPlainObject(settings) ||
+      typeof hederaNetwork !== 'string' ||
+      !(hederaNetwork in HEDERA_NETWORK_DEFAULTS)
+    ) {
+      continue;
+    }
+    const defaults = HEDERA_NETWORK_DEFAULTS[hederaNetwork as HederaNetwork];
+    for (const [key, value] of Object.entries(defaults)) {
+      if (settings[key] === undefined) {
+        applySetting(
+          merged,
+          sources,
+          `networks.${name}.${key}`,
+          JSON.parse(JSON.stringify(value)),
+          'default',
+        );
+      }
+    }
+  }
+}
+
+let cliOptions: ConfigLoadOptions = {};
+const configCache = new Map<string, ProofVaultConfig>();
+
+/**
+ * Set the config file and `--set` overrides passed to a script, applied by every later load
+ */
+export function setConfigOptions(options: ConfigLoadOptions): void {
+  cliOptions = options;
+  configCache.clear();
+}
+
+/**
+ * Remove `--config <file>` and `--set <path>=<value>` flags from script arguments
+ */
+export function extractConfigFlags(argv: string[]): {
+  argv: string[];
+  options: ConfigLoadOptions;
+} {
+  const rest: string[] = [];
+  const overrides: Record<string, string> = {};
+  let configPath: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    const [flag, inlineValue] = arg.startsWith('--') ? arg.split(/=(.*)/s) : [arg];
+    if (flag !== '--config' && flag !== '--set') {
+      rest.push(arg);
+      continue;
+    }
+    const value = inlineValue ?? argv[++i];
+    if (!value) {
+      throw new ConfigError(`${flag} requires a value`, 'INVALID_FLAG');
+    }
+    if (flag === '--config') {
+      configPath = value;
+      continue;
+    }
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      throw new ConfigError(`--set expects <setting>=<value>, got "${value}"`, 'INVALID_FLAG');
+    }
+    overrides[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+
+  return {
+    argv: rest,
+    options: {
+      ...(configPath !== undefined ? { configPath } : {}),
+      ...(Object.keys(overrides).length > 0 ? { overrides } : {}),
+    },
+  };
+}
+
+/**
+ * Type a `proofvault.config.ts` file
+ */
+export function defineConfig(config: ProofVaultConfigFile): ProofVaultConfigFile {
+  return config;
+}
+
+/**
+ * Merge and validate configuration, recording where each setting came from
+ *
+ * Precedence, lowest first: defaults, config file, env vars, `--set` overrides and
+ * the network argument. Throws ConfigError listing every invalid setting; of the
+ * network settings, only those of the selected network are checked.
+ */
+export function resolveConfig(options: ConfigLoadOptions = {}): ResolvedConfig {
+  const {
+    configPath,
+    network,
+    overrides = {},
+    env = process.env,
+    cwd = process.cwd(),
+  } = { ...cliOptions, ...options };
+  const merged: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+  const issues: string[] = [];
+
+  const defaults = JSON.parse(JSON.stringify(DEFAULT_CONFIG)) as Record<string, unknown>;
+  for (const [settingPath, value] of flattenSettings(defaults)) {
+    applySetting(merged, sources, settingPath, value, 'default');
+  }
+
+  const configFile = findConfigFile(configPath, env, cwd);
+  if (configFile) {
+    const source = path.relative(cwd, configFile) || configFile;
+    for (const [settingPath, value] of flattenSettings(readConfigFile(configFile))) {
+      applySetting(merged, sources, settingPath, value, source);
+    }
+  }
+
+  // Networks listed in PROOFVAULT_NETWORKS can be defined by env vars alone
+  const networks = isPlainObject(merged['networks']) ? merged['networks'] : {};
+  for (const name of parseList(env['PROOFVAULT_NETWORKS'] ?? '')) {
+    networks[name] ??= {};
+  }
+  merged['networks'] = networks;
+  const networkNames = new Set([
+    ...Object.keys(networks),
+    ...Object.keys(overrides).flatMap((settingPath) => {
+      const [root, name] = settingPath.split('.');
+      return root === 'networks' && name ? [name] : [];
+    }),
+  ]);
+  const envVars = Object.assign(
+    { ...CONFIG_ENV_VARS },
+    ...[...networkNames].map(getNetworkEnvVars),
+  ) as Record<string, string>;
+
+  for (const [settingPath, name] of Object.entries(envVars)) {
+    const value = env[name];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    if (settingPath === 'ci') {
+      // CI providers set CI to other truthy strings too; anything but "true" is off
+      applySetting(merged, sources, settingPath, value === 'true', `env:${name}`);
+    } else {
+      applyStringSetting(merged, sources, issues, settingPath, value, `env:${name}`);
+    }
+  }
+
+  for (const [settingPath, value] of Object.entries(overrides)) {
+    applyStringSetting(merged, sources, issues, settingPath, value, '--set');
+  }
+  if (network !== undefined) {
+    applySetting(merged, sources, 'network', network, '--network');
+  }
+  applyHederaNetworkDefaults(merged, sources);
+
+  const validate = getConfigValidator();
+  if (!validate(merged)) {
+    for (const error of validate.errors ?? []) {
+      const issue = formatConfigIssue(error, sources);
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+  }
+  const selected = merged['network'];
+  let relevant = issues;
+  if (typeof selected === 'string' && selected in networks) {
+    // Other networks are validated when they are selected, so unused placeholders pass
+    relevant = issues.filter((issue) => {
+      const name = /^networks\.([^.:]+)\./.exec(issue)?.[1];
+      return name === undefined || name === selected;
+    });
+  } else if (typeof selected === 'string' && selected) {
+    relevant.push(describeIssue('network', `Unsupported network: ${selected}`, sources));
+  }
+  if (relevant.length > 0) {
+    const unique = [...new Set(relevant)];
+    throw new ConfigError(
+      `Invalid configuration:\n  - ${unique.join('\n  - ')}`,
+      'INVALID_CONFIG',
+      unique,
+    );
+  }
+
+  return {
+    config: merged as unknown as ProofVaultConfig,
+    sources,
+    ...(configFile ? { configFile } : {}),
+  };
+}
+
+/**
+ * Load the merged and validated configuration
+ *
+ * Results are cached by load options, env vars and working directory, so getters can
+ * call this freely; a config file edited while the process runs is not picked up.
+ */
+export function loadConfig(options: ConfigLoadOptions = {}): ProofVaultConfig {
+  const { env = process.env, cwd = process.cwd(), ...rest } = { ...cliOptions, ...options };
+  const key = JSON.stringify([rest.configPath, rest.network, rest.overrides, cwd, env]);
+  let config = configCache.get(key);
+  if (!config) {
+    config = resolveConfig(options).config;
+    configCache.set(key, config);
+  }
+  return JSON.parse(JSON.stringify(config)) as ProofVaultConfig;
+}
+
+/**
+ * Copy a configuration with operator keys and API keys masked, for printing
+ */
+export function redactConfig(config: ProofVaultConfig): ProofVaultConfig {
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_SETTINGS.includes(key) && entry ? '<redacted>' : redact(entry),
+      ]),
+    );
+  };
+  return redact(config) as ProofVaultConfig;
+}
+
+/**
+ * Load the configuration along with the selected network's settings
+ */
+function loadNetwork(networkName?: string): {
+  config: ProofVaultConfig;
+  network: string;
+  settings: ProofVaultNetworkSettings;
+} {
+  const config = loadConfig(networkName !== undefined ? { network: networkName } : {});
+  const settings = config.networks[config.network];
+  if (!settings) {
+    throw new ConfigError(`Unsupported network: ${config.network}`, 'INVALID_CONFIG');
+  }
+  return { config, network: config.network, settings };
+}
+
+/**
+ * Read a network setting that is optional in general but needed by the caller
+ */
+function requireSetting(value: string | undefined, network: string, setting: string): string {
+  if (!value) {
+    const settingPath = `networks.${network}.${setting}`;
+    const envVar = getNetworkEnvVars(network)[settingPath];
+    throw new ConfigError(
+      `${settingPath} is required but not set${envVar ? `; set ${envVar} or add it to the config file` : ''}`,
+      'MISSING_SETTING',
+      [`${settingPath}: is required`],
+    );
+  }
+  return value;
+}
+
+function toNetworkConfig(
+  config: ProofVaultConfig,
+  network: string,
+  settings: ProofVaultNetworkSettings,
+): NetworkConfig {
+  return {
+    network,
+    hederaNetwork: settings.hederaNetwork,
+    rpcUrl: settings.rpcUrl,
+    operatorKey: requireSetting(settings.operatorKey, network, 'operatorKey'),
+    ...(settings.operatorId ? { operatorId: settings.operatorId } : {}),
+    chainId: settings.chainId,
+    gasPrice: config.gas.price,
+    timeout: settings.timeout,
+    ...(settings.mirrorNodeUrl ? { mirrorNodeUrl: settings.mirrorNodeUrl } : {}),
+    outputDir: settings.outputDir ?? config.deployment.outputDir,
+  };
+}
+
+/**
+ * Get the merged settings of a network, without requiring operator credentials
+ */
+export function getNetworkSettings(networkName?: string): ProofVaultNetworkSettings {
+  return loadNetwork(networkName).settings;
 }
 
 /**
  * Get network configuration based on environment
  */
 export function getNetworkConfig(networkName?: string): NetworkConfig {
-  const network = (networkName ?? process.env['NETWORK'] ?? 'testnet') as
-    | 'testnet'
-    | 'mainnet'
-    | 'local';
-
-  switch (network) {
-    case 'testnet':
-      return {
-        network: 'testnet',
-        rpcUrl: getEnvVar('RPC_URL', true, 'https://testnet.hashio.io/api'),
-        operatorKey: getEnvVar('OPERATOR_KEY'),
-        operatorId: getEnvVar('OPERATOR_ID', false),
-        chainId: 296,
-        gasPrice: 'auto',
-        timeout: 60000,
-      };
-
-    case 'mainnet':
-      return {
-        network: 'mainnet',
-        rpcUrl: getEnvVar('MAINNET_RPC_URL', true, 'https://mainnet.hashio.io/api'),
-        operatorKey: getEnvVar('MAINNET_OPERATOR_KEY'),
-        operatorId: getEnvVar('MAINNET_OPERATOR_ID', false),
-        chainId: 295,
-        gasPrice: 'auto',
-        timeout: 60000,
-      };
-
-    case 'local':
-      return {
-        network: 'local',
-        rpcUrl: getEnvVar('LOCAL_RPC_URL', true, 'http://localhost:8545'),
-        operatorKey: getEnvVar(
-          'LOCAL_OPERATOR_KEY',
-          true,
-          '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-        ),
-        operatorId: getEnvVar('LOCAL_OPERATOR_ID', false),
-        chainId: 31337,
-        gasPrice: 'auto',
-        timeout: 30000,
-      };
-
-    default:
-      throw new Error(`Unsupported network: ${network}`);
-  }
+  const { config, network, settings } = loadNetwork(networkName);
+  return toNetworkConfig(config, network, settings);
 }
 
 /**
  * Get Hedera client configuration
  */
 export function getHederaClientConfig(networkName?: string): HederaClientConfig {
-  const network = (networkName ?? process.env['NETWORK'] ?? 'testnet') as 'testnet' | 'mainnet';
-
-  if (network === 'testnet') {
-    return {
-      operatorId: getEnvVar('OPERATOR_ID', true, '0.0.123456'),
-      operatorKey: getEnvVar('OPERATOR_KEY'),
-      network: 'testnet',
-      maxTransactionFee: 100_000_000, // 1 HBAR
-      maxQueryPayment: 10_000_000, // 0.1 HBAR
-    };
-  } else {
-    return {
-      operatorId: getEnvVar('MAINNET_OPERATOR_ID'),
-      operatorKey: getEnvVar('MAINNET_OPERATOR_KEY'),
-      network: 'mainnet',
-      maxTransactionFee: 100_000_000, // 1 HBAR
-      maxQueryPayment: 10_000_000, // 0.1 HBAR
-    };
-  }
+  const { network, settings } = loadNetwork(networkName);
+
+  return {
+    operatorId: requireSetting(settings.operatorId, network, 'operatorId'),
+    operatorKey: requireSetting(settings.operatorKey, network, 'operatorKey'),
+    network: settings.hederaNetwork,
+    ...(settings.hederaNetwork === 'local'
+      ? {
+          nodes: settings.consensusNodes ?? {},
+          mirrorNetwork: settings.mirrorNetwork ?? [],
+        }
+      : {}),
+    maxTransactionFee: 100_000_000, // 1 HBAR
+    maxQueryPayment: 10_000_000, // 0.1 HBAR
+  };
 }
 
 /**
  * Get complete deployment configuration
  */
-export function getDeploymentConfig(networkName?: string): DeploymentConfig {
-  const networkConfig = getNetworkConfig(networkName);
+export function getDeploymentConfig(networkName?: string, manifestPath?: string): DeploymentConfig {
+  const { config: loaded, network, settings } = loadNetwork(networkName);
+  const manifest = manifestPath ?? loaded.deployment.manifest;
 
   return {
-    network: networkConfig,
-    contracts: {
-      identityAttestation: {
-        name: 'IdentityAttestation',
-        constructorArgs: [],
-        verify: true,
-      },
-      proofVault: {
-        name: 'ProofVault',
-        constructorArgs: [],
-        verify: true,
-      },
-      legalCaseManager: {
-        name: 'LegalCaseManager',
-        constructorArgs: [], // Will be populated with deployed contract addresses
-        verify: true,
-      },
-    },
-    verification: {
-      enabled: getEnvVar('VERIFY_CONTRACTS', false, 'true') === 'true',
-      apiKey: getEnvVar('ETHERSCAN_API_KEY', false),
-      delay: parseInt(getEnvVar('VERIFICATION_DELAY', false, '30000'), 10),
-    },
+    network: toNetworkConfig(loaded, network, settings),
+    contracts: manifest
+      ? loadDeploymentManifest(manifest)
+      : {
+          IdentityAttestation: {
+            name: 'IdentityAttestation',
+            constructorArgs: [],
+            verify: true,
+          },
+          ProofVault: {
+            name: 'ProofVault',
+            constructorArgs: [],
+            verify: true,
+          },
+          LegalCaseLib: {
+            name: 'LegalCaseLib',
+            constructorArgs: [],
+            verify: true,
+          },
+          LegalCaseManager: {
+            name: 'LegalCaseManager',
+            constructorArgs: ['${ProofVault.address}', '${IdentityAttestation.address}'],
+            libraries: { LegalCaseLib: '${LegalCaseLib.address}' },
+            dependsOn: ['ProofVault', 'IdentityAttestation'],
+            verify: true,
+          },
+        },
+    postDeployment: manifest
+      ? loadPostDeploymentConfig(manifest)
+      : {
+          // LegalCaseManager grants case parties access to evidence through ProofVault
+          roles: [
+            {
+              contract: 'ProofVault',
+              role: 'LEGAL_AUTHORITY_ROLE',
+              accounts: ['${LegalCaseManager.address}'],
+            },
+          ],
+        },
+    verification: loaded.verification,
   };
 }
 
 /**
- * Validate configuration
+ * Get contract source verification configuration
+ */
+export function getVerificationConfig(): NonNullable<DeploymentConfig['verification']> {
+  return loadConfig().verification;
+}
+
+/**
+ * Validate configuration, reporting every problem at once
  */
 export function validateConfig(config: DeploymentConfig): void {
+  const issues: string[] = [];
+
   // Validate network configuration
   if (!config.network.rpcUrl) {
-    throw new Error('RPC URL is required');
+    issues.push('RPC URL is required');
   }
 
   if (!config.network.operatorKey) {
-    throw new Error('Operator key is required');
+    issues.push('Operator key is required');
+  } else if (!isValidHederaPrivateKey(config.network.operatorKey)) {
+    issues.push('Invalid operator key format');
   }
 
-  if (config.network.operatorKey.length !== 66 && !config.network.operatorKey.startsWith('0x')) {
-    throw new Error('Invalid operator key format');
+  const hederaNetwork = config.network.hederaNetwork ?? config.network.network;
+  if (
+    hederaNetwork !== 'local' &&
+    hederaNetwork in NETWORK_CHAIN_IDS &&
+    config.network.chainId !== NETWORK_CHAIN_IDS[hederaNetwork as HederaNetwork]
+  ) {
+    issues.push(
+      `Chain ID ${config.network.chainId} does not match ${hederaNetwork} (${NETWORK_CHAIN_IDS[hederaNetwork as HederaNetwork]})`,
+    );
   }
 
   // Validate contract configuration
   const contractNames = Object.keys(config.contracts);
   if (contractNames.length === 0) {
-    throw new Error('At least one contract must be configured for deployment');
+    issues.push('At least one contract must be configured for deployment');
+  }
+
+  // Reject unknown dependencies, dependency cycles and invalid post-deployment
+  // steps before deploying anything
+  for (const check of [
+    () => orderContracts(config.contracts),
+    () =>
+      config.postDeployment &&
+      createPostDeploymentActions(
+        config.postDeployment,
+        Object.fromEntries(contractNames.map((name) => [name, ZeroAddress])),
+      ),
+  ]) {
+    try {
+      check();
+    } catch (error) {
+      issues.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(
+      `Invalid deployment configuration:\n  - ${issues.join('\n  - ')}`,
+      'INVALID_CONFIG',
+      issues,
+    );
   }
 
   // Validate verification configuration
-  if (
-    config.verification?.enabled &&
-    !config.verification.apiKey &&
-    config.network.network !== 'local'
-  ) {
+  if (config.verification?.enabled && !config.verification.apiKey && hederaNetwork !== 'local') {
     console.warn('Contract verification is enabled but no API key provided');
   }
 }
@@ -165,43 +984,73 @@ export function validateConfig(config: DeploymentConfig): void {
  * Get gas configuration
  */
 export function getGasConfig(_networkName?: string): { gasPrice?: string; gasLimit?: number } {
-  return {
-    gasPrice: getEnvVar('GAS_PRICE', false, 'auto'),
-    gasLimit: parseInt(getEnvVar('GAS_LIMIT', false, '8000000'), 10),
-  };
+  const { gas } = loadConfig();
+  return { gasPrice: gas.price, gasLimit: gas.limit };
 }
 
 /**
- * Get deployment output directory
+ * Get the deployment output directory of a network, the default network if omitted
  */
-export function getDeploymentOutputDir(): string {
-  return getEnvVar('DEPLOYMENT_OUTPUT_DIR', false, './deployments');
+export function getDeploymentOutputDir(networkName?: string): string {
+  const { config, settings } = loadNetwork(networkName);
+  return settings.outputDir ?? config.deployment.outputDir;
+}
+
+/**
+ * Get evidence content storage configuration
+ */
+export function getStorageConfig(): StorageConfig {
+  return loadConfig().storage;
+}
+
+/**
+ * Get event indexer configuration
+ */
+export function getIndexerConfig(): IndexerConfig {
+  return loadConfig().indexer;
 }
 
 /**
  * Check if running in CI environment
  */
 export function isCI(): boolean {
-  return getEnvVar('CI', false, 'false') === 'true';
+  return loadConfig().ci;
 }
 
 /**
  * Get log level
+ *
+ * Falls back to `LOG_LEVEL` or the default when other settings are invalid, so creating
+ * a logger never fails; the error surfaces from the setting that is actually used.
  */
-export function getLogLevel(): string {
-  return getEnvVar('LOG_LEVEL', false, 'info');
+export function getLogLevel(): LogLevel {
+  try {
+    return loadConfig().logLevel;
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    const level = (cliOptions.env ?? process.env)['LOG_LEVEL'];
+    return LOG_LEVELS.find((candidate) => candidate === level) ?? DEFAULT_CONFIG.logLevel;
+  }
 }
 
 /**
  * Export all configuration getters
  */
 export const config = {
+  loadConfig,
+  resolveConfig,
+  getNetworkSettings,
   getNetworkConfig,
   getHederaClientConfig,
   getDeploymentConfig,
+  getVerificationConfig,
   validateConfig,
   getGasConfig,
   getDeploymentOutputDir,
+  getStorageConfig,
+  getIndexerConfig,
   isCI,
   getLogLevel,
 };
@@ -0,0 +1,987 @@
+/**
+ * Deployment journal and planning for ProofVault deployments
+ *
+ * The deployer records every completed step (bytecode upload, contract creation)
+ * in `journal-<network>.json` next to the deployment results, so a failed run can
+ * resume without re-uploading bytecode or orphaning deployed contracts. Plans
+ * preview those steps and their estimated cost without sending transactions.
+ * After deployment, configured roles and fees are applied, skipping any already
+ * in place.
+ */
+
+import type { InterfaceAbi, ParamType } from 'ethers';
+import {
+  AbiCoder,
+  Interface,
+  ZeroAddress,
+  ZeroHash,
+  getAddress,
+  getBytes,
+  id,
+  isAddress,
+  keccak256,
+} from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  ContractConfig,
+  DeployedContract,
+  DeploymentJournal,
+  DeploymentJournalEntry,
+  DeploymentManifest,
+  DeploymentPlan,
+  DeploymentPlanContract,
+  DeploymentPlanOptions,
+  DeploymentPlanStep,
+  DeploymentTransactionType,
+  LinkReferences,
+  Logger,
+  PostDeploymentAction,
+  PostDeploymentConfig,
+  PostDeploymentExecutor,
+} from '../types';
+import { DeploymentError } from '../types';
+import { PROXY_CONTRACT_NAME } from '../upgrades';
+import { contractIdToEvmAddress, formatHbar, loadContractArtifact } from '../utils';
+
+export const DEPLOYMENT_JOURNAL_VERSION = 1;
+
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+// Bytecode is uploaded in file chunks of this many bytes
+export const BYTECODE_CHUNK_SIZE = 4096;
+
+export const DEFAULT_DEPLOY_GAS_LIMIT = 3_000_000;
+
+// Gas for role grants, fee updates and the checks before them
+export const POST_DEPLOYMENT_GAS_LIMIT = 150_000;
+
+// Order of IdentityAttestation's VerificationLevel enum
+export const VERIFICATION_LEVELS = [
+  'UNVERIFIED',
+  'BASIC_KYC',
+  'ENHANCED_KYC',
+  'GOVERNMENT_VERIFIED',
+  'LEGAL_PROFESSIONAL',
+  'EXPERT_WITNESS',
+  'WHISTLEBLOWER_PROTECTED',
+] as const;
+
+// Max fees in HBAR the deployer accepts per transaction
+export const MAX_TRANSACTION_FEES_HBAR: Record<DeploymentTransactionType, number> = {
+  FILE_CREATE: 2,
+  FILE_APPEND: 2,
+  CONTRACT_CREATE: 20,
+  CONTRACT_CALL: 5,
+};
+
+// Base fees in USD from the Hedera fee schedule
+const BASE_FEES_USD: Record<DeploymentTransactionType, number> = {
+  FILE_CREATE: 0.05,
+  FILE_APPEND: 0.05,
+  CONTRACT_CREATE: 1.0,
+  CONTRACT_CALL: 0.05,
+};
+
+// Hedera gas price in USD; contract creation is charged at least 80% of its gas limit
+const GAS_PRICE_USD = 0.0000000852;
+const MIN_GAS_CHARGED = 0.8;
+
+// Placeholder for another contract's address in constructor args, e.g. "${ProofVault.address}"
+const ADDRESS_PLACEHOLDER = /^\$\{(\w+)\.address\}$/;
+
+function invalidManifest(manifestPath: string, reason: string): DeploymentError {
+  return new DeploymentError(
+    `Invalid deployment manifest ${manifestPath}: ${reason}`,
+    'INVALID_MANIFEST',
+    { manifestPath },
+  );
+}
+
+/**
+ * Parse a JSON or YAML deployment manifest and check its version
+ */
+function readDeploymentManifest(manifestPath: string): DeploymentManifest {
+  let manifest: DeploymentManifest;
+  try {
+    const content = fs.readFileSync(manifestPath, 'utf8');
+    manifest = (
+      /\.ya?ml$/i.test(manifestPath) ? parseYaml(content) : JSON.parse(content)
+    ) as DeploymentManifest;
+  } catch (error) {
+    throw new DeploymentError(
+      `Cannot read deployment manifest ${manifestPath}`,
+      'INVALID_MANIFEST',
+      error,
+    );
+  }
+
+  if (manifest?.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    throw invalidManifest(manifestPath, `unsupported version ${String(manifest?.version)}`);
+  }
+  return manifest;
+}
+
+/**
+ * Load contract configs from a JSON or YAML deployment manifest, keyed by contract name
+ */
+export function loadDeploymentManifest(manifestPath: string): Record<string, ContractConfig> {
+  const manifest = readDeploymentManifest(manifestPath);
+  const invalid = (reason: string): DeploymentError => invalidManifest(manifestPath, reason);
+
+  if (typeof manifest.contracts !== 'object' || manifest.contracts === null) {
+    throw invalid('contracts must be a map of contract names to settings');
+  }
+
+  const contracts: Record<string, ContractConfig> = {};
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    const settings = entry ?? {};
+    if (settings.constructorArgs !== undefined && !Array.isArray(settings.constructorArgs)) {
+      throw invalid(`${name}.constructorArgs must be a list`);
+    }
+    if (
+      settings.dependsOn !== undefined &&
+      (!Array.isArray(settings.dependsOn) ||
+        settings.dependsOn.some((dependency) => typeof dependency !== 'string'))
+    ) {
+      throw invalid(`${name}.dependsOn must be a list of contract names`);
+    }
+    if (
+      settings.gasLimit !== undefined &&
+      (!Number.isInteger(settings.gasLimit) || settings.gasLimit <= 0)
+    ) {
+      throw invalid(`${name}.gasLimit must be a positive integer`);
+    }
+    if (settings.proxy !== undefined && typeof settings.proxy !== 'boolean') {
+      throw invalid(`${name}.proxy must be true or false`);
+    }
+    if (
+      settings.libraries !== undefined &&
+      (typeof settings.libraries !== 'object' ||
+        settings.libraries === null ||
+        Array.isArray(settings.libraries) ||
+        Object.values(settings.libraries).some((address) => typeof address !== 'string'))
+    ) {
+      throw invalid(`${name}.libraries must be a map of library names to addresses`);
+    }
+    contracts[name] = { ...settings, name };
+  }
+
+  if (Object.keys(contracts).length === 0) {
+    throw invalid('no contracts declared');
+  }
+  return contracts;
+}
+
+/**
+ * Load the post-deployment roles and fees from a deployment manifest
+ */
+export function loadPostDeploymentConfig(manifestPath: string): PostDeploymentConfig {
+  const postDeployment = readDeploymentManifest(manifestPath).postDeployment ?? {};
+  const invalid = (reason: string): DeploymentError => invalidManifest(manifestPath, reason);
+
+  if (typeof postDeployment !== 'object') {
+    throw invalid('postDeployment must be a map');
+  }
+  if (postDeployment.roles !== undefined && !Array.isArray(postDeployment.roles)) {
+    throw invalid('postDeployment.roles must be a list');
+  }
+  for (const [index, grant] of (postDeployment.roles ?? []).entries()) {
+    if (
+      typeof grant?.contract !== 'string' ||
+      typeof grant.role !== 'string' ||
+      !Array.isArray(grant.accounts) ||
+      grant.accounts.some((account) => typeof account !== 'string')
+    ) {
+      throw invalid(
+        `postDeployment.roles[${index}] needs a contract, a role and a list of accounts`,
+      );
+    }
+  }
+  for (const [level, fee] of Object.entries(postDeployment.verificationFees ?? {})) {
+    if (!/^\d+$/.test(String(fee))) {
+      throw invalid(`postDeployment.verificationFees.${level} must be a whole number of tinybars`);
+    }
+  }
+  return postDeployment;
+}
+
+/**
+ * Get the contracts a contract depends on, declared or referenced by its constructor args
+ * and linked libraries
+ */
+export function getContractDependencies(contract: ContractConfig): string[] {
+  const dependencies = new Set(contract.dependsOn ?? []);
+  for (const arg of [
+    ...(contract.constructorArgs ?? []),
+    ...Object.values(contract.libraries ?? {}),
+  ]) {
+    const match = typeof arg === 'string' ? ADDRESS_PLACEHOLDER.exec(arg) : null;
+    if (match?.[1]) {
+      dependencies.add(match[1]);
+    }
+  }
+  return [...dependencies];
+}
+
+/**
+ * Order contracts so each is deployed after its dependencies
+ *
+ * Independent contracts keep their declaration order. Unknown dependencies and
+ * dependency cycles are rejected before anything is deployed.
+ */
+export function orderContracts(contracts: Record<string, ContractConfig>): ContractConfig[] {
+  const ordered: ContractConfig[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (name: string, trail: string[]): void => {
+    const contract = contracts[name];
+    if (!contract) {
+      throw new DeploymentError(
+        `${trail[trail.length - 1]} depends on unknown contract ${name}`,
+        'UNKNOWN_DEPENDENCY',
+        { contract: trail[trail.length - 1], dependency: name },
+      );
+    }
+    if (state.get(name) === 'done') {
+      return;
+    }
+    if (state.get(name) === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(name)), name];
+      throw new DeploymentError(
+        `Dependency cycle between contracts: ${cycle.join(' -> ')}`,
+        'DEPENDENCY_CYCLE',
+        { cycle },
+      );
+    }
+
+    state.set(name, 'visiting');
+    for (const dependency of getContractDependencies(contract)) {
+      visit(dependency, [...trail, name]);
+    }
+    state.set(name, 'done');
+    ordered.push(contract);
+  };
+
+  for (const name of Object.keys(contracts)) {
+    visit(name, []);
+  }
+  return ordered;
+}
+
+/**
+ * Get the path of the journal for a network
+ */
+export function getDeploymentJournalPath(network: string, outputDir: string): string {
+  return path.join(outputDir, `journal-${network}.json`);
+}
+
+/**
+ * Start an empty journal for a deployment
+ */
+export function createDeploymentJournal(network: string, deployer: string): DeploymentJournal {
+  const now = Date.now();
+  return {
+    version: DEPLOYMENT_JOURNAL_VERSION,
+    network,
+    deployer,
+    startedAt: now,
+    updatedAt: now,
+    contracts: {},
+  };
+}
+
+/**
+ * Load the journal of an unfinished deployment, or null if there is none
+ */
+export function loadDeploymentJournal(
+  network: string,
+  outputDir: string,
+): DeploymentJournal | null {
+  const journalPath = getDeploymentJournalPath(network, outputDir);
+  if (!fs.existsSync(journalPath)) {
+    return null;
+  }
+
+  let journal: DeploymentJournal;
+  try {
+    journal = JSON.parse(fs.readFileSync(journalPath, 'utf8')) as DeploymentJournal;
+  } catch (error) {
+    throw new DeploymentError(
+      `Deployment journal ${journalPath} is corrupt`,
+      'INVALID_JOURNAL',
+      error,
+    );
+  }
+
+  if (journal.version !== DEPLOYMENT_JOURNAL_VERSION || journal.network !== network) {
+    throw new DeploymentError(
+      `Deployment journal ${journalPath} was written for ${journal.network} (version ${journal.version})`,
+      'INVALID_JOURNAL',
+      { version: journal.version, network: journal.network },
+    );
+  }
+  return journal;
+}
+
+/**
+ * Write the journal atomically so an interrupted write never corrupts it
+ */
+export function saveDeploymentJournal(journal: DeploymentJournal, outputDir: string): void {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const journalPath = getDeploymentJournalPath(journal.network, outputDir);
+  const tempPath = `${journalPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(journal, null, 2));
+  fs.renameSync(tempPath, journalPath);
+}
+
+/**
+ * Remove the journal once a deployment has completed
+ */
+export function clearDeploymentJournal(network: string, outputDir: string): void {
+  fs.rmSync(getDeploymentJournalPath(network, outputDir), { force: true });
+}
+
+/**
+ * Hash contract bytecode so journal entries for stale artifacts are not reused
+ */
+export function hashBytecode(bytecode: string): string {
+  return keccak256(bytecode);
+}
+
+/**
+ * Get the journal entry for a contract if it was recorded for the same bytecode
+ */
+export function getJournalEntry(
+  journal: DeploymentJournal,
+  contractName: string,
+  bytecodeHash: string,
+): DeploymentJournalEntry | undefined {
+  const entry = journal.contracts[contractName];
+  return entry?.bytecodeHash === bytecodeHash ? entry : undefined;
+}
+
+/**
+ * Get a contract deployed by an earlier run with the same bytecode and constructor arguments
+ */
+export function getJournaledContract(
+  journal: DeploymentJournal,
+  contractName: string,
+  bytecodeHash: string,
+  constructorArgs: unknown[],
+): DeployedContract | undefined {
+  const contract = getJournalEntry(journal, contractName, bytecodeHash)?.contract;
+  if (!contract) {
+    return undefined;
+  }
+
+  const journaledArgs = JSON.stringify(contract.constructorArgs ?? []);
+  return journaledArgs === JSON.stringify(constructorArgs) ? contract : undefined;
+}
+
+/**
+ * Record a completed deployment step for a contract and persist the journal
+ */
+export function recordJournalStep(
+  journal: DeploymentJournal,
+  contractName: string,
+  step: Omit<DeploymentJournalEntry, 'updatedAt'>,
+  outputDir: string,
+): void {
+  const now = Date.now();
+  const previous = getJournalEntry(journal, contractName, step.bytecodeHash);
+
+  journal.contracts[contractName] = { ...previous, ...step, updatedAt: now };
+  journal.updatedAt = now;
+  saveDeploymentJournal(journal, outputDir);
+}
+
+/**
+ * Replace `${Contract.address}` placeholders in constructor args with deployed addresses
+ *
+ * Unknown placeholders throw unless `allowUnresolved` is set, in which case they
+ * are left as-is (used when planning before dependencies are deployed).
+ */
+export function resolveConstructorArgs(
+  args: unknown[],
+  addresses: Record<string, string>,
+  allowUnresolved = false,
+): unknown[] {
+  return args.map((arg) => {
+    const match = typeof arg === 'string' ? ADDRESS_PLACEHOLDER.exec(arg) : null;
+    if (!match) {
+      return arg;
+    }
+
+    const address = addresses[match[1] ?? ''];
+    if (!address && !allowUnresolved) {
+      throw new DeploymentError(
+        `Constructor argument ${String(arg)} refers to a contract that is not deployed`,
+        'UNRESOLVED_DEPENDENCY',
+        { placeholder: arg },
+      );
+    }
+    return address ?? arg;
+  });
+}
+
+/**
+ * Replace `${Contract.address}` placeholders in library addresses with deployed addresses
+ *
+ * Unknown placeholders throw unless `allowUnresolved` is set, as for constructor args.
+ */
+export function resolveLibraries(
+  libraries: Record<string, string>,
+  addresses: Record<string, string>,
+  allowUnresolved = false,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(libraries).map(([library, value]) => {
+      const match = ADDRESS_PLACEHOLDER.exec(value);
+      if (!match) {
+        return [library, value];
+      }
+
+      const address = addresses[match[1] ?? ''];
+      if (!address && !allowUnresolved) {
+        throw new DeploymentError(
+          `Library ${library} refers to a contract that is not deployed: ${value}`,
+          'UNRESOLVED_DEPENDENCY',
+          { library, placeholder: value },
+        );
+      }
+      return [library, address ?? value];
+    }),
+  );
+}
+
+/**
+ * Write library addresses into the placeholders of unlinked bytecode
+ *
+ * Every library the bytecode references needs an address, and every address
+ * given must belong to a referenced library.
+ */
+export function linkBytecode(
+  contractName: string,
+  bytecode: string,
+  linkReferences: LinkReferences = {},
+  libraries: Record<string, string> = {},
+): string {
+  const referenced = Object.assign({}, ...Object.values(linkReferences)) as Record<
+    string,
+    Array<{ start: number; length: number }>
+  >;
+
+  const unknown = Object.keys(libraries).filter((library) => !referenced[library]);
+  if (unknown.length > 0) {
+    throw new DeploymentError(
+      `${contractName} does not link libraries ${unknown.join(', ')}`,
+      'UNKNOWN_LIBRARY',
+      { contractName, libraries: unknown },
+    );
+  }
+
+  let linked = bytecode;
+  for (const [library, offsets] of Object.entries(referenced)) {
+    const address = libraries[library];
+    if (address === undefined) {
+      throw new DeploymentError(
+        `${contractName} needs the address of library ${library}`,
+        'UNLINKED_LIBRARY',
+        { contractName, library },
+      );
+    }
+    if (!isAddress(address)) {
+      throw new DeploymentError(
+        `Library ${library} of ${contractName} has an invalid address: ${address}`,
+        'INVALID_LIBRARY_ADDRESS',
+        { contractName, library, address },
+      );
+    }
+
+    // Offsets count bytes after the 0x prefix, two hex digits each
+    const hex = getAddress(address).slice(2).toLowerCase();
+    for (const { start, length } of offsets) {
+      linked = linked.slice(0, 2 + start * 2) + hex + linked.slice(2 + (start + length) * 2);
+    }
+  }
+  return linked;
+}
+
+/**
+ * Load a contract's bytecode with its libraries linked
+ */
+export function loadLinkedBytecode(
+  contractName: string,
+  libraries: Record<string, string> = {},
+): string {
+  const { bytecode, linkReferences } = loadContractArtifact(contractName);
+  return linkBytecode(contractName, bytecode, linkReferences, libraries);
+}
+
+/**
+ * Check a constructor argument against its ABI type, converting struct objects to tuples
+ */
+function normalizeAbiValue(param: ParamType, value: unknown, label: string): unknown {
+  const invalid = (reason: string): DeploymentError =>
+    new DeploymentError(
+      `${label} (${param.format('sighash')}): ${reason}`,
+      'INVALID_CONSTRUCTOR_ARGS',
+      {
+        type: param.format('sighash'),
+        value,
+      },
+    );
+
+  if (param.isArray()) {
+    if (!Array.isArray(value)) {
+      throw invalid('expected an array');
+    }
+    if (param.arrayLength >= 0 && value.length !== param.arrayLength) {
+      throw invalid(`expected ${param.arrayLength} elements, got ${value.length}`);
+    }
+    return value.map((item, index) =>
+      normalizeAbiValue(param.arrayChildren, item, `${label}[${index}]`),
+    );
+  }
+
+  if (param.isTuple()) {
+    const components = param.components;
+    let values: unknown[];
+    if (Array.isArray(value)) {
+      if (value.length !== components.length) {
+        throw invalid(`expected ${components.length} fields, got ${value.length}`);
+      }
+      values = value;
+    } else if (typeof value === 'object' && value !== null) {
+      const fields = value as Record<string, unknown>;
+      values = components.map((component) => {
+        if (!(component.name in fields)) {
+          throw invalid(`missing field ${component.name}`);
+        }
+        return fields[component.name];
+      });
+    } else {
+      throw invalid('expected a struct object or array');
+    }
+    return components.map((component, index) =>
+      normalizeAbiValue(component, values[index], `${label}.${component.name || String(index)}`),
+    );
+  }
+
+  if (param.baseType === 'bool' && typeof value !== 'boolean') {
+    throw invalid(`expected true or false, got ${JSON.stringify(value)}`);
+  }
+  if (
+    /^u?int\d*$/.test(param.baseType) &&
+    typeof value === 'number' &&
+    !Number.isSafeInteger(value)
+  ) {
+    throw invalid(`${value} is not a safe integer; pass large values as decimal strings`);
+  }
+
+  try {
+    AbiCoder.defaultAbiCoder().encode([param], [value]);
+  } catch (error) {
+    const reason = (error as { shortMessage?: string }).shortMessage ?? String(error);
+    throw invalid(`${reason}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Check arguments against ABI inputs, returning them ready to encode
+ */
+function normalizeAbiArgs(
+  contractName: string,
+  target: string,
+  inputs: readonly ParamType[],
+  args: unknown[],
+): unknown[] {
+  if (args.length !== inputs.length) {
+    const signature = inputs.map((input) => input.format('full')).join(', ');
+    throw new DeploymentError(
+      `${contractName} ${target} expects ${inputs.length} arguments (${signature}), got ${args.length}`,
+      'INVALID_CONSTRUCTOR_ARGS',
+      { expected: inputs.length, actual: args.length },
+    );
+  }
+
+  return inputs.map((input, index) =>
+    normalizeAbiValue(
+      input,
+      args[index],
+      `${contractName} ${target} argument ${input.name || String(index)}`,
+    ),
+  );
+}
+
+/**
+ * ABI-encode constructor arguments using the constructor inputs of a contract's ABI
+ *
+ * Struct arguments may be given as objects keyed by field name or as arrays.
+ * Mismatched argument counts and values that do not fit their Solidity type
+ * throw a DeploymentError naming the offending parameter.
+ */
+export function encodeConstructorArgs(
+  contractName: string,
+  abi: unknown[],
+  args: unknown[],
+): Uint8Array {
+  const inputs = new Interface(abi as InterfaceAbi).deploy.inputs;
+  const values = normalizeAbiArgs(contractName, 'constructor', inputs, args);
+  return getBytes(AbiCoder.defaultAbiCoder().encode(inputs, values));
+}
+
+/**
+ * Encode the `initialize` call a proxy makes to set up its storage
+ *
+ * Upgradeable contracts take the same arguments in `initialize` as in their
+ * constructor, which is validated like encodeConstructorArgs.
+ */
+export function encodeInitializerCall(
+  contractName: string,
+  abi: unknown[],
+  args: unknown[],
+): string {
+  const contract = new Interface(abi as InterfaceAbi);
+  const initializer = contract.getFunction('initialize');
+  if (!initializer) {
+    throw new DeploymentError(
+      `${contractName} has no initialize function and cannot be deployed behind a proxy`,
+      'NOT_UPGRADEABLE',
+      { contractName },
+    );
+  }
+  const values = normalizeAbiArgs(contractName, 'initializer', initializer.inputs, args);
+  return contract.encodeFunctionData(initializer, values);
+}
+
+/**
+ * Journal key of the proxy in front of an upgradeable contract
+ */
+export function getProxyJournalKey(contractName: string): string {
+  return `${contractName}:proxy`;
+}
+
+/**
+ * Estimate the fee of a deployment transaction in tinybars
+ */
+function estimateStep(
+  type: DeploymentTransactionType,
+  hbarPriceUsd: number,
+  extra: Pick<DeploymentPlanStep, 'bytes' | 'gasLimit'>,
+): DeploymentPlanStep {
+  const gasUsd = (extra.gasLimit ?? 0) * MIN_GAS_CHARGED * GAS_PRICE_USD;
+  const estimatedHbar = (BASE_FEES_USD[type] + gasUsd) / hbarPriceUsd;
+
+  return {
+    type,
+    ...extra,
+    estimatedFee: BigInt(Math.ceil(estimatedHbar * 100_000_000)).toString(),
+    maxFee: BigInt(MAX_TRANSACTION_FEES_HBAR[type] * 100_000_000).toString(),
+  };
+}
+
+/**
+ * Plan the transactions that upload bytecode and create a contract from it
+ */
+function planCreationSteps(
+  bytecodeSize: number,
+  hbarPriceUsd: number,
+  options: { upload: boolean; create: boolean; gasLimit: number },
+): DeploymentPlanStep[] {
+  const steps: DeploymentPlanStep[] = [];
+  if (options.upload) {
+    steps.push(
+      estimateStep('FILE_CREATE', hbarPriceUsd, {
+        bytes: Math.min(bytecodeSize, BYTECODE_CHUNK_SIZE),
+      }),
+    );
+    const fileAppendChunks = Math.max(Math.ceil(bytecodeSize / BYTECODE_CHUNK_SIZE) - 1, 0);
+    for (let chunk = 1; chunk <= fileAppendChunks; chunk++) {
+      steps.push(
+        estimateStep('FILE_APPEND', hbarPriceUsd, {
+          bytes: Math.min(bytecodeSize - chunk * BYTECODE_CHUNK_SIZE, BYTECODE_CHUNK_SIZE),
+        }),
+      );
+    }
+  }
+  if (options.create) {
+    steps.push(estimateStep('CONTRACT_CREATE', hbarPriceUsd, { gasLimit: options.gasLimit }));
+  }
+  return steps;
+}
+
+/**
+ * Preview the steps and estimated cost of deploying contracts in order
+ *
+ * Contracts already recorded in the journal are skipped, and journaled bytecode
+ * files are reused, exactly as the deployer would.
+ */
+export function createDeploymentPlan(
+  contracts: ContractConfig[],
+  options: DeploymentPlanOptions,
+): DeploymentPlan {
+  if (!(options.hbarPriceUsd > 0)) {
+    throw new DeploymentError('HBAR price must be positive', 'INVALID_PLAN', options);
+  }
+
+  const addresses: Record<string, string> = {};
+  const planned: DeploymentPlanContract[] = [];
+
+  for (const contract of contracts) {
+    const { abi } = loadContractArtifact(contract.name);
+    const constructorArgs = resolveConstructorArgs(contract.constructorArgs ?? [], addresses, true);
+    const libraries = resolveLibraries(contract.libraries ?? {}, addresses, true);
+
+    // Link and validate against the ABI, standing in for addresses not yet deployed
+    const bytecode = loadLinkedBytecode(
+      contract.name,
+      Object.fromEntries(
+        Object.entries(libraries).map(([library, address]) => [
+          library,
+          ADDRESS_PLACEHOLDER.test(address) ? ZeroAddress : address,
+        ]),
+      ),
+    );
+    const bytecodeSize = (bytecode.length - 2) / 2;
+    const bytecodeHash = hashBytecode(bytecode);
+    const fileAppendChunks = Math.max(Math.ceil(bytecodeSize / BYTECODE_CHUNK_SIZE) - 1, 0);
+    const validationArgs = constructorArgs.map((arg) =>
+      typeof arg === 'string' && ADDRESS_PLACEHOLDER.test(arg) ? ZeroAddress : arg,
+    );
+    encodeConstructorArgs(contract.name, abi, validationArgs);
+    if (contract.proxy) {
+      encodeInitializerCall(contract.name, abi, validationArgs);
+    }
+
+    const gasLimit = contract.gasLimit ?? options.gasLimit ?? DEFAULT_DEPLOY_GAS_LIMIT;
+    let journaled =
+      options.journal &&
+      getJournaledContract(options.journal, contract.name, bytecodeHash, constructorArgs);
+    const bytecodeFileId =
+      options.journal &&
+      getJournalEntry(options.journal, contract.name, bytecodeHash)?.bytecodeFileId;
+
+    const steps = planCreationSteps(bytecodeSize, options.hbarPriceUsd, {
+      upload: !journaled && !bytecodeFileId,
+      create: !journaled,
+      gasLimit,
+    });
+
+    if (contract.proxy) {
+      const proxyBytecode = loadContractArtifact(PROXY_CONTRACT_NAME).bytecode;
+      const proxyEntry =
+        options.journal &&
+        getJournalEntry(
+          options.journal,
+          getProxyJournalKey(contract.name),
+          hashBytecode(proxyBytecode),
+        );
+      steps.push(
+        ...planCreationSteps((proxyBytecode.length - 2) / 2, options.hbarPriceUsd, {
+          upload: !proxyEntry?.contract && !proxyEntry?.bytecodeFileId,
+          create: !proxyEntry?.contract,
+          gasLimit,
+        }),
+      );
+      journaled = journaled && proxyEntry?.contract;
+    }
+
+    const entry: DeploymentPlanContract = {
+      name: contract.name,
+      action:
+        steps.length === 0
+          ? 'skip'
+          : steps.some((step) => step.type === 'FILE_CREATE')
+            ? 'deploy'
+            : 'reuse-bytecode',
+      bytecodeSize,
+      bytecodeHash,
+      fileAppendChunks,
+      constructorArgs,
+      steps,
+      ...(contract.proxy ? { proxy: true } : {}),
+      estimatedFee: steps
+        .reduce((total, step) => total + BigInt(step.estimatedFee), BigInt(0))
+        .toString(),
+    };
+    if (journaled) {
+      entry.address = journaled.address;
+      addresses[contract.name] = journaled.address;
+    }
+    planned.push(entry);
+  }
+
+  const allSteps = planned.flatMap((contract) => contract.steps);
+  const totalEstimatedFee = allSteps.reduce(
+    (total, step) => total + BigInt(step.estimatedFee),
+    BigInt(0),
+  );
+  const totalMaxFee = allSteps.reduce((total, step) => total + BigInt(step.maxFee), BigInt(0));
+
+  return {
+    network: options.network,
+    deployer: options.deployer,
+    createdAt: Date.now(),
+    hbarPriceUsd: options.hbarPriceUsd,
+    contracts: planned,
+    totalEstimatedFee: totalEstimatedFee.toString(),
+    totalEstimatedFeeHbar: formatHbar(totalEstimatedFee),
+    totalMaxFee: totalMaxFee.toString(),
+    totalMaxFeeHbar: formatHbar(totalMaxFee),
+  };
+}
+
+/**
+ * Expand post-deployment config into one action per role grant and fee update
+ *
+ * Accounts may be EVM addresses, Hedera account IDs (converted to their long-zero
+ * address) or `${Contract.address}` placeholders. Unknown contracts, roles and
+ * verification levels throw before anything is sent.
+ */
+export function createPostDeploymentActions(
+  postDeployment: PostDeploymentConfig,
+  addresses: Record<string, string>,
+): PostDeploymentAction[] {
+  const invalid = (reason: string, details?: unknown): DeploymentError =>
+    new DeploymentError(reason, 'INVALID_POST_DEPLOYMENT', details);
+  const contractAddress = (contract: string): string => {
+    const address = addresses[contract];
+    if (!address) {
+      throw invalid(`Post-deployment step targets ${contract}, which is not deployed`, {
+        contract,
+      });
+    }
+    return address;
+  };
+
+  const actions: PostDeploymentAction[] = [];
+  for (const grant of postDeployment.roles ?? []) {
+    const address = contractAddress(grant.contract);
+    if (!getPostDeploymentInterface(grant.contract).hasFunction(grant.role)) {
+      throw invalid(`${grant.contract} has no role ${grant.role}`, grant);
+    }
+
+    for (const account of resolveConstructorArgs(grant.accounts, addresses) as string[]) {
+      let evmAddress: string;
+      try {
+        evmAddress = /^\d+\.\d+\.\d+$/.test(account)
+          ? contractIdToEvmAddress(account)
+          : getAddress(account);
+      } catch (error) {
+        throw invalid(`Invalid account ${account} for ${grant.contract} ${grant.role}`, error);
+      }
+      actions.push({
+        type: 'GRANT_ROLE',
+        contract: grant.contract,
+        contractAddress: address,
+        role: grant.role,
+        account: evmAddress,
+        status: 'pending',
+      });
+    }
+  }
+
+  const fees = Object.entries(postDeployment.verificationFees ?? {});
+  if (fees.length > 0) {
+    const address = contractAddress('IdentityAttestation');
+    for (const [level, fee] of fees) {
+      if (!(VERIFICATION_LEVELS as readonly string[]).includes(level)) {
+        throw invalid(`Unknown verification level ${level}`, { level });
+      }
+      actions.push({
+        type: 'SET_VERIFICATION_FEE',
+        contract: 'IdentityAttestation',
+        contractAddress: address,
+        level,
+        value: BigInt(fee).toString(),
+        status: 'pending',
+      });
+    }
+  }
+  return actions;
+}
+
+function getPostDeploymentInterface(contract: string): Interface {
+  return new Interface(loadContractArtifact(contract).abi as InterfaceAbi);
+}
+
+/**
+ * Get the bytes32 identifier of an AccessControl role
+ */
+export function getRoleId(role: string): string {
+  return role === 'DEFAULT_ADMIN_ROLE' ? ZeroHash : id(role);
+}
+
+/**
+ * Apply post-deployment actions in order, updating each action's status in place
+ *
+ * Each action is checked first: roles already held and fees already set are
+ * marked `skipped` without sending a transaction.
+ */
+export async function applyPostDeploymentActions(
+  actions: PostDeploymentAction[],
+  executor: PostDeploymentExecutor,
+  logger?: Logger,
+): Promise<PostDeploymentAction[]> {
+  for (const action of actions) {
+    const contract = getPostDeploymentInterface(action.contract);
+    let check: { fn: string; args: unknown[] };
+    let update: { fn: string; args: unknown[] };
+    let description: string;
+
+    if (action.type === 'GRANT_ROLE') {
+      const role = getRoleId(action.role ?? '');
+      check = { fn: 'hasRole', args: [role, action.account] };
+      update = { fn: 'grantRole', args: [role, action.account] };
+      description = `${action.contract} ${action.role} for ${action.account}`;
+    } else {
+      const level = VERIFICATION_LEVELS.indexOf(
+        action.level as (typeof VERIFICATION_LEVELS)[number],
+      );
+      check = { fn: 'verificationFees', args: [level] };
+      update = { fn: 'updateVerificationFee', args: [level, action.value] };
+      description = `${action.contract} ${action.level} verification fee of ${action.value}`;
+    }
+
+    try {
+      const [current] = contract.decodeFunctionResult(
+        check.fn,
+        await executor.call(action, contract.encodeFunctionData(check.fn, check.args)),
+      );
+      const applied =
+        action.type === 'GRANT_ROLE'
+          ? current === true
+          : BigInt(current as bigint) === BigInt(action.value ?? 0);
+      if (applied) {
+        action.status = 'skipped';
+        logger?.info(`⏭️  ${description} already in place`);
+        continue;
+      }
+
+      const { transactionId, fee } = await executor.execute(
+        action,
+        contract.encodeFunctionData(update.fn, update.args),
+      );
+      action.status = 'applied';
+      action.transactionId = transactionId;
+      if (fee !== undefined) {
+        action.fee = fee;
+      }
+      logger?.info(`✅ Applied ${description} (${transactionId})`);
+    } catch (error) {
+      throw new DeploymentError(
+        `Post-deployment step failed: ${description}`,
+        'POST_DEPLOYMENT_FAILED',
+        { action, error },
+      );
+    }
+  }
+  return actions;
+}
@@ -0,0 +1,215 @@
+/**
+ * Client-side envelope encryption for confidential ProofVault evidence
+ *
+ * Evidence content is encrypted with a random AES-256-GCM data key. The data
+ * key is wrapped for every authorized viewer with ECIES over secp256k1, so any
+ * viewer holding the private key behind their EVM address can decrypt it.
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { SigningKey, computeAddress, getAddress, getBytes, hexlify } from 'ethers';
+import type { EncryptedEnvelopeHeader, EncryptionRecipient, WrappedDataKey } from '../types';
+import { EncryptionError } from '../types';
+
+export const ENVELOPE_VERSION = 1;
+
+// ProofVault.ClassificationLevel.CONFIDENTIAL; this and higher levels are encrypted by default
+export const CONFIDENTIAL_CLASSIFICATION = 2;
+
+const ENVELOPE_MAGIC = Buffer.from('PVENC1', 'ascii');
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const ECIES_INFO = Buffer.from('ProofVault ECIES v1', 'utf8');
+
+/**
+ * Encrypt data with AES-256-GCM
+ */
+function aesGcmEncrypt(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+/**
+ * Decrypt and authenticate AES-256-GCM data
+ */
+function aesGcmDecrypt(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * Derive the key-encryption key from an ECDH shared point
+ */
+function deriveWrappingKey(sharedSecret: string, ephemeralPublicKey: string): Buffer {
+  // computeSharedSecret returns the uncompressed point; use its x-coordinate
+  const sharedX = Buffer.from(getBytes(sharedSecret)).subarray(1, 33);
+  return Buffer.from(
+    hkdfSync('sha256', sharedX, getBytes(ephemeralPublicKey), ECIES_INFO, KEY_LENGTH),
+  );
+}
+
+/**
+ * Build an encryption recipient from a secp256k1 public key
+ */
+export function recipientFromPublicKey(publicKey: string): EncryptionRecipient {
+  const normalized = SigningKey.computePublicKey(publicKey, false);
+  return { address: computeAddress(normalized), publicKey: normalized };
+}
+
+/**
+ * Wrap a data key for a single recipient
+ */
+function wrapDataKey(dataKey: Buffer, recipient: EncryptionRecipient): WrappedDataKey {
+  const ephemeralKey = new SigningKey(randomBytes(KEY_LENGTH));
+  const ephemeralPublicKey = ephemeralKey.publicKey;
+  const wrappingKey = deriveWrappingKey(
+    ephemeralKey.computeSharedSecret(recipient.publicKey),
+    ephemeralPublicKey,
+  );
+  const wrapped = aesGcmEncrypt(wrappingKey, dataKey);
+
+  return {
+    address: recipient.address,
+    ephemeralPublicKey,
+    iv: hexlify(wrapped.iv),
+    tag: hexlify(wrapped.tag),
+    wrappedKey: hexlify(wrapped.data),
+  };
+}
+
+/**
+ * Validate recipients and drop duplicates by address
+ */
+function normalizeRecipients(recipients: EncryptionRecipient[]): EncryptionRecipient[] {
+  const byAddress = new Map<string, EncryptionRecipient>();
+
+  for (const recipient of recipients) {
+    let derived: EncryptionRecipient;
+    try {
+      derived = recipientFromPublicKey(recipient.publicKey);
+    } catch (error) {
+      throw new EncryptionError(
+        `Invalid public key for recipient ${recipient.address}`,
+        'INVALID_RECIPIENT',
+        error,
+      );
+    }
+
+    if (derived.address !== getAddress(recipient.address)) {
+      throw new EncryptionError(
+        `Public key does not match recipient address ${recipient.address}`,
+        'INVALID_RECIPIENT',
+        { expected: recipient.address, derived: derived.address },
+      );
+    }
+    byAddress.set(derived.address, derived);
+  }
+
+  if (byAddress.size === 0) {
+    throw new EncryptionError('At least one recipient is required', 'INVALID_RECIPIENT');
+  }
+  return [...byAddress.values()];
+}
+
+/**
+ * Encrypt evidence content into a self-describing envelope
+ *
+ * Layout: magic (6 bytes) | header length (uint32 BE) | header JSON | ciphertext
+ */
+export function encryptEvidence(content: Buffer, recipients: EncryptionRecipient[]): Buffer {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const encrypted = aesGcmEncrypt(dataKey, content);
+
+  const header: EncryptedEnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: 'AES-256-GCM',
+    iv: hexlify(encrypted.iv),
+    tag: hexlify(encrypted.tag),
+    recipients: normalizeRecipients(recipients).map((recipient) => wrapDataKey(dataKey, recipient)),
+  };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const headerLength = Buffer.alloc(4);
+  headerLength.writeUInt32BE(headerBytes.length);
+
+  return Buffer.concat([ENVELOPE_MAGIC, headerLength, headerBytes, encrypted.data]);
+}
+
+/**
+ * Check whether data is an encrypted evidence envelope
+ */
+export function isEncryptedEnvelope(data: Buffer): boolean {
+  return data.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC);
+}
+
+/**
+ * Split an envelope into its header and ciphertext
+ */
+export function parseEncryptedEnvelope(envelope: Buffer): {
+  header: EncryptedEnvelopeHeader;
+  ciphertext: Buffer;
+} {
+  if (!isEncryptedEnvelope(envelope) || envelope.length < ENVELOPE_MAGIC.length + 4) {
+    throw new EncryptionError('Data is not an encrypted evidence envelope', 'INVALID_ENVELOPE');
+  }
+
+  const headerStart = ENVELOPE_MAGIC.length + 4;
+  const headerEnd = headerStart + envelope.readUInt32BE(ENVELOPE_MAGIC.length);
+
+  let header: EncryptedEnvelopeHeader;
+  try {
+    header = JSON.parse(envelope.subarray(headerStart, headerEnd).toString('utf8'));
+  } catch (error) {
+    throw new EncryptionError('Envelope header is corrupted', 'INVALID_ENVELOPE', error);
+  }
+
+  if (header.version !== ENVELOPE_VERSION || header.algorithm !== 'AES-256-GCM') {
+    throw new EncryptionError(
+      `Unsupported envelope version ${header.version} (${header.algorithm})`,
+      'INVALID_ENVELOPE',
+    );
+  }
+
+  return { header, ciphertext: envelope.subarray(headerEnd) };
+}
+
+/**
+ * Decrypt an envelope with a viewer's private key
+ */
+export function decryptEvidence(envelope: Buffer, privateKey: string | SigningKey): Buffer {
+  const signingKey = typeof privateKey === 'string' ? new SigningKey(privateKey) : privateKey;
+  const address = computeAddress(signingKey.publicKey);
+  const { header, ciphertext } = parseEncryptedEnvelope(envelope);
+
+  const wrapped = header.recipients.find((recipient) => recipient.address === address);
+  if (!wrapped) {
+    throw new EncryptionError(`Evidence was not encrypted for ${address}`, 'NOT_A_RECIPIENT', {
+      address,
+    });
+  }
+
+  try {
+    const wrappingKey = deriveWrappingKey(
+      signingKey.computeSharedSecret(wrapped.ephemeralPublicKey),
+      wrapped.ephemeralPublicKey,
+    );
+    const dataKey = aesGcmDecrypt(
+      wrappingKey,
+      Buffer.from(getBytes(wrapped.iv)),
+      Buffer.from(getBytes(wrapped.tag)),
+      Buffer.from(getBytes(wrapped.wrappedKey)),
+    );
+
+    return aesGcmDecrypt(
+      dataKey,
+      Buffer.from(getBytes(header.iv)),
+      Buffer.from(getBytes(header.tag)),
+      ciphertext,
+    );
+  } catch (error) {
+    throw new EncryptionError('Failed to decrypt evidence', 'DECRYPTION_FAILED', error);
+  }
+}
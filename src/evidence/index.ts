@@ -0,0 +1,311 @@
+/**
+ * Client-side evidence hashing and manifest building for ProofVault
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { createHash } from 'crypto';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import type {
+  EvidenceDetails,
+  EvidenceDigest,
+  EvidenceManifest,
+  EvidenceRecord,
+  EvidenceSource,
+  IntegrityCheck,
+  IntegrityReport,
+  PreparedEvidence,
+} from '../types';
+import { ProofVaultSDKError } from '../types';
+
+export const EVIDENCE_MANIFEST_VERSION = 1;
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.eml': 'message/rfc822',
+  '.zip': 'application/zip',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.heic': 'image/heic',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+};
+
+/**
+ * Detect the MIME type of an evidence file from its extension
+ */
+export function detectMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Stream-hash evidence content with SHA-256 and keccak256
+ */
+export async function hashEvidenceStream(stream: Readable): Promise<EvidenceDigest> {
+  const sha256 = createHash('sha256');
+  const keccak = keccak_256.create();
+  let size = 0;
+
+  for await (const chunk of stream) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    sha256.update(buffer);
+    keccak.update(buffer);
+    size += buffer.length;
+  }
+
+  return {
+    sha256: '0x' + sha256.digest('hex'),
+    keccak256: '0x' + Buffer.from(keccak.digest()).toString('hex'),
+    size,
+  };
+}
+
+/**
+ * Stream-hash a local evidence file
+ */
+export function hashEvidenceFile(filePath: string): Promise<EvidenceDigest> {
+  return hashEvidenceStream(fs.createReadStream(filePath));
+}
+
+/**
+ * Serialize a value as canonical JSON (sorted keys, no whitespace)
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash a canonical manifest into the value stored as `metadataHash`
+ */
+export function hashManifest(manifestJson: string): string {
+  return keccak256(toUtf8Bytes(manifestJson));
+}
+
+/**
+ * Build the evidence manifest describing a hashed file
+ */
+export function buildEvidenceManifest(
+  details: EvidenceDetails,
+  digest: EvidenceDigest,
+  filename: string,
+  creationTimestamp: number,
+): EvidenceManifest {
+  return {
+    version: EVIDENCE_MANIFEST_VERSION,
+    title: details.title,
+    description: details.description,
+    evidenceType: details.evidenceType,
+    classification: details.classification,
+    isEncrypted: details.isEncrypted ?? false,
+    file: {
+      filename,
+      size: digest.size,
+      mimeType: details.mimeType ?? detectMimeType(filename),
+      sha256: digest.sha256,
+      keccak256: digest.keccak256,
+    },
+    metadata: {
+      creationTimestamp,
+      deviceInfo: details.deviceInfo ?? '',
+      geoLocation: details.geoLocation ?? '',
+      tags: details.tags ?? [],
+    },
+  };
+}
+
+/**
+ * Hash a local file or stream and build a complete evidence submission
+ *
+ * The keccak256 digest becomes `cryptographicHash` and the keccak256 of the
+ * canonical manifest becomes `metadataHash`.
+ */
+export async function prepareEvidence(
+  source: EvidenceSource,
+  details: EvidenceDetails,
+): Promise<PreparedEvidence> {
+  let filename = details.filename;
+  let creationTimestamp = details.creationTimestamp;
+  let digest: EvidenceDigest;
+
+  if (typeof source === 'string') {
+    const stats = await fs.promises.stat(source);
+    if (!stats.isFile()) {
+      throw new ProofVaultSDKError(
+        `Evidence source is not a file: ${source}`,
+        'INVALID_SUBMISSION',
+      );
+    }
+
+    filename ??= path.basename(source);
+    creationTimestamp ??= Math.floor((stats.birthtimeMs || stats.mtimeMs) / 1000);
+    digest = await hashEvidenceFile(source);
+  } else {
+    if (!filename) {
+      throw new ProofVaultSDKError(
+        'A filename is required when preparing evidence from a stream',
+        'INVALID_SUBMISSION',
+      );
+    }
+    digest = await hashEvidenceStream(source);
+  }
+
+  const manifest = buildEvidenceManifest(
+    details,
+    digest,
+    filename,
+    creationTimestamp ?? Math.floor(Date.now() / 1000),
+  );
+  const manifestJson = canonicalJson(manifest);
+
+  return {
+    submission: {
+      title: manifest.title,
+      description: manifest.description,
+      evidenceType: manifest.evidenceType,
+      classification: manifest.classification,
+      ipfsHash: details.ipfsHash ?? '',
+      metadataHash: hashManifest(manifestJson),
+      cryptographicHash: digest.keccak256,
+      isEncrypted: manifest.isEncrypted,
+    },
+    metadata: {
+      originalFilename: manifest.file.filename,
+      fileSize: manifest.file.size,
+      mimeType: manifest.file.mimeType,
+      creationTimestamp: manifest.metadata.creationTimestamp,
+      deviceInfo: manifest.metadata.deviceInfo,
+      geoLocation: manifest.metadata.geoLocation,
+      tags: manifest.metadata.tags,
+    },
+    manifest,
+    manifestJson,
+    digest,
+  };
+}
+
+/**
+ * Compare two hex strings case-insensitively
+ */
+function sameHex(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a local file and optional manifest against an on-chain evidence record
+ *
+ * The manifest is re-canonicalized before hashing, so a pretty-printed copy of
+ * the manifest verifies the same as the original canonical form.
+ */
+export async function checkEvidenceIntegrity(
+  record: Pick<EvidenceRecord, 'evidenceId' | 'cryptographicHash' | 'metadataHash'>,
+  filePath: string,
+  manifestJson?: string,
+): Promise<IntegrityReport> {
+  const digest = await hashEvidenceFile(filePath);
+  const checks: IntegrityCheck[] = [
+    {
+      name: 'File hash',
+      status: sameHex(digest.keccak256, record.cryptographicHash) ? 'pass' : 'fail',
+      expected: record.cryptographicHash,
+      actual: digest.keccak256,
+    },
+  ];
+
+  if (manifestJson === undefined) {
+    checks.push({ name: 'Manifest hash', status: 'skip', message: 'No manifest provided' });
+  } else {
+    let parsed: unknown;
+    let parseError: string | undefined;
+    try {
+      parsed = JSON.parse(manifestJson);
+    } catch (error) {
+      parseError = `Manifest is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (!isJsonObject(parsed)) {
+      checks.push({
+        name: 'Manifest hash',
+        status: 'fail',
+        message: parseError ?? 'Manifest is not a JSON object',
+      });
+    } else {
+      const manifest = parsed as Partial<EvidenceManifest>;
+      const manifestHash = hashManifest(canonicalJson(manifest));
+      checks.push({
+        name: 'Manifest hash',
+        status: sameHex(manifestHash, record.metadataHash) ? 'pass' : 'fail',
+        expected: record.metadataHash,
+        actual: manifestHash,
+      });
+
+      const file = isJsonObject(manifest.file) ? manifest.file : undefined;
+      if (!file) {
+        checks.push({
+          name: 'Manifest file digest',
+          status: 'fail',
+          message: 'Manifest has no file object',
+        });
+      } else {
+        const describesFile =
+          sameHex(String(file.keccak256), digest.keccak256) &&
+          sameHex(String(file.sha256), digest.sha256) &&
+          file.size === digest.size;
+        checks.push({
+          name: 'Manifest file digest',
+          status: describesFile ? 'pass' : 'fail',
+          expected: `${digest.sha256} (${digest.size} bytes)`,
+          actual: `${String(file.sha256)} (${String(file.size)} bytes)`,
+        });
+      }
+    }
+  }
+
+  return {
+    evidenceId: record.evidenceId,
+    filePath,
+    checkedAt: Date.now(),
+    checks,
+    passed: checks.every((check) => check.status !== 'fail'),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Deployment history for ProofVault networks
+ *
+ * Every deployment is saved as `deployment-<network>-<timestamp>.json` next to
+ * `latest-<network>.json`. These helpers list and compare those records and can
+ * point `latest-<network>.json` back at an earlier one.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getDeploymentJournalPath } from '../deployment';
+import type {
+  DeploymentContractDiff,
+  DeploymentDiff,
+  DeploymentHistoryEntry,
+  DeploymentResult,
+  Logger,
+  ValueChange,
+} from '../types';
+import { DeploymentError } from '../types';
+import {
+  DEPLOYMENT_RESULT_SCHEMA_VERSION,
+  loadDeploymentResult,
+  loadLatestDeployment,
+  parseDeploymentResult,
+  updateLatestDeployment,
+} from '../utils';
+
+const HISTORY_FILE_PATTERN = /^deployment-(.+)-(\d+)\.json$/;
+const LATEST_FILE_PATTERN = /^latest-(.+)\.json$/;
+
+/**
+ * List saved deployments, oldest first, for one network or all of them
+ */
+export function listDeploymentHistory(
+  outputDir: string,
+  network?: string,
+): DeploymentHistoryEntry[] {
+  if (!fs.existsSync(outputDir)) {
+    return [];
+  }
+
+  const latestTimestamps = new Map<string, number | undefined>();
+  const entries: DeploymentHistoryEntry[] = [];
+  for (const file of fs.readdirSync(outputDir)) {
+    const match = HISTORY_FILE_PATTERN.exec(file);
+    const fileNetwork = match?.[1];
+    const id = match?.[2];
+    if (!fileNetwork || !id || (network && fileNetwork !== network)) {
+      continue;
+    }
+
+    if (!latestTimestamps.has(fileNetwork)) {
+      latestTimestamps.set(fileNetwork, loadLatestDeployment(fileNetwork, outputDir)?.timestamp);
+    }
+    const record = loadDeploymentResult(path.join(outputDir, file));
+    const entry: DeploymentHistoryEntry = {
+      id,
+      file,
+      network: record.network,
+      deployer: record.deployer,
+      timestamp: record.timestamp,
+      success: record.success,
+      contracts: Object.keys(record.contracts),
+      totalGasUsed: record.totalGasUsed,
+      latest: latestTimestamps.get(fileNetwork) === record.timestamp,
+    };
+    if (record.totalFee) {
+      entry.totalFee = record.totalFee;
+    }
+    entries.push(entry);
+  }
+
+  return entries.sort(
+    (a, b) => a.network.localeCompare(b.network) || Number(BigInt(a.id) - BigInt(b.id)),
+  );
+}
+
+/**
+ * Load a saved deployment by history ID, file path, or `latest`
+ */
+export function loadDeploymentRecord(
+  network: string,
+  outputDir: string,
+  ref: string,
+): DeploymentResult {
+  if (ref === 'latest') {
+    const latest = loadLatestDeployment(network, outputDir);
+    if (!latest) {
+      throw new DeploymentError(
+        `No latest deployment recorded for ${network}`,
+        'DEPLOYMENT_NOT_FOUND',
+        { network, ref },
+      );
+    }
+    return latest;
+  }
+
+  const filePath = /^\d+$/.test(ref)
+    ? path.join(outputDir, `deployment-${network}-${ref}.json`)
+    : ref;
+  if (!fs.existsSync(filePath)) {
+    throw new DeploymentError(
+      `No ${network} deployment ${ref}; run \`deployments list\` for the available IDs`,
+      'DEPLOYMENT_NOT_FOUND',
+      { network, ref },
+    );
+  }
+  return loadDeploymentResult(filePath);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function gasChange(from: string, to: string): ValueChange<string> & { delta: string } {
+  return { from, to, delta: (BigInt(to) - BigInt(from)).toString() };
+}
+
+/**
+ * Compare the contracts of two deployments
+ *
+ * Addresses, implementation addresses, bytecode hashes and constructor args are
+ * only reported when they changed; gas is always reported with its delta.
+ */
+export function diffDeployments(from: DeploymentResult, to: DeploymentResult): DeploymentDiff {
+  const names = [...new Set([...Object.keys(from.contracts), ...Object.keys(to.contracts)])];
+
+  const contracts = names.map((name): DeploymentContractDiff => {
+    const before = from.contracts[name];
+    const after = to.contracts[name];
+    const diff: DeploymentContractDiff = {
+      name,
+      status: !before ? 'added' : !after ? 'removed' : 'unchanged',
+      gasUsed: gasChange(before?.gasUsed ?? '0', after?.gasUsed ?? '0'),
+    };
+
+    // Records saved before bytecode hashes were tracked have none to compare
+    const fields =
+      before && after && (!before.bytecodeHash || !after.bytecodeHash)
+        ? (['address', 'implementationAddress'] as const)
+        : (['address', 'implementationAddress', 'bytecodeHash'] as const);
+    for (const field of fields) {
+      if (!sameValue(before?.[field], after?.[field])) {
+        diff[field] = { from: before?.[field], to: after?.[field] };
+      }
+    }
+    if (!sameValue(before?.constructorArgs, after?.constructorArgs)) {
+      diff.constructorArgs = { from: before?.constructorArgs, to: after?.constructorArgs };
+    }
+
+    if (
+      diff.status === 'unchanged' &&
+      (diff.address ?? diff.implementationAddress ?? diff.bytecodeHash ?? diff.constructorArgs)
+    ) {
+      diff.status = 'changed';
+    }
+    return diff;
+  });
+
+  return {
+    from: { network: from.network, timestamp: from.timestamp },
+    to: { network: to.network, timestamp: to.timestamp },
+    contracts,
+    totalGasUsed: gasChange(from.totalGasUsed, to.totalGasUsed),
+  };
+}
+
+/**
+ * Point `latest-<network>.json` back at a saved deployment
+ *
+ * Only the local record changes; contracts on chain are untouched.
+ */
+export function rollbackLatestDeployment(
+  network: string,
+  outputDir: string,
+  ref: string,
+  logger?: Logger,
+): DeploymentResult {
+  if (fs.existsSync(getDeploymentJournalPath(network, outputDir))) {
+    throw new DeploymentError(
+      `A ${network} deployment is in progress; finish it or rerun it with --fresh before rolling back`,
+      'DEPLOYMENT_IN_PROGRESS',
+      { network },
+    );
+  }
+
+  const target = loadDeploymentRecord(network, outputDir, ref);
+  if (target.network !== network) {
+    throw new DeploymentError(
+      `Deployment ${ref} is for ${target.network}, not ${network}`,
+      'INVALID_ROLLBACK',
+      { network, ref },
+    );
+  }
+  if (!target.success) {
+    throw new DeploymentError(
+      `Deployment ${ref} failed and cannot become the latest deployment`,
+      'INVALID_ROLLBACK',
+      { network, ref },
+    );
+  }
+
+  updateLatestDeployment(target, outputDir, logger);
+  return target;
+}
+
+/**
+ * Save verified contracts to `latest-<network>.json` and to the history file of the same deployment
+ *
+ * History contracts are only marked verified when their address and implementation
+ * still match, so a record saved before an upgrade keeps its own status.
+ */
+export function recordVerifiedContracts(
+  deployment: DeploymentResult,
+  outputDir: string,
+  logger?: Logger,
+): void {
+  updateLatestDeployment(deployment, outputDir, logger);
+
+  for (const entry of listDeploymentHistory(outputDir, deployment.network)) {
+    if (entry.timestamp !== deployment.timestamp) {
+      continue;
+    }
+
+    const filePath = path.join(outputDir, entry.file);
+    const record = loadDeploymentResult(filePath);
+    let updated = false;
+    for (const [name, contract] of Object.entries(record.contracts)) {
+      const verified = deployment.contracts[name];
+      if (
+        verified?.verified &&
+        !contract.verified &&
+        verified.address === contract.address &&
+        verified.implementationAddress === contract.implementationAddress
+      ) {
+        contract.verified = true;
+        updated = true;
+      }
+    }
+    if (updated) {
+      fs.writeFileSync(filePath, JSON.stringify(record, null, 2));
+      logger?.info(`Deployment history updated at ${filePath}`);
+    }
+  }
+}
+
+/**
+ * Rewrite saved deployments in an older schema version in the current one
+ *
+ * Returns the paths of the files that were rewritten.
+ */
+export function migrateDeploymentHistory(
+  outputDir: string,
+  network?: string,
+  logger?: Logger,
+): string[] {
+  if (!fs.existsSync(outputDir)) {
+    return [];
+  }
+
+  const migrated: string[] = [];
+  for (const file of fs.readdirSync(outputDir).sort()) {
+    const fileNetwork = (HISTORY_FILE_PATTERN.exec(file) ?? LATEST_FILE_PATTERN.exec(file))?.[1];
+    if (!fileNetwork || (network && fileNetwork !== network)) {
+      continue;
+    }
+
+    const filePath = path.join(outputDir, file);
+    const content = fs.readFileSync(filePath, 'utf8');
+    const record = parseDeploymentResult(content, filePath);
+    const { schemaVersion } = JSON.parse(content) as DeploymentResult;
+    if (schemaVersion === DEPLOYMENT_RESULT_SCHEMA_VERSION) {
+      continue;
+    }
+    fs.writeFileSync(filePath, JSON.stringify(record, null, 2));
+    logger?.info(
+      `Migrated ${filePath} from schema version ${schemaVersion ?? 1} to ${DEPLOYMENT_RESULT_SCHEMA_VERSION}`,
+    );
+    migrated.push(filePath);
+  }
+  return migrated;
+}
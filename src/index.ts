@@ -7,10 +7,67 @@
  */
 
 export * from './config';
+export * from './deployment';
+export * from './encryption';
+export * from './evidence';
+export * from './history';
+export * from './indexer';
+export * from './mirror';
+export * from './preflight';
+export * from './reports';
+export * from './smoke';
+export * from './storage';
 export * from './types';
+export * from './upgrades';
 export * from './utils';
+export * from './verification';
 
-import type { NetworkConfig } from './types';
+import type { ContractTransactionReceipt, Signer, SigningKey } from 'ethers';
+import {
+  BaseWallet,
+  JsonRpcProvider,
+  Wallet,
+  computeAddress,
+  getAddress,
+  isHexString,
+  keccak256,
+} from 'ethers';
+import fs from 'fs';
+import { Readable } from 'stream';
+import type { IdentityAttestation, ProofVault } from '../typechain-types';
+import { IdentityAttestation__factory, ProofVault__factory } from '../typechain-types';
+import { getDeploymentOutputDir, getLogLevel, getNetworkConfig, getStorageConfig } from './config';
+import {
+  CONFIDENTIAL_CLASSIFICATION,
+  decryptEvidence,
+  encryptEvidence,
+  recipientFromPublicKey,
+} from './encryption';
+import { prepareEvidence } from './evidence';
+import { CUSTODY_REPORT_VERSION } from './reports';
+import { createStorageBackend, readStream } from './storage';
+import type {
+  ContractName,
+  CustodyEntry,
+  CustodyReport,
+  EncryptionRecipient,
+  EvidenceDetails,
+  EvidenceFileSubmissionResult,
+  EvidenceMetadata,
+  EvidenceRecord,
+  EvidenceSource,
+  EvidenceSubmission,
+  EvidenceSubmissionResult,
+  Logger,
+  NetworkConfig,
+  NetworkName,
+  PreparedEvidence,
+  SDKContractAddresses,
+  SDKOptions,
+  StorageBackend,
+} from './types';
+import { ProofVaultSDKError } from './types';
+import { ConsoleLogger, isValidAddress, loadLatestDeployment } from './utils';
 
 // Re-export important contract types when they're generated
 export type { IdentityAttestation, LegalCaseManager, ProofVault } from '../typechain-types';
@@ -20,17 +77,491 @@ export type { IdentityAttestation, LegalCaseManager, ProofVault } from '../typec
  */
 export class ProofVaultSDK {
   private readonly networkConfig: NetworkConfig;
+  private readonly options: SDKOptions;
+  private readonly logger: Logger;
+  private signer: Signer | undefined;
+  private proofVault: ProofVault | undefined;
+  private identityAttestation: IdentityAttestation | undefined;
+  private storage: StorageBackend | undefined;
 
-  constructor(networkConfig: NetworkConfig) {
-    this.networkConfig = networkConfig;
+  /**
+   * Connect to a network given by its configuration, or by name from the loaded config
+   */
+  constructor(network: NetworkConfig | NetworkName, options: SDKOptions = {}) {
+    this.networkConfig = typeof network === 'string' ? getNetworkConfig(network) : network;
+    this.options = options;
+    this.logger = options.logger ?? new ConsoleLogger(getLogLevel());
   }
 
   /**
    * Initialize the ProofVault SDK
+   *
+   * Connects the signer (the configured one, or an operator wallet on the network RPC URL)
+   * to the ProofVault contract resolved from the options or the latest deployment.
+   * Nothing is sent to the network until the first call.
    */
   public initialize(): void {
-    // Implementation will be added as we build the system
-    console.log('ProofVault SDK initialized for network:', this.networkConfig.network);
+    this.signer =
+      this.options.signer ??
+      new Wallet(
+        this.networkConfig.operatorKey,
+        new JsonRpcProvider(this.networkConfig.rpcUrl, this.networkConfig.chainId),
+      );
+
+    const proofVaultAddress = this.resolveContractAddress('proofVault', 'ProofVault');
+    this.proofVault = ProofVault__factory.connect(proofVaultAddress, this.signer);
+
+    this.logger.info(
+      `ProofVault SDK initialized for network ${this.networkConfig.network} (ProofVault: ${proofVaultAddress})`,
+    );
+  }
+
+  /**
+   * Submit evidence to ProofVault and wait for it to be recorded
+   */
+  public async submitEvidence(submission: EvidenceSubmission): Promise<EvidenceSubmissionResult> {
+    const proofVault = this.getProofVault();
+
+    if (!isHexString(submission.cryptographicHash, 32)) {
+      throw new ProofVaultSDKError(
+        `Cryptographic hash must be a 32-byte hex string: ${submission.cryptographicHash}`,
+        'INVALID_SUBMISSION',
+      );
+    }
+
+    const existingId = await this.findEvidenceByHash(submission.cryptographicHash);
+    if (existingId !== null) {
+      throw new ProofVaultSDKError(
+        `Evidence with hash ${submission.cryptographicHash} already exists as evidence ${existingId.toString()}`,
+        'DUPLICATE_EVIDENCE',
+        { evidenceId: existingId },
+      );
+    }
+
+    this.logger.info(`Submitting evidence "${submission.title}"...`);
+
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      const tx = await proofVault.submitEvidence(
+        submission.title,
+        submission.description,
+        submission.evidenceType,
+        submission.classification,
+        submission.ipfsHash,
+        submission.metadataHash,
+        submission.cryptographicHash,
+        submission.isEncrypted,
+      );
+      receipt = await tx.wait();
+    } catch (error) {
+      throw new ProofVaultSDKError(
+        `Evidence submission failed: ${error instanceof Error ? error.message : String(error)}`,
+        'TRANSACTION_FAILED',
+        error,
+      );
+    }
+
+    if (!receipt || receipt.status !== 1) {
+      throw new ProofVaultSDKError(
+        'Evidence submission transaction was not successful',
+        'TRANSACTION_FAILED',
+        receipt,
+      );
+    }
+
+    for (const log of receipt.logs) {
+      const parsed = proofVault.interface.parseLog(log);
+      if (parsed?.name === 'EvidenceSubmitted') {
+        const evidenceId = parsed.args['evidenceId'] as bigint;
+        this.logger.info(`Evidence ${evidenceId.toString()} submitted in ${receipt.hash}`);
+
+        return {
+          evidenceId,
+          transactionId: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+        };
+      }
+    }
+
+    throw new ProofVaultSDKError(
+      `No EvidenceSubmitted event found in transaction ${receipt.hash}`,
+      'EVENT_NOT_FOUND',
+      receipt,
+    );
+  }
+
+  /**
+   * Upload evidence content to storage and submit it with `ipfsHash` filled in
+   *
+   * Content is encrypted for the signer and `details.recipients` when `isEncrypted`
+   * is set, or by default for CONFIDENTIAL and higher classifications; recipients
+   * other than the signer are then authorized as viewers. Stream sources and
+   * encrypted content are buffered in memory.
+   */
+  public async submitEvidenceFile(
+    source: EvidenceSource,
+    details: EvidenceDetails,
+  ): Promise<EvidenceFileSubmissionResult> {
+    const encrypt = details.isEncrypted ?? details.classification >= CONFIDENTIAL_CLASSIFICATION;
+    const recipients = encrypt ? this.resolveRecipients(details.recipients) : [];
+
+    const buffered = typeof source === 'string' ? undefined : await readStream(source);
+    const prepared = await this.prepareEvidence(buffered ? Readable.from([buffered]) : source, {
+      ...details,
+      isEncrypted: encrypt,
+    });
+
+    let content: Buffer | Readable;
+    if (encrypt) {
+      const plaintext = buffered ?? (await fs.promises.readFile(source as string));
+      content = encryptEvidence(plaintext, recipients);
+      this.logger.info(`Evidence encrypted for ${recipients.length} recipient(s)`);
+    } else {
+      content = buffered ?? fs.createReadStream(source as string);
+    }
+
+    const storage = this.getStorage();
+    const ipfsHash = await storage.put(content);
+    await storage.pin(ipfsHash);
+    this.logger.info(`Evidence content stored as ${ipfsHash}`);
+
+    const submission = { ...prepared.submission, ipfsHash };
+    const result = await this.submitEvidence(submission);
+
+    const signerAddress = getAddress(await this.getSigner().getAddress());
+    for (const recipient of recipients) {
+      if (recipient.address !== signerAddress) {
+        await this.authorizeViewer(result.evidenceId, recipient.address);
+      }
+    }
+
+    return { ...result, ipfsHash, prepared: { ...prepared, submission } };
+  }
+
+  /**
+   * Fetch evidence content from storage, decrypting it for an authorized viewer
+   *
+   * The viewer is the owner of `privateKey`, or the signer when it is a wallet.
+   * Content is checked against the record's `cryptographicHash` before returning.
+   */
+  public async retrieveEvidence(
+    evidenceId: bigint | number,
+    privateKey?: string | SigningKey,
+  ): Promise<Buffer> {
+    const signer = this.getSigner();
+    const viewerKey = privateKey ?? (signer instanceof BaseWallet ? signer.signingKey : undefined);
+    const viewer = viewerKey
+      ? computeAddress(typeof viewerKey === 'string' ? viewerKey : viewerKey.publicKey)
+      : await signer.getAddress();
+
+    if (!(await this.getProofVault().hasAccessToEvidence(viewer, evidenceId))) {
+      throw new ProofVaultSDKError(
+        `${viewer} has no access to evidence ${evidenceId.toString()}`,
+        'ACCESS_DENIED',
+      );
+    }
+
+    const record = await this.getEvidenceRecord(evidenceId);
+    let content = await this.getStorage().get(record.ipfsHash);
+
+    if (record.isEncrypted) {
+      if (!viewerKey) {
+        throw new ProofVaultSDKError(
+          'A private key is required to decrypt encrypted evidence',
+          'ACCESS_DENIED',
+        );
+      }
+      content = decryptEvidence(content, viewerKey);
+    }
+
+    if (keccak256(content) !== record.cryptographicHash) {
+      throw new ProofVaultSDKError(
+        `Content for evidence ${evidenceId.toString()} does not match its cryptographic hash`,
+        'INTEGRITY_MISMATCH',
+        { expected: record.cryptographicHash, actual: keccak256(content) },
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * Grant a viewer read access to evidence
+   */
+  public async authorizeViewer(evidenceId: bigint | number, viewer: string): Promise<void> {
+    try {
+      const tx = await this.getProofVault().authorizeViewer(evidenceId, viewer);
+      await tx.wait();
+    } catch (error) {
+      throw new ProofVaultSDKError(
+        `Failed to authorize ${viewer}: ${error instanceof Error ? error.message : String(error)}`,
+        'TRANSACTION_FAILED',
+        error,
+      );
+    }
+  }
+
+  /**
+   * Hash a local file or stream and build its submission, metadata and manifest
+   *
+   * Fails with `DUPLICATE_EVIDENCE` when the content hash is already registered.
+   */
+  public async prepareEvidence(
+    source: EvidenceSource,
+    details: EvidenceDetails,
+  ): Promise<PreparedEvidence> {
+    const prepared = await prepareEvidence(source, details);
+
+    const existingId = await this.findEvidenceByHash(prepared.submission.cryptographicHash);
+    if (existingId !== null) {
+      throw new ProofVaultSDKError(
+        `Evidence with hash ${prepared.submission.cryptographicHash} already exists as evidence ${existingId.toString()}`,
+        'DUPLICATE_EVIDENCE',
+        { evidenceId: existingId },
+      );
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Look up the evidence ID registered for a cryptographic hash
+   */
+  public async findEvidenceByHash(cryptographicHash: string): Promise<bigint | null> {
+    const evidenceId = await this.getProofVault().hashToEvidenceId(cryptographicHash);
+    return evidenceId === 0n ? null : evidenceId;
+  }
+
+  /**
+   * Read an evidence record (the signer must have access to it)
+   */
+  public async getEvidenceRecord(evidenceId: bigint | number): Promise<EvidenceRecord> {
+    const record = await this.getProofVault().getEvidenceRecord(evidenceId);
+
+    return {
+      evidenceId: record[0],
+      title: record[1],
+      description: record[2],
+      submitter: record[3],
+      submissionTimestamp: Number(record[4]),
+      evidenceType: Number(record[5]),
+      status: Number(record[6]),
+      classification: Number(record[7]),
+      ipfsHash: record[8],
+      metadataHash: record[9],
+      cryptographicHash: record[10],
+      isEncrypted: record[11],
+      isSealed: record[12],
+      sealedUntil: Number(record[13]),
+      lastModified: Number(record[14]),
+    };
+  }
+
+  /**
+   * Get the file metadata stored with an evidence record
+   */
+  public async getEvidenceMetadata(evidenceId: bigint | number): Promise<EvidenceMetadata> {
+    const metadata = await this.getProofVault().getEvidenceMetadata(evidenceId);
+
+    return {
+      originalFilename: metadata[0],
+      fileSize: Number(metadata[1]),
+      mimeType: metadata[2],
+      creationTimestamp: Number(metadata[3]),
+      deviceInfo: metadata[4],
+      geoLocation: metadata[5],
+      tags: [...metadata[6]],
+    };
+  }
+
+  /**
+   * Build a chain-of-custody report with handler identity levels resolved
+   * through IdentityAttestation
+   */
+  public async getCustodyReport(evidenceId: bigint | number): Promise<CustodyReport> {
+    const [evidence, metadata, custody] = await Promise.all([
+      this.getEvidenceRecord(evidenceId),
+      this.getEvidenceMetadata(evidenceId),
+      this.getProofVault().getChainOfCustody(evidenceId),
+    ]);
+
+    const identity = this.getIdentityAttestation();
+    const levels = new Map<string, number>();
+    for (const entry of custody) {
+      if (!levels.has(entry.handler)) {
+        levels.set(entry.handler, Number(await identity.getVerificationLevel(entry.handler)));
+      }
+    }
+
+    return {
+      version: CUSTODY_REPORT_VERSION,
+      evidence,
+      metadata,
+      custody: custody.map(
+        (entry): CustodyEntry => ({
+          handler: entry.handler,
+          handlerVerificationLevel: levels.get(entry.handler) ?? 0,
+          timestamp: Number(entry.timestamp),
+          action: entry.action,
+          location: entry.location,
+          notes: entry.notes,
+          handlerSignature: entry.handlerSignature,
+        }),
+      ),
+    };
+  }
+
+  /**
+   * Record an integrity check on the evidence's chain of custody
+   *
+   * Returns whether the contract accepted the provided hash as matching.
+   */
+  public async verifyEvidenceIntegrity(
+    evidenceId: bigint | number,
+    providedHash: string,
+  ): Promise<boolean> {
+    const proofVault = this.getProofVault();
+
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      const tx = await proofVault.verifyEvidenceIntegrity(evidenceId, providedHash);
+      receipt = await tx.wait();
+    } catch (error) {
+      throw new ProofVaultSDKError(
+        `Integrity verification failed: ${error instanceof Error ? error.message : String(error)}`,
+        'TRANSACTION_FAILED',
+        error,
+      );
+    }
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = proofVault.interface.parseLog(log);
+      if (parsed?.name === 'EvidenceIntegrityVerified') {
+        return parsed.args['isValid'] as boolean;
+      }
+    }
+
+    throw new ProofVaultSDKError(
+      `No EvidenceIntegrityVerified event found for evidence ${evidenceId.toString()}`,
+      'EVENT_NOT_FOUND',
+      receipt,
+    );
+  }
+
+  /**
+   * Get the connected ProofVault contract
+   */
+  private getProofVault(): ProofVault {
+    if (!this.proofVault) {
+      throw new ProofVaultSDKError(
+        'ProofVault SDK is not initialized; call initialize() first',
+        'NOT_INITIALIZED',
+      );
+    }
+    return this.proofVault;
+  }
+
+  /**
+   * Get the IdentityAttestation contract, resolving its address on first use
+   */
+  private getIdentityAttestation(): IdentityAttestation {
+    this.identityAttestation ??= IdentityAttestation__factory.connect(
+      this.resolveContractAddress('identityAttestation', 'IdentityAttestation'),
+      this.getSigner(),
+    );
+    return this.identityAttestation;
+  }
+
+  /**
+   * Get the connected signer
+   */
+  private getSigner(): Signer {
+    if (!this.signer) {
+      throw new ProofVaultSDKError(
+        'ProofVault SDK is not initialized; call initialize() first',
+        'NOT_INITIALIZED',
+      );
+    }
+    return this.signer;
+  }
+
+  /**
+   * Collect encryption recipients, adding the signer when its key is available
+   */
+  private resolveRecipients(recipients: EncryptionRecipient[] = []): EncryptionRecipient[] {
+    const signer = this.getSigner();
+    const resolved =
+      signer instanceof BaseWallet
+        ? [recipientFromPublicKey(signer.signingKey.publicKey), ...recipients]
+        : recipients;
+
+    if (resolved.length === 0) {
+      throw new ProofVaultSDKError(
+        'Encrypted evidence requires at least one recipient public key',
+        'INVALID_SUBMISSION',
+      );
+    }
+
+    // Checksum addresses so the same account written in different cases is one recipient
+    const unique = new Map<string, EncryptionRecipient>();
+    for (const recipient of resolved) {
+      if (!isValidAddress(recipient.address)) {
+        throw new ProofVaultSDKError(
+          `Invalid recipient address: ${recipient.address}`,
+          'INVALID_SUBMISSION',
+        );
+      }
+      const address = getAddress(recipient.address);
+      if (!unique.has(address)) {
+        unique.set(address, { ...recipient, address });
+      }
+    }
+    return [...unique.values()];
+  }
+
+  /**
+   * Get the content storage backend, creating the configured one on first use
+   */
+  private getStorage(): StorageBackend {
+    this.storage ??= this.options.storage ?? createStorageBackend(getStorageConfig());
+    return this.storage;
+  }
+
+  /**
+   * Resolve a contract address from the options or the latest deployment
+   */
+  private resolveContractAddress(
+    key: keyof SDKContractAddresses,
+    contractName: ContractName,
+  ): string {
+    let address = this.options.addresses?.[key];
+
+    if (!address) {
+      const deployment = loadLatestDeployment(
+        this.networkConfig.network,
+        this.options.deploymentDir ??
+          this.networkConfig.outputDir ??
+          getDeploymentOutputDir(this.networkConfig.network),
+      );
+      address = deployment?.contracts[contractName]?.address;
+    }
+
+    if (!address) {
+      throw new ProofVaultSDKError(
+        `No ${contractName} address configured or deployed for network ${this.networkConfig.network}`,
+        'CONTRACT_NOT_DEPLOYED',
+      );
+    }
+
+    if (!isValidAddress(address)) {
+      throw new ProofVaultSDKError(
+        `Invalid ${contractName} address: ${address}`,
+        'CONTRACT_NOT_DEPLOYED',
+      );
+    }
+
+    return address;
   }
 }
 
@@ -0,0 +1,729 @@
+/**
+ * Event indexer for ProofVault contracts backed by a local SQLite database
+ *
+ * Every event emitted by IdentityAttestation, ProofVault and LegalCaseManager
+ * is stored in a generic `events` table and projected into normalized tables
+ * for search and pagination. Projections are rebuilt from `events` when a
+ * chain reorganization is rolled back.
+ */
+
+import type { Interface, Log, LogDescription, Provider } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import type { BindParams, Database, SqlValue } from 'sql.js';
+import initSqlJs from 'sql.js';
+import {
+  IdentityAttestation__factory,
+  LegalCaseManager__factory,
+  ProofVault__factory,
+} from '../../typechain-types';
+import type {
+  CaseQuery,
+  ContractName,
+  EventQuery,
+  EvidenceQuery,
+  IndexedCase,
+  IndexedEvent,
+  IndexedEvidence,
+  IndexedIdentity,
+  IndexerOptions,
+  IndexerSyncResult,
+  Logger,
+  Page,
+  SDKContractAddresses,
+} from '../types';
+import { IndexerError } from '../types';
+import { ConsoleLogger } from '../utils';
+
+export const INDEXER_SCHEMA_VERSION = 1;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export const CONTRACT_KEYS: Record<keyof SDKContractAddresses, ContractName> = {
+  identityAttestation: 'IdentityAttestation',
+  proofVault: 'ProofVault',
+  legalCaseManager: 'LegalCaseManager',
+};
+
+export const CONTRACT_INTERFACES: Record<ContractName, Interface> = {
+  IdentityAttestation: IdentityAttestation__factory.createInterface(),
+  ProofVault: ProofVault__factory.createInterface(),
+  LegalCaseManager: LegalCaseManager__factory.createInterface(),
+};
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS indexer_state (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  contract TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  args TEXT NOT NULL,
+  UNIQUE (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_name ON events (contract, event_name, block_number);
+CREATE TABLE IF NOT EXISTS evidence (
+  evidence_id INTEGER PRIMARY KEY,
+  submitter TEXT NOT NULL,
+  evidence_type INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  is_sealed INTEGER NOT NULL,
+  sealed_until INTEGER NOT NULL,
+  submitted_at INTEGER NOT NULL,
+  block_number INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS evidence_by_submitter ON evidence (submitter);
+CREATE TABLE IF NOT EXISTS evidence_access (
+  evidence_id INTEGER NOT NULL,
+  user TEXT NOT NULL,
+  granted_by TEXT NOT NULL,
+  access_level TEXT NOT NULL,
+  granted_at INTEGER NOT NULL,
+  revoked INTEGER NOT NULL,
+  PRIMARY KEY (evidence_id, user)
+);
+CREATE TABLE IF NOT EXISTS cases (
+  case_id INTEGER PRIMARY KEY,
+  case_number TEXT NOT NULL,
+  case_type INTEGER NOT NULL,
+  filed_by TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  filed_at INTEGER NOT NULL,
+  block_number INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS case_parties (
+  case_id INTEGER NOT NULL,
+  party TEXT NOT NULL,
+  role INTEGER NOT NULL,
+  PRIMARY KEY (case_id, party)
+);
+CREATE TABLE IF NOT EXISTS case_evidence (
+  case_id INTEGER NOT NULL,
+  evidence_id INTEGER NOT NULL,
+  PRIMARY KEY (case_id, evidence_id)
+);
+CREATE TABLE IF NOT EXISTS court_orders (
+  order_id INTEGER PRIMARY KEY,
+  case_id INTEGER NOT NULL,
+  issued_by TEXT NOT NULL,
+  order_type TEXT NOT NULL,
+  issued_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS identities (
+  user TEXT PRIMARY KEY,
+  identity_id INTEGER NOT NULL,
+  level INTEGER NOT NULL,
+  verifier TEXT NOT NULL,
+  verified_at INTEGER NOT NULL,
+  revoked INTEGER NOT NULL
+);
+`;
+
+const PROJECTION_TABLES = [
+  'evidence',
+  'evidence_access',
+  'cases',
+  'case_parties',
+  'case_evidence',
+  'court_orders',
+  'identities',
+];
+
+type EventArgs = IndexedEvent['args'];
+type Projection = (db: Database, args: EventArgs, event: IndexedEvent) => void;
+
+/**
+ * Normalized-table updates for each indexed event; other events are only kept in `events`
+ */
+const PROJECTIONS: Record<string, Projection> = {
+  EvidenceSubmitted: (db, args, event) =>
+    db.run('INSERT OR REPLACE INTO evidence VALUES (?, ?, ?, ?, 0, 0, 0, ?, ?)', [
+      Number(args['evidenceId']),
+      String(args['submitter']),
+      Number(args['evidenceType']),
+      String(args['title']),
+      Number(args['timestamp']),
+      event.blockNumber,
+    ]),
+  EvidenceStatusUpdated: (db, args) =>
+    db.run('UPDATE evidence SET status = ? WHERE evidence_id = ?', [
+      Number(args['newStatus']),
+      Number(args['evidenceId']),
+    ]),
+  EvidenceSealed: (db, args) =>
+    db.run('UPDATE evidence SET is_sealed = 1, sealed_until = ? WHERE evidence_id = ?', [
+      Number(args['sealedUntil']),
+      Number(args['evidenceId']),
+    ]),
+  AccessGranted: (db, args) =>
+    db.run('INSERT OR REPLACE INTO evidence_access VALUES (?, ?, ?, ?, ?, 0)', [
+      Number(args['evidenceId']),
+      String(args['user']),
+      String(args['grantedBy']),
+      String(args['accessLevel']),
+      Number(args['timestamp']),
+    ]),
+  AccessRevoked: (db, args) =>
+    db.run('UPDATE evidence_access SET revoked = 1 WHERE evidence_id = ? AND user = ?', [
+      Number(args['evidenceId']),
+      String(args['user']),
+    ]),
+  CaseFiled: (db, args, event) =>
+    db.run('INSERT OR REPLACE INTO cases VALUES (?, ?, ?, ?, 0, ?, ?)', [
+      Number(args['caseId']),
+      String(args['caseNumber']),
+      Number(args['caseType']),
+      String(args['filedBy']),
+      Number(args['timestamp']),
+      event.blockNumber,
+    ]),
+  CaseStatusUpdated: (db, args) =>
+    db.run('UPDATE cases SET status = ? WHERE case_id = ?', [
+      Number(args['newStatus']),
+      Number(args['caseId']),
+    ]),
+  PartyAddedToCase: (db, args) =>
+    db.run('INSERT OR REPLACE INTO case_parties VALUES (?, ?, ?)', [
+      Number(args['caseId']),
+      String(args['party']),
+      Number(args['role']),
+    ]),
+  EvidenceLinkedToCase: (db, args) =>
+    db.run('INSERT OR IGNORE INTO case_evidence VALUES (?, ?)', [
+      Number(args['caseId']),
+      Number(args['evidenceId']),
+    ]),
+  CourtOrderIssued: (db, args) =>
+    db.run('INSERT OR REPLACE INTO court_orders VALUES (?, ?, ?, ?, ?)', [
+      Number(args['orderId']),
+      Number(args['caseId']),
+      String(args['issuedBy']),
+      String(args['orderType']),
+      Number(args['timestamp']),
+    ]),
+  IdentityVerified: (db, args) =>
+    db.run('INSERT OR REPLACE INTO identities VALUES (?, ?, ?, ?, ?, 0)', [
+      String(args['user']),
+      Number(args['identityId']),
+      Number(args['level']),
+      String(args['verifier']),
+      Number(args['timestamp']),
+    ]),
+  IdentityRevoked: (db, args) =>
+    db.run('UPDATE identities SET revoked = 1 WHERE user = ?', [String(args['user'])]),
+};
+
+/**
+ * Convert decoded event arguments into JSON-safe values keyed by parameter name
+ */
+export function normalizeEventArgs(parsed: LogDescription): EventArgs {
+  const args: EventArgs = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value: unknown = parsed.args[i];
+    args[input.name] =
+      typeof value === 'bigint'
+        ? value <= BigInt(Number.MAX_SAFE_INTEGER)
+          ? Number(value)
+          : value.toString()
+        : typeof value === 'boolean' || typeof value === 'number'
+          ? value
+          : String(value);
+  });
+  return args;
+}
+
+/**
+ * Clamp pagination parameters to sane bounds
+ */
+function pageBounds(query: { limit?: number; offset?: number }): { limit: number; offset: number } {
+  return {
+    limit: Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+    offset: Math.max(query.offset ?? 0, 0),
+  };
+}
+
+/**
+ * Indexes ProofVault contract events into a local SQLite database
+ *
+ * Call `initialize()` before use and `close()` when done. The database is
+ * written to `databasePath` after every committed batch.
+ */
+export class EventIndexer {
+  private readonly provider: Provider;
+  private readonly options: IndexerOptions;
+  private readonly logger: Logger;
+  private readonly contractsByAddress = new Map<string, ContractName>();
+  private db: Database | undefined;
+
+  constructor(provider: Provider, options: IndexerOptions) {
+    this.provider = provider;
+    this.options = options;
+    this.logger = options.logger ?? new ConsoleLogger();
+
+    for (const [key, contractName] of Object.entries(CONTRACT_KEYS)) {
+      const address = options.addresses[key as keyof SDKContractAddresses];
+      if (address) {
+        this.contractsByAddress.set(address.toLowerCase(), contractName);
+      }
+    }
+    if (this.contractsByAddress.size === 0) {
+      throw new IndexerError('At least one contract address is required', 'INVALID_CONFIG');
+    }
+  }
+
+  /**
+   * Open (or create) the database and apply the schema
+   */
+  public async initialize(): Promise<void> {
+    const SQL = await initSqlJs();
+    const existing = fs.existsSync(this.options.databasePath)
+      ? fs.readFileSync(this.options.databasePath)
+      : undefined;
+
+    this.db = new SQL.Database(existing);
+    this.db.exec(SCHEMA);
+
+    const version = this.getState('schemaVersion');
+    if (version !== null && Number(version) !== INDEXER_SCHEMA_VERSION) {
+      throw new IndexerError(
+        `Unsupported indexer schema version ${version}; delete ${this.options.databasePath} to reindex`,
+        'SCHEMA_MISMATCH',
+      );
+    }
+    this.setState('schemaVersion', String(INDEXER_SCHEMA_VERSION));
+  }
+
+  /**
+   * Index all events up to `toBlock` (default: latest block minus confirmations)
+   */
+  public async sync(toBlock?: number): Promise<IndexerSyncResult> {
+    const db = this.getDatabase();
+    const reorgedTo = await this.rollBackReorg();
+
+    const head =
+      toBlock ?? (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    const checkpoint = this.getCheckpoint();
+    const fromBlock = checkpoint === null ? (this.options.startBlock ?? 0) : checkpoint + 1;
+    const batchSize = this.options.batchSize ?? 2000;
+    let eventsIndexed = 0;
+
+    for (let from = fromBlock; from <= head; from += batchSize) {
+      const to = Math.min(from + batchSize - 1, head);
+      const logs = await this.provider.getLogs({
+        address: [...this.contractsByAddress.keys()],
+        fromBlock: from,
+        toBlock: to,
+      });
+      const checkpointBlock = await this.provider.getBlock(to);
+      if (!checkpointBlock?.hash) {
+        throw new IndexerError(`Block ${to} not found`, 'BLOCK_NOT_FOUND');
+      }
+
+      const events = logs
+        .map((log) => this.decodeLog(log))
+        .filter((event): event is IndexedEvent => event !== null);
+
+      db.run('BEGIN');
+      try {
+        for (const event of events) {
+          this.storeEvent(event);
+        }
+        db.run('INSERT OR REPLACE INTO blocks VALUES (?, ?)', [to, checkpointBlock.hash]);
+        this.setState('checkpoint', String(to));
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw new IndexerError(`Failed to index blocks ${from}-${to}`, 'WRITE_FAILED', error);
+      }
+
+      this.persist();
+      eventsIndexed += events.length;
+      this.logger.debug(`Indexed blocks ${from}-${to} (${events.length} events)`);
+    }
+
+    return {
+      fromBlock,
+      toBlock: Math.max(head, fromBlock - 1),
+      eventsIndexed,
+      ...(reorgedTo !== undefined ? { reorgedTo } : {}),
+    };
+  }
+
+  /**
+   * Get the last fully indexed block, or null before the first sync
+   */
+  public getCheckpoint(): number | null {
+    const value = this.getState('checkpoint');
+    return value === null ? null : Number(value);
+  }
+
+  /**
+   * List raw events, oldest first
+   */
+  public getEvents(query: EventQuery = {}): Page<IndexedEvent> {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.contract) {
+      conditions.push('contract = ?');
+      params.push(query.contract);
+    }
+    if (query.eventName) {
+      conditions.push('event_name = ?');
+      params.push(query.eventName);
+    }
+    if (query.fromBlock !== undefined) {
+      conditions.push('block_number >= ?');
+      params.push(query.fromBlock);
+    }
+    if (query.toBlock !== undefined) {
+      conditions.push('block_number <= ?');
+      params.push(query.toBlock);
+    }
+
+    return this.paginate(
+      'SELECT * FROM events',
+      conditions,
+      params,
+      'block_number, log_index',
+      query,
+      (row) => ({
+        contract: row['contract'] as ContractName,
+        eventName: String(row['event_name']),
+        blockNumber: Number(row['block_number']),
+        blockHash: String(row['block_hash']),
+        transactionHash: String(row['transaction_hash']),
+        logIndex: Number(row['log_index']),
+        args: JSON.parse(String(row['args'])) as EventArgs,
+      }),
+    );
+  }
+
+  /**
+   * Search indexed evidence, ordered by evidence ID
+   */
+  public searchEvidence(query: EvidenceQuery = {}): Page<IndexedEvidence> {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.search) {
+      conditions.push("title LIKE ? ESCAPE '\\'");
+      params.push(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    if (query.submitter) {
+      conditions.push('lower(submitter) = lower(?)');
+      params.push(query.submitter);
+    }
+    if (query.evidenceType !== undefined) {
+      conditions.push('evidence_type = ?');
+      params.push(query.evidenceType);
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.caseId !== undefined) {
+      conditions.push('evidence_id IN (SELECT evidence_id FROM case_evidence WHERE case_id = ?)');
+      params.push(query.caseId);
+    }
+
+    return this.paginate(
+      'SELECT * FROM evidence',
+      conditions,
+      params,
+      'evidence_id',
+      query,
+      (row) => ({
+        evidenceId: Number(row['evidence_id']),
+        submitter: String(row['submitter']),
+        evidenceType: Number(row['evidence_type']),
+        title: String(row['title']),
+        status: Number(row['status']),
+        isSealed: row['is_sealed'] === 1,
+        sealedUntil: Number(row['sealed_until']),
+        submittedAt: Number(row['submitted_at']),
+        blockNumber: Number(row['block_number']),
+      }),
+    );
+  }
+
+  /**
+   * Search indexed cases, ordered by case ID
+   */
+  public searchCases(query: CaseQuery = {}): Page<IndexedCase> {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.search) {
+      conditions.push("case_number LIKE ? ESCAPE '\\'");
+      params.push(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    if (query.filedBy) {
+      conditions.push('lower(filed_by) = lower(?)');
+      params.push(query.filedBy);
+    }
+    if (query.party) {
+      conditions.push(
+        'case_id IN (SELECT case_id FROM case_parties WHERE lower(party) = lower(?))',
+      );
+      params.push(query.party);
+    }
+    if (query.caseType !== undefined) {
+      conditions.push('case_type = ?');
+      params.push(query.caseType);
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+
+    return this.paginate('SELECT * FROM cases', conditions, params, 'case_id', query, (row) => ({
+      caseId: Number(row['case_id']),
+      caseNumber: String(row['case_number']),
+      caseType: Number(row['case_type']),
+      filedBy: String(row['filed_by']),
+      status: Number(row['status']),
+      filedAt: Number(row['filed_at']),
+      blockNumber: Number(row['block_number']),
+    }));
+  }
+
+  /**
+   * Get the latest verified identity for an address
+   */
+  public getIdentity(user: string): IndexedIdentity | null {
+    const [row] = this.query('SELECT * FROM identities WHERE lower(user) = lower(?)', [user]);
+    if (!row) {
+      return null;
+    }
+    return {
+      user: String(row['user']),
+      identityId: Number(row['identity_id']),
+      level: Number(row['level']),
+      verifier: String(row['verifier']),
+      verifiedAt: Number(row['verified_at']),
+      revoked: row['revoked'] === 1,
+    };
+  }
+
+  /**
+   * Write pending changes and release the database
+   */
+  public close(): void {
+    if (this.db) {
+      this.persist();
+      this.db.close();
+      this.db = undefined;
+    }
+  }
+
+  /**
+   * Detect a reorg below the checkpoint and roll back to the last common block
+   *
+   * Returns the block rolled back to, or undefined when the stored chain still matches.
+   */
+  private async rollBackReorg(): Promise<number | undefined> {
+    const checkpoint = this.getCheckpoint();
+    if (checkpoint === null) {
+      return undefined;
+    }
+
+    const stored = this.query(
+      'SELECT block_number, block_hash FROM blocks ORDER BY block_number DESC LIMIT ?',
+      [this.options.reorgDepth ?? 64],
+    );
+
+    let commonBlock: number | null = null;
+    for (const row of stored) {
+      const blockNumber = Number(row['block_number']);
+      const block = await this.provider.getBlock(blockNumber);
+      if (block?.hash === row['block_hash']) {
+        commonBlock = blockNumber;
+        break;
+      }
+    }
+
+    if (commonBlock === checkpoint) {
+      return undefined;
+    }
+    if (commonBlock === null && stored.length >= (this.options.reorgDepth ?? 64)) {
+      throw new IndexerError(
+        `Reorg deeper than ${this.options.reorgDepth ?? 64} indexed blocks; reindex from scratch`,
+        'REORG_TOO_DEEP',
+      );
+    }
+
+    const rollbackTo = commonBlock ?? (this.options.startBlock ?? 0) - 1;
+    this.logger.warn(`Chain reorganization detected; rolling back to block ${rollbackTo}`);
+
+    const db = this.getDatabase();
+    db.run('BEGIN');
+    try {
+      db.run('DELETE FROM events WHERE block_number > ?', [rollbackTo]);
+      db.run('DELETE FROM blocks WHERE block_number > ?', [rollbackTo]);
+      if (commonBlock === null) {
+        db.run("DELETE FROM indexer_state WHERE key = 'checkpoint'");
+      } else {
+        this.setState('checkpoint', String(commonBlock));
+      }
+      this.rebuildProjections();
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new IndexerError('Failed to roll back reorganized blocks', 'WRITE_FAILED', error);
+    }
+
+    this.persist();
+    return rollbackTo;
+  }
+
+  /**
+   * Recompute the normalized tables by replaying stored events in order
+   */
+  private rebuildProjections(): void {
+    const db = this.getDatabase();
+    for (const table of PROJECTION_TABLES) {
+      db.run(`DELETE FROM ${table}`);
+    }
+
+    let offset = 0;
+    for (;;) {
+      const page = this.getEvents({ limit: MAX_PAGE_SIZE, offset });
+      for (const event of page.items) {
+        PROJECTIONS[event.eventName]?.(db, event.args, event);
+      }
+      offset += page.items.length;
+      if (offset >= page.total || page.items.length === 0) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Decode a log from one of the indexed contracts
+   */
+  private decodeLog(log: Log): IndexedEvent | null {
+    const contract = this.contractsByAddress.get(log.address.toLowerCase());
+    const parsed = contract ? CONTRACT_INTERFACES[contract].parseLog(log) : null;
+    if (!contract || !parsed) {
+      return null;
+    }
+
+    return {
+      contract,
+      eventName: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args: normalizeEventArgs(parsed),
+    };
+  }
+
+  /**
+   * Insert an event, record its block hash and apply its projection
+   */
+  private storeEvent(event: IndexedEvent): void {
+    const db = this.getDatabase();
+    db.run(
+      `INSERT OR IGNORE INTO events
+         (contract, event_name, block_number, block_hash, transaction_hash, log_index, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.contract,
+        event.eventName,
+        event.blockNumber,
+        event.blockHash,
+        event.transactionHash,
+        event.logIndex,
+        JSON.stringify(event.args),
+      ],
+    );
+    if (db.getRowsModified() === 0) {
+      return;
+    }
+
+    db.run('INSERT OR REPLACE INTO blocks VALUES (?, ?)', [event.blockNumber, event.blockHash]);
+    PROJECTIONS[event.eventName]?.(db, event.args, event);
+  }
+
+  /**
+   * Run a filtered, ordered and paginated query
+   */
+  private paginate<T>(
+    select: string,
+    conditions: string[],
+    params: SqlValue[],
+    orderBy: string,
+    query: { limit?: number; offset?: number },
+    mapRow: (row: Record<string, SqlValue>) => T,
+  ): Page<T> {
+    const { limit, offset } = pageBounds(query);
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+    const [countRow] = this.query(`SELECT COUNT(*) AS total FROM (${select}${where})`, params);
+    const rows = this.query(`${select}${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      offset,
+    ]);
+
+    return { items: rows.map(mapRow), total: Number(countRow?.['total'] ?? 0), limit, offset };
+  }
+
+  private query(sql: string, params: BindParams = []): Record<string, SqlValue>[] {
+    const statement = this.getDatabase().prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private getState(key: string): string | null {
+    const [row] = this.query('SELECT value FROM indexer_state WHERE key = ?', [key]);
+    return row ? String(row['value']) : null;
+  }
+
+  private setState(key: string, value: string): void {
+    this.getDatabase().run('INSERT OR REPLACE INTO indexer_state VALUES (?, ?)', [key, value]);
+  }
+
+  /**
+   * Write the in-memory database to disk atomically
+   */
+  private persist(): void {
+    const databasePath = this.options.databasePath;
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    const tempPath = `${databasePath}.tmp`;
+    fs.writeFileSync(tempPath, this.getDatabase().export());
+    fs.renameSync(tempPath, databasePath);
+  }
+
+  private getDatabase(): Database {
+    if (!this.db) {
+      throw new IndexerError(
+        'Indexer is not initialized; call initialize() first',
+        'NOT_INITIALIZED',
+      );
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Hedera Mirror Node REST client for historical ProofVault queries
+ *
+ * Reads contract logs and results from the mirror node (`/api/v1`) instead of
+ * JSON-RPC, which exposes consensus timestamps and the gas actually charged.
+ */
+
+import { CONTRACT_INTERFACES, CONTRACT_KEYS, normalizeEventArgs } from '../indexer';
+import type {
+  ContractName,
+  MirrorBlock,
+  MirrorContractEvent,
+  MirrorContractLog,
+  MirrorContractResult,
+  MirrorExchangeRate,
+  MirrorLogQuery,
+  MirrorTransaction,
+  NetworkConfig,
+  SDKContractAddresses,
+} from '../types';
+import { MirrorNodeError } from '../types';
+import { getDeploymentAddresses, loadLatestDeployment } from '../utils';
+
+// Mirror node page size limit for list endpoints
+const MAX_PAGE_SIZE = 100;
+
+interface MirrorLogResponse {
+  logs: {
+    address: string;
+    contract_id: string;
+    data: string;
+    topics: string[];
+    index: number;
+    block_number: number;
+    block_hash: string;
+    timestamp: string;
+    transaction_hash: string;
+    transaction_index: number;
+  }[];
+  links?: { next?: string | null };
+}
+
+interface MirrorTransactionResponse {
+  transactions: {
+    transaction_id: string;
+    consensus_timestamp: string;
+    name: string;
+    result: string;
+    charged_tx_fee: number;
+    entity_id: string | null;
+    nonce?: number;
+  }[];
+}
+
+interface MirrorExchangeRateResponse {
+  current_rate: { cent_equivalent: number; hbar_equivalent: number; expiration_time: number };
+}
+
+interface MirrorBlockResponse {
+  blocks: {
+    number: number;
+    hash: string;
+    timestamp: { from: string; to: string | null };
+  }[];
+}
+
+interface MirrorContractResultResponse {
+  hash: string;
+  contract_id: string;
+  from: string;
+  to: string;
+  result: string;
+  status: string;
+  gas_used: number;
+  gas_limit: number;
+  block_number: number;
+  timestamp: string;
+}
+
+/**
+ * Convert a mirror node consensus timestamp ("seconds.nanos") to a Date
+ */
+export function consensusTimestampToDate(timestamp: string): Date {
+  const [seconds = '0', nanos = '0'] = timestamp.split('.');
+  return new Date(Number(seconds) * 1000 + Math.floor(Number(nanos.padEnd(9, '0')) / 1e6));
+}
+
+/**
+ * Convert an SDK transaction ID ("0.0.2@1700000000.123456789") to mirror node form
+ * ("0.0.2-1700000000-123456789"); mirror-form IDs are returned unchanged
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const match = /^(\d+\.\d+\.\d+)@(\d+)\.(\d+)$/.exec(transactionId);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : transactionId;
+}
+
+/**
+ * Typed client for the Hedera Mirror Node REST API
+ */
+export class MirrorNodeClient {
+  private readonly baseUrl: string;
+  private readonly network: string;
+  private readonly contractResults = new Map<string, MirrorContractResult>();
+
+  constructor(networkConfig: NetworkConfig) {
+    if (!networkConfig.mirrorNodeUrl) {
+      throw new MirrorNodeError(
+        `No mirror node URL configured for network ${networkConfig.network}`,
+        'INVALID_CONFIG',
+      );
+    }
+    this.baseUrl = networkConfig.mirrorNodeUrl.replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+    this.network = networkConfig.network;
+  }
+
+  /**
+   * Page through the logs emitted by a contract, oldest first
+   */
+  public async *getContractLogs(
+    address: string,
+    query: MirrorLogQuery = {},
+  ): AsyncGenerator<MirrorContractLog> {
+    const params = new URLSearchParams({
+      order: 'asc',
+      limit: String(Math.min(query.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE)),
+    });
+    if (query.fromTimestamp) {
+      params.append('timestamp', `gte:${query.fromTimestamp}`);
+    }
+    if (query.toTimestamp) {
+      params.append('timestamp', `lte:${query.toTimestamp}`);
+    }
+
+    let next: string | null = `/api/v1/contracts/${address}/results/logs?${params.toString()}`;
+    while (next) {
+      const page: MirrorLogResponse = await this.request(next);
+      for (const log of page.logs) {
+        yield {
+          address: log.address,
+          contractId: log.contract_id,
+          data: log.data,
+          topics: log.topics,
+          index: log.index,
+          blockNumber: log.block_number,
+          blockHash: log.block_hash,
+          consensusTimestamp: log.timestamp,
+          transactionHash: log.transaction_hash,
+          transactionIndex: log.transaction_index,
+        };
+      }
+      next = page.links?.next ?? null;
+    }
+  }
+
+  /**
+   * Get the result of a contract call or deployment by transaction hash or ID
+   */
+  public async getContractResult(transactionIdOrHash: string): Promise<MirrorContractResult> {
+    const cached = this.contractResults.get(transactionIdOrHash);
+    if (cached) {
+      return cached;
+    }
+
+    const result: MirrorContractResultResponse = await this.request(
+      `/api/v1/contracts/results/${transactionIdOrHash}`,
+    );
+    const mapped: MirrorContractResult = {
+      hash: result.hash,
+      contractId: result.contract_id,
+      from: result.from,
+      to: result.to,
+      result: result.result,
+      status: result.status,
+      gasUsed: BigInt(result.gas_used),
+      gasLimit: BigInt(result.gas_limit),
+      blockNumber: result.block_number,
+      consensusTimestamp: result.timestamp,
+    };
+
+    this.contractResults.set(transactionIdOrHash, mapped);
+    return mapped;
+  }
+
+  /**
+   * Get the record of a top-level transaction by SDK or mirror node transaction ID
+   */
+  public async getTransaction(transactionId: string): Promise<MirrorTransaction> {
+    const mirrorId = toMirrorTransactionId(transactionId);
+    const response: MirrorTransactionResponse = await this.request(
+      `/api/v1/transactions/${mirrorId}`,
+    );
+
+    const transaction =
+      response.transactions.find((entry) => (entry.nonce ?? 0) === 0) ?? response.transactions[0];
+    if (!transaction) {
+      throw new MirrorNodeError(`Transaction ${mirrorId} not found`, 'NOT_FOUND');
+    }
+
+    return {
+      transactionId: transaction.transaction_id,
+      consensusTimestamp: transaction.consensus_timestamp,
+      name: transaction.name,
+      result: transaction.result,
+      chargedTxFee: BigInt(transaction.charged_tx_fee),
+      entityId: transaction.entity_id,
+    };
+  }
+
+  /**
+   * Get the network's current HBAR to US cent exchange rate used for fee calculation
+   */
+  public async getExchangeRate(): Promise<MirrorExchangeRate> {
+    const { current_rate: rate }: MirrorExchangeRateResponse = await this.request(
+      '/api/v1/network/exchangerate',
+    );
+    return {
+      centEquivalent: rate.cent_equivalent,
+      hbarEquivalent: rate.hbar_equivalent,
+      expirationTime: rate.expiration_time,
+    };
+  }
+
+  /**
+   * Get the most recent record file (block) the mirror node has ingested
+   */
+  public async getLatestBlock(): Promise<MirrorBlock> {
+    const { blocks }: MirrorBlockResponse = await this.request('/api/v1/blocks?limit=1&order=desc');
+    const [block] = blocks;
+    if (!block) {
+      throw new MirrorNodeError('Mirror node has no blocks', 'NOT_FOUND');
+    }
+
+    return {
+      number: block.number,
+      hash: block.hash,
+      consensusTimestamp: block.timestamp.to ?? block.timestamp.from,
+    };
+  }
+
+  /**
+   * Decode the events of the given contracts with their ABIs, ordered by consensus time
+   *
+   * Gas used is looked up once per transaction after all logs are paged, and left
+   * undefined when the mirror node cannot return the transaction's contract result.
+   */
+  public async getContractEvents(
+    addresses: SDKContractAddresses,
+    query: MirrorLogQuery = {},
+  ): Promise<MirrorContractEvent[]> {
+    const events: MirrorContractEvent[] = [];
+
+    for (const [key, contractName] of Object.entries(CONTRACT_KEYS) as [
+      keyof SDKContractAddresses,
+      ContractName,
+    ][]) {
+      const address = addresses[key];
+      if (!address) {
+        continue;
+      }
+
+      for await (const log of this.getContractLogs(address, query)) {
+        const parsed = CONTRACT_INTERFACES[contractName].parseLog({
+          topics: log.topics,
+          data: log.data,
+        });
+        if (!parsed) {
+          continue;
+        }
+
+        events.push({
+          contract: contractName,
+          eventName: parsed.name,
+          args: normalizeEventArgs(parsed),
+          address: log.address,
+          logIndex: log.index,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          consensusTimestamp: log.consensusTimestamp,
+        });
+      }
+    }
+
+    const gasUsedByTransaction = new Map<string, bigint | undefined>();
+    for (const transactionHash of new Set(events.map((event) => event.transactionHash))) {
+      gasUsedByTransaction.set(transactionHash, await this.getGasUsed(transactionHash));
+    }
+    for (const event of events) {
+      const gasUsed = gasUsedByTransaction.get(event.transactionHash);
+      if (gasUsed !== undefined) {
+        event.gasUsed = gasUsed;
+      }
+    }
+
+    return events.sort(
+      (a, b) =>
+        compareTimestamps(a.consensusTimestamp, b.consensusTimestamp) || a.logIndex - b.logIndex,
+    );
+  }
+
+  /**
+   * Decode the events of the latest deployment on this client's network
+   */
+  public async getDeploymentEvents(
+    outputDir: string,
+    query: MirrorLogQuery = {},
+  ): Promise<MirrorContractEvent[]> {
+    const deployment = loadLatestDeployment(this.network, outputDir);
+    if (!deployment) {
+      throw new MirrorNodeError(
+        `No deployment found for network ${this.network} in ${outputDir}`,
+        'NOT_DEPLOYED',
+      );
+    }
+
+    return this.getContractEvents(getDeploymentAddresses(deployment), query);
+  }
+
+  /**
+   * Get the gas a transaction used, or undefined if its contract result is unavailable
+   */
+  private async getGasUsed(transactionHash: string): Promise<bigint | undefined> {
+    try {
+      return (await this.getContractResult(transactionHash)).gasUsed;
+    } catch (error) {
+      if (error instanceof MirrorNodeError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async request<T>(pathAndQuery: string): Promise<T> {
+    const url = new URL(pathAndQuery, this.baseUrl).toString();
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers: { Accept: 'application/json' } });
+    } catch (error) {
+      throw new MirrorNodeError(`Mirror node unreachable at ${this.baseUrl}`, 'UNREACHABLE', error);
+    }
+
+    if (!response.ok) {
+      throw new MirrorNodeError(
+        `Mirror node request ${pathAndQuery} failed with HTTP ${response.status}: ${await response.text()}`,
+        response.status === 404 ? 'NOT_FOUND' : 'REQUEST_FAILED',
+        { status: response.status },
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Order consensus timestamps ("seconds.nanos") without losing nanosecond precision
+ */
+function compareTimestamps(a: string, b: string): number {
+  const [aSeconds = '0', aNanos = '0'] = a.split('.');
+  const [bSeconds = '0', bNanos = '0'] = b.split('.');
+  return (
+    Number(aSeconds) - Number(bSeconds) ||
+    Number(aNanos.padEnd(9, '0')) - Number(bNanos.padEnd(9, '0'))
+  );
+}
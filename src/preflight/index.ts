@@ -0,0 +1,280 @@
+/**
+ * Live preflight checks for ProofVault deployments
+ *
+ * Queries the target network before anything is deployed: the operator's
+ * balance and key, the consensus node version, clock skew and the JSON-RPC
+ * relay's chain ID. Each check reports pass, warn or fail.
+ */
+
+import type { Client } from '@hashgraph/sdk';
+import {
+  AccountBalanceQuery,
+  AccountId,
+  AccountInfoQuery,
+  KeyList,
+  NetworkVersionInfoQuery,
+  PublicKey,
+} from '@hashgraph/sdk';
+import { MirrorNodeClient, consensusTimestampToDate } from '../mirror';
+import type {
+  NetworkConfig,
+  PreflightAccountKeys,
+  PreflightCheckResult,
+  PreflightOptions,
+  PreflightProbe,
+  PreflightStatus,
+} from '../types';
+import { DeploymentError } from '../types';
+import { formatHbar } from '../utils';
+
+// solc 0.8.22 targets Shanghai by default, whose PUSH0 opcode needs services 0.38
+export const MIN_SERVICES_VERSION = '0.38.0';
+
+// Local clock skew tolerated before warning and failing. Network time comes from
+// the mirror node's latest block, which trails consensus by a few seconds.
+export const CLOCK_SKEW_WARN_MS = 10_000;
+export const CLOCK_SKEW_FAIL_MS = 30_000;
+
+const STATUS_ORDER: PreflightStatus[] = ['pass', 'warn', 'fail'];
+
+/**
+ * Pick the most severe status of a set of checks
+ */
+export function summarizePreflight(checks: PreflightCheckResult[]): PreflightStatus {
+  return checks.reduce<PreflightStatus>(
+    (worst, check) =>
+      STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst) ? check.status : worst,
+    'pass',
+  );
+}
+
+/**
+ * Compare two dotted version strings numerically
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.replace(/^v/, '').split(/[.-]/).map(Number);
+  const right = b.replace(/^v/, '').split(/[.-]/).map(Number);
+  for (let i = 0; i < 3; i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function formatSeconds(milliseconds: number): string {
+  return `${(milliseconds / 1000).toFixed(1)}s`;
+}
+
+async function runCheck(
+  name: string,
+  check: () => Promise<Omit<PreflightCheckResult, 'name'>>,
+): Promise<PreflightCheckResult> {
+  try {
+    return { name, ...(await check()) };
+  } catch (error) {
+    return {
+      name,
+      status: 'fail',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Run every live check against the network; a failing query fails only its own check
+ */
+export async function runPreflightChecks(
+  probe: PreflightProbe,
+  options: PreflightOptions,
+): Promise<PreflightCheckResult[]> {
+  const now = options.now ?? Date.now;
+
+  return [
+    await runCheck('operator-balance', async () => {
+      const balance = await probe.getAccountBalance();
+      const details = {
+        balance: balance.toString(),
+        estimatedFee: options.estimatedFee.toString(),
+        maxFee: options.maxFee.toString(),
+      };
+      if (balance < options.estimatedFee) {
+        return {
+          status: 'fail',
+          message: `Balance ${formatHbar(balance)} is below the estimated deployment cost of ${formatHbar(options.estimatedFee)}`,
+          details,
+        };
+      }
+      if (balance < options.maxFee) {
+        return {
+          status: 'warn',
+          message: `Balance ${formatHbar(balance)} covers the estimated cost but not the maximum fees of ${formatHbar(options.maxFee)}`,
+          details,
+        };
+      }
+      return {
+        status: 'pass',
+        message: `Balance ${formatHbar(balance)} covers the maximum deployment fees of ${formatHbar(options.maxFee)}`,
+        details,
+      };
+    }),
+
+    await runCheck('operator-key', async () => {
+      const { publicKeys, threshold } = await probe.getAccountKeys();
+      const details = { publicKeys, threshold };
+      const operatorKey = options.operatorPublicKey.toLowerCase();
+      if (!publicKeys.some((key) => key.toLowerCase() === operatorKey)) {
+        return {
+          status: 'fail',
+          message: `Operator key does not match the key of account ${options.operatorId}`,
+          details,
+        };
+      }
+      if (threshold > 1) {
+        return {
+          status: 'warn',
+          message: `Account ${options.operatorId} requires ${threshold} signatures; the operator key alone cannot sign`,
+          details,
+        };
+      }
+      return {
+        status: 'pass',
+        message: `Operator key matches account ${options.operatorId}`,
+        details,
+      };
+    }),
+
+    await runCheck('node-version', async () => {
+      const version = await probe.getNodeVersion();
+      const details = { version, minimum: MIN_SERVICES_VERSION };
+      if (compareVersions(version, MIN_SERVICES_VERSION) < 0) {
+        return {
+          status: 'fail',
+          message: `Services version ${version} predates ${MIN_SERVICES_VERSION} and cannot run Shanghai bytecode`,
+          details,
+        };
+      }
+      return { status: 'pass', message: `Services version ${version}`, details };
+    }),
+
+    await runCheck('clock-skew', async () => {
+      const networkTime = await probe.getNetworkTime();
+      const skew = now() - networkTime;
+      const details = { skewMs: skew };
+      const direction = skew >= 0 ? 'ahead of' : 'behind';
+      const message = `Local clock is ${formatSeconds(Math.abs(skew))} ${direction} the network`;
+      if (Math.abs(skew) > CLOCK_SKEW_FAIL_MS) {
+        return { status: 'fail', message, details };
+      }
+      return {
+        status: Math.abs(skew) > CLOCK_SKEW_WARN_MS ? 'warn' : 'pass',
+        message,
+        details,
+      };
+    }),
+
+    await runCheck('rpc-chain-id', async () => {
+      const chainId = await probe.getChainId();
+      const details = { chainId, expected: options.expectedChainId };
+      if (chainId !== options.expectedChainId) {
+        return {
+          status: 'fail',
+          message: `RPC endpoint reports chain ID ${chainId}, expected ${options.expectedChainId}`,
+          details,
+        };
+      }
+      return { status: 'pass', message: `RPC endpoint reports chain ID ${chainId}`, details };
+    }),
+  ];
+}
+
+/**
+ * Query a JSON-RPC endpoint's `eth_chainId`
+ */
+export async function fetchRpcChainId(rpcUrl: string): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+    });
+  } catch (error) {
+    throw new DeploymentError(`RPC endpoint unreachable at ${rpcUrl}`, 'RPC_UNREACHABLE', error);
+  }
+
+  if (!response.ok) {
+    throw new DeploymentError(
+      `eth_chainId failed with HTTP ${response.status}`,
+      'RPC_REQUEST_FAILED',
+      { status: response.status },
+    );
+  }
+  const body = (await response.json()) as { result?: string; error?: { message: string } };
+  if (!body.result) {
+    throw new DeploymentError(
+      `eth_chainId failed: ${body.error?.message ?? 'no result'}`,
+      'RPC_REQUEST_FAILED',
+      body,
+    );
+  }
+  return Number(BigInt(body.result));
+}
+
+/**
+ * Collect the public keys in a key and the number of signatures it needs
+ */
+function flattenAccountKey(key: unknown): PreflightAccountKeys {
+  if (key instanceof PublicKey) {
+    return { publicKeys: [key.toStringRaw()], threshold: 1 };
+  }
+  if (key instanceof KeyList) {
+    const keys = key.toArray();
+    return {
+      publicKeys: keys.flatMap((entry) => flattenAccountKey(entry).publicKeys),
+      threshold: key.threshold ?? keys.length,
+    };
+  }
+  return { publicKeys: [], threshold: 1 };
+}
+
+/**
+ * Build a probe that queries Hedera consensus nodes, the mirror node and the JSON-RPC relay
+ *
+ * Node version and account info queries are paid by the client's operator.
+ */
+export function createHederaPreflightProbe(
+  client: Client,
+  operatorId: string,
+  networkConfig: NetworkConfig,
+): PreflightProbe {
+  const accountId = AccountId.fromString(operatorId);
+  const mirrorNode = new MirrorNodeClient(networkConfig);
+
+  return {
+    async getAccountBalance() {
+      const balance = await new AccountBalanceQuery().setAccountId(accountId).execute(client);
+      return BigInt(balance.hbars.toTinybars().toString());
+    },
+
+    async getAccountKeys() {
+      const info = await new AccountInfoQuery().setAccountId(accountId).execute(client);
+      return flattenAccountKey(info.key);
+    },
+
+    async getNodeVersion() {
+      const { servicesVersion } = await new NetworkVersionInfoQuery().execute(client);
+      return `${servicesVersion.major}.${servicesVersion.minor}.${servicesVersion.patch}`;
+    },
+
+    async getNetworkTime() {
+      const block = await mirrorNode.getLatestBlock();
+      return consensusTimestampToDate(block.consensusTimestamp).getTime();
+    },
+
+    getChainId() {
+      return fetchRpcChainId(networkConfig.rpcUrl);
+    },
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Chain-of-custody report rendering for ProofVault evidence
+ *
+ * Reports are rendered only from on-chain data, so the same evidence state
+ * always produces byte-identical JSON, HTML and PDF output.
+ */
+
+import { keccak256 } from 'ethers';
+import type { CustodyReport, CustodyReportFormat, RenderedCustodyReport } from '../types';
+
+export const CUSTODY_REPORT_VERSION = 1;
+
+export const EVIDENCE_TYPE_NAMES = [
+  'DOCUMENT',
+  'PHOTO',
+  'VIDEO',
+  'AUDIO',
+  'DIGITAL_FILE',
+  'PHYSICAL_DESCRIPTION',
+  'TESTIMONY',
+  'EXPERT_ANALYSIS',
+  'CHAIN_OF_CUSTODY',
+  'FORENSIC_REPORT',
+];
+
+export const EVIDENCE_STATUS_NAMES = [
+  'SUBMITTED',
+  'UNDER_REVIEW',
+  'VERIFIED',
+  'CHALLENGED',
+  'ACCEPTED',
+  'REJECTED',
+  'SEALED',
+  'ARCHIVED',
+];
+
+export const CLASSIFICATION_NAMES = [
+  'PUBLIC',
+  'RESTRICTED',
+  'CONFIDENTIAL',
+  'SECRET',
+  'TOP_SECRET',
+];
+
+export const VERIFICATION_LEVEL_NAMES = [
+  'UNVERIFIED',
+  'BASIC_KYC',
+  'ENHANCED_KYC',
+  'GOVERNMENT_VERIFIED',
+  'LEGAL_PROFESSIONAL',
+  'EXPERT_WITNESS',
+  'WHISTLEBLOWER_PROTECTED',
+];
+
+// US Letter in points, set in 10pt Courier (6pt per character)
+const PDF_PAGE_WIDTH = 612;
+const PDF_PAGE_HEIGHT = 792;
+const PDF_MARGIN = 54;
+const PDF_FONT_SIZE = 10;
+const PDF_LEADING = 12;
+const PDF_LINE_WIDTH = Math.floor((PDF_PAGE_WIDTH - 2 * PDF_MARGIN) / (PDF_FONT_SIZE * 0.6));
+const PDF_LINES_PER_PAGE = Math.floor((PDF_PAGE_HEIGHT - 2 * PDF_MARGIN) / PDF_LEADING);
+
+interface ReportSection {
+  heading: string;
+  fields: [string, string][];
+}
+
+/**
+ * Look up an enum name, keeping unknown values visible
+ */
+function enumName(names: string[], value: number): string {
+  return names[value] ?? `UNKNOWN(${value})`;
+}
+
+/**
+ * Format a unix timestamp in seconds as ISO 8601, or null when unset
+ */
+function isoTimestamp(seconds: number): string | null {
+  return seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Convert a custody report into its JSON document with readable enums and timestamps
+ */
+export function custodyReportDocument(report: CustodyReport): Record<string, unknown> {
+  const { evidence, metadata } = report;
+
+  return {
+    version: report.version,
+    evidence: {
+      evidenceId: evidence.evidenceId.toString(),
+      title: evidence.title,
+      description: evidence.description,
+      evidenceType: enumName(EVIDENCE_TYPE_NAMES, evidence.evidenceType),
+      status: enumName(EVIDENCE_STATUS_NAMES, evidence.status),
+      classification: enumName(CLASSIFICATION_NAMES, evidence.classification),
+      submitter: evidence.submitter,
+      submittedAt: isoTimestamp(evidence.submissionTimestamp),
+      lastModified: isoTimestamp(evidence.lastModified),
+      ipfsHash: evidence.ipfsHash,
+      cryptographicHash: evidence.cryptographicHash,
+      metadataHash: evidence.metadataHash,
+      isEncrypted: evidence.isEncrypted,
+      isSealed: evidence.isSealed,
+      sealedUntil: isoTimestamp(evidence.sealedUntil),
+    },
+    metadata: {
+      originalFilename: metadata.originalFilename,
+      fileSize: metadata.fileSize,
+      mimeType: metadata.mimeType,
+      createdAt: isoTimestamp(metadata.creationTimestamp),
+      deviceInfo: metadata.deviceInfo,
+      geoLocation: metadata.geoLocation,
+      tags: metadata.tags,
+    },
+    custody: report.custody.map((entry, index) => ({
+      sequence: index + 1,
+      timestamp: isoTimestamp(entry.timestamp),
+      action: entry.action,
+      handler: entry.handler,
+      handlerVerificationLevel: enumName(VERIFICATION_LEVEL_NAMES, entry.handlerVerificationLevel),
+      location: entry.location,
+      notes: entry.notes,
+      handlerSignature: entry.handlerSignature,
+    })),
+  };
+}
+
+/**
+ * Group the evidence and metadata fields into labelled sections
+ */
+function reportSections(report: CustodyReport): ReportSection[] {
+  const { evidence, metadata } = report;
+  const orNone = (value: string | null): string => value ?? 'n/a';
+
+  return [
+    {
+      heading: 'Evidence',
+      fields: [
+        ['Evidence ID', evidence.evidenceId.toString()],
+        ['Title', evidence.title],
+        ['Description', evidence.description],
+        ['Type', enumName(EVIDENCE_TYPE_NAMES, evidence.evidenceType)],
+        ['Status', enumName(EVIDENCE_STATUS_NAMES, evidence.status)],
+        ['Classification', enumName(CLASSIFICATION_NAMES, evidence.classification)],
+        ['Submitter', evidence.submitter],
+        ['Submitted', orNone(isoTimestamp(evidence.submissionTimestamp))],
+        ['Last modified', orNone(isoTimestamp(evidence.lastModified))],
+        ['IPFS hash', evidence.ipfsHash],
+        ['Cryptographic hash', evidence.cryptographicHash],
+        ['Metadata hash', evidence.metadataHash],
+        ['Encrypted', evidence.isEncrypted ? 'yes' : 'no'],
+        [
+          'Sealed',
+          evidence.isSealed ? `yes, until ${orNone(isoTimestamp(evidence.sealedUntil))}` : 'no',
+        ],
+      ],
+    },
+    {
+      heading: 'Metadata',
+      fields: [
+        ['Original filename', metadata.originalFilename],
+        ['File size', `${metadata.fileSize} bytes`],
+        ['MIME type', metadata.mimeType],
+        ['Created', orNone(isoTimestamp(metadata.creationTimestamp))],
+        ['Device', metadata.deviceInfo],
+        ['Location', metadata.geoLocation],
+        ['Tags', metadata.tags.join(', ')],
+      ],
+    },
+  ];
+}
+
+/**
+ * Render a custody report as pretty-printed JSON
+ */
+export function renderCustodyReportJson(report: CustodyReport): string {
+  return JSON.stringify(custodyReportDocument(report), null, 2) + '\n';
+}
+
+/**
+ * Escape text for HTML element and attribute content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a custody report as a standalone HTML document
+ */
+export function renderCustodyReportHtml(report: CustodyReport): string {
+  const id = report.evidence.evidenceId.toString();
+  const sections = reportSections(report).map(
+    (section) =>
+      `<h2>${section.heading}</h2>\n<table>\n` +
+      section.fields
+        .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>\n`)
+        .join('') +
+      '</table>\n',
+  );
+
+  const custodyRows = report.custody.map((entry, index) =>
+    [
+      String(index + 1),
+      isoTimestamp(entry.timestamp) ?? 'n/a',
+      entry.action,
+      entry.handler,
+      enumName(VERIFICATION_LEVEL_NAMES, entry.handlerVerificationLevel),
+      entry.location,
+      entry.notes,
+    ]
+      .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+      .join(''),
+  );
+
+  return (
+    '<!DOCTYPE html>\n' +
+    '<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+    `<title>Chain of Custody Report - Evidence #${id}</title>\n` +
+    '<style>\n' +
+    'body { font-family: sans-serif; margin: 2em; color: #111; }\n' +
+    'table { border-collapse: collapse; width: 100%; margin-bottom: 1.5em; }\n' +
+    'th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; vertical-align: top; }\n' +
+    'th { background: #eee; }\n' +
+    'td { font-family: monospace; word-break: break-all; }\n' +
+    '</style>\n</head>\n<body>\n' +
+    `<h1>Chain of Custody Report - Evidence #${id}</h1>\n` +
+    sections.join('') +
+    '<h2>Custody History</h2>\n<table>\n' +
+    '<tr><th>#</th><th>Timestamp</th><th>Action</th><th>Handler</th>' +
+    '<th>Identity level</th><th>Location</th><th>Notes</th></tr>\n' +
+    custodyRows.map((row) => `<tr>${row}</tr>\n`).join('') +
+    '</table>\n' +
+    `<p>Report format version ${report.version}</p>\n` +
+    '</body>\n</html>\n'
+  );
+}
+
+/**
+ * Split text into lines no longer than the given width
+ */
+function wrapText(text: string, width: number, indent = ''): string[] {
+  const lines: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > width) {
+    const breakAt = remaining.lastIndexOf(' ', width);
+    const cut = breakAt > indent.length ? breakAt : width;
+    lines.push(remaining.slice(0, cut));
+    remaining = indent + remaining.slice(cut).trimStart();
+  }
+  lines.push(remaining);
+  return lines;
+}
+
+/**
+ * Lay out a custody report as plain text lines for the PDF renderer
+ */
+function reportTextLines(report: CustodyReport): string[] {
+  const lines = [
+    `CHAIN OF CUSTODY REPORT - EVIDENCE #${report.evidence.evidenceId.toString()}`,
+    '',
+  ];
+
+  for (const section of reportSections(report)) {
+    lines.push(section.heading.toUpperCase());
+    for (const [label, value] of section.fields) {
+      lines.push(...wrapText(`  ${label}: ${value}`, PDF_LINE_WIDTH, '    '));
+    }
+    lines.push('');
+  }
+
+  lines.push('CUSTODY HISTORY');
+  report.custody.forEach((entry, index) => {
+    lines.push(`  ${index + 1}. ${isoTimestamp(entry.timestamp) ?? 'n/a'}  ${entry.action}`);
+    const fields: [string, string][] = [
+      [
+        'Handler',
+        `${entry.handler} (${enumName(VERIFICATION_LEVEL_NAMES, entry.handlerVerificationLevel)})`,
+      ],
+      ['Location', entry.location],
+      ['Notes', entry.notes],
+    ];
+    for (const [label, value] of fields) {
+      lines.push(...wrapText(`     ${label}: ${value}`, PDF_LINE_WIDTH, '       '));
+    }
+  });
+
+  lines.push('', `Report format version ${report.version}`);
+  return lines;
+}
+
+/**
+ * Encode text as a PDF literal string using printable ASCII only
+ */
+function pdfString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, '?');
+  return `(${ascii.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+/**
+ * Render a custody report as a text-only PDF with no timestamps or random IDs
+ */
+export function renderCustodyReportPdf(report: CustodyReport): Buffer {
+  const lines = reportTextLines(report);
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += PDF_LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + PDF_LINES_PER_PAGE));
+  }
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + 2 * i} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const footer = `Page ${i + 1} of ${pages.length}`;
+    const stream =
+      `BT /F1 ${PDF_FONT_SIZE} Tf ${PDF_LEADING} TL ${PDF_MARGIN} ${PDF_PAGE_HEIGHT - PDF_MARGIN} Td\n` +
+      pageLines.map((line) => `${pdfString(line)} Tj T*\n`).join('') +
+      'ET\n' +
+      `BT /F1 8 Tf ${PDF_MARGIN} ${PDF_MARGIN / 2} Td ${pdfString(footer)} Tj ET\n`;
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + 2 * i} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}endstream`,
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Render a custody report and hash the output so it can be submitted as evidence
+ */
+export function renderCustodyReport(
+  report: CustodyReport,
+  format: CustodyReportFormat,
+): RenderedCustodyReport {
+  let content: Buffer;
+  switch (format) {
+    case 'json':
+      content = Buffer.from(renderCustodyReportJson(report), 'utf8');
+      break;
+    case 'html':
+      content = Buffer.from(renderCustodyReportHtml(report), 'utf8');
+      break;
+    case 'pdf':
+      content = renderCustodyReportPdf(report);
+      break;
+    default:
+      throw new Error(`Unsupported report format: ${String(format)}`);
+  }
+
+  return { format, content, contentHash: keccak256(content) };
+}
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * Configuration inspector for ProofVault
+ *
+ * Prints the effective configuration, merged from defaults, the config file, env
+ * vars and flags, with secrets redacted, or validates it and lists every problem.
+ */
+
+import {
+  extractConfigFlags,
+  flattenSettings,
+  redactConfig,
+  resolveConfig,
+  setConfigOptions,
+} from '../config';
+import type { ResolvedConfig } from '../types';
+import { ConfigError } from '../types';
+
+type ConfigCommand = 'print' | 'validate';
+
+const USAGE = [
+  'Usage:',
+  '  config print [--network <name>] [--sources] [--json]',
+  '  config validate [--network <name>]',
+  'Options for every script:',
+  '  --config <file>          read settings from <file> instead of proofvault.config.{ts,json}',
+  '  --set <setting>=<value>  override a setting, e.g. --set gas.limit=9000000',
+].join('\n');
+
+interface ConfigArgs {
+  command: ConfigCommand;
+  networkName?: string;
+  sources: boolean;
+  json: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): ConfigArgs {
+  const positional: string[] = [];
+  let networkName: string | undefined;
+  let sources = false;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--network') {
+      networkName = argv[++i];
+      if (!networkName) {
+        throw new Error(`Missing value for ${arg}\n${USAGE}`);
+      }
+    } else if (arg === '--sources') {
+      sources = true;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command = 'print', ...rest] = positional;
+  if ((command !== 'print' && command !== 'validate') || rest.length > 0) {
+    throw new Error(USAGE);
+  }
+  return { command, ...(networkName ? { networkName } : {}), sources, json };
+}
+
+/**
+ * Main configuration function
+ */
+function main(): void {
+  let args: ConfigArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  let resolved: ResolvedConfig;
+  try {
+    resolved = resolveConfig(args.networkName ? { network: args.networkName } : {});
+  } catch (error) {
+    if (error instanceof ConfigError && error.issues.length > 0) {
+      console.error(`❌ Configuration has ${error.issues.length} problem(s):`);
+      for (const issue of error.issues) {
+        console.error(`   - ${issue}`);
+      }
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  if (args.command === 'validate') {
+    console.log(
+      `✅ Configuration is valid (${resolved.configFile ?? 'no config file'}, network ${resolved.config.network})`,
+    );
+    return;
+  }
+
+  const redacted = redactConfig(resolved.config);
+  if (args.json) {
+    console.log(
+      JSON.stringify(
+        args.sources
+          ? { config: redacted, sources: resolved.sources, configFile: resolved.configFile }
+          : redacted,
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  console.log(`⚙️  Config file: ${resolved.configFile ?? 'none'}`);
+  for (const [settingPath, value] of flattenSettings(
+    redacted as unknown as Record<string, unknown>,
+  )) {
+    const source = args.sources ? `  (${resolved.sources[settingPath] ?? 'default'})` : '';
+    console.log(`   ${settingPath} = ${JSON.stringify(value)}${source}`);
+  }
+}
+
+// Run the command if this script is executed directly
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+export { main as configMain };
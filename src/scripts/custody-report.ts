@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Chain-of-custody report export script for ProofVault
+ *
+ * Writes a human-readable custody report for an evidence record as JSON, HTML
+ * and/or PDF, printing each file's content hash so the report can itself be
+ * submitted as evidence.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ProofVaultSDK } from '..';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import { renderCustodyReport } from '../reports';
+import type { CustodyReportFormat, RenderedCustodyReport } from '../types';
+import { ConsoleLogger } from '../utils';
+
+const REPORT_FORMATS: CustodyReportFormat[] = ['json', 'html', 'pdf'];
+
+interface CustodyReportArgs {
+  evidenceId: bigint;
+  formats: CustodyReportFormat[];
+  outputDir: string;
+  networkName?: string;
+}
+
+interface WrittenReport extends RenderedCustodyReport {
+  filePath: string;
+}
+
+class CustodyReportExporter {
+  private readonly logger: ConsoleLogger;
+  private readonly sdk: ProofVaultSDK;
+
+  constructor(networkName?: string) {
+    this.logger = new ConsoleLogger(config.getLogLevel());
+    this.sdk = new ProofVaultSDK(config.getNetworkConfig(networkName), { logger: this.logger });
+  }
+
+  /**
+   * Load the custody history and write one report file per format
+   */
+  public async export(args: CustodyReportArgs): Promise<WrittenReport[]> {
+    this.sdk.initialize();
+
+    this.logger.info(`📜 Loading chain of custody for evidence ${args.evidenceId.toString()}...`);
+    const report = await this.sdk.getCustodyReport(args.evidenceId);
+    this.logger.info(`Found ${report.custody.length} custody entries`);
+
+    fs.mkdirSync(args.outputDir, { recursive: true });
+
+    return args.formats.map((format) => {
+      const rendered = renderCustodyReport(report, format);
+      const filePath = path.join(
+        args.outputDir,
+        `custody-report-${args.evidenceId.toString()}.${format}`,
+      );
+      fs.writeFileSync(filePath, rendered.content);
+      return { ...rendered, filePath };
+    });
+  }
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): CustodyReportArgs {
+  const positional: string[] = [];
+  let formats = REPORT_FORMATS;
+  let outputDir = './reports';
+  let networkName: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--format' || arg === '--out' || arg === '--network') {
+      const value = argv[++i];
+      if (!value) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      if (arg === '--format') {
+        const requested = value.split(',');
+        const unknown = requested.filter(
+          (format) => !REPORT_FORMATS.includes(format as CustodyReportFormat),
+        );
+        if (unknown.length > 0) {
+          throw new Error(`Unsupported report format: ${unknown.join(', ')}`);
+        }
+        formats = requested as CustodyReportFormat[];
+      } else if (arg === '--out') {
+        outputDir = value;
+      } else {
+        networkName = value;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [evidenceId] = positional;
+  if (!evidenceId || !/^\d+$/.test(evidenceId)) {
+    throw new Error(
+      'Usage: custody-report <evidenceId> [--format json,html,pdf] [--out <dir>] [--network <name>]',
+    );
+  }
+
+  return {
+    evidenceId: BigInt(evidenceId),
+    formats,
+    outputDir,
+    ...(networkName ? { networkName } : {}),
+  };
+}
+
+/**
+ * Main custody report export function
+ */
+async function main(): Promise<void> {
+  console.log('📜 ProofVault Chain-of-Custody Report');
+  console.log('=====================================\n');
+
+  let args: CustodyReportArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const exporter = new CustodyReportExporter(args.networkName);
+  const reports = await exporter.export(args);
+
+  console.log('\n✅ Reports written:');
+  for (const report of reports) {
+    console.log(`   ${report.filePath}`);
+    console.log(`   Content hash: ${report.contentHash}`);
+  }
+}
+
+// Run export if this script is executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { CustodyReportExporter, main as custodyReportMain };
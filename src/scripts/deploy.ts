@@ -2,27 +2,94 @@
 
 /**
  * Main deployment script for ProofVault contracts on Hedera using Hedera SDK
+ *
+ * Progress is journaled after every step, so rerunning after a failure resumes
+ * where the previous run stopped. Pass `--fresh` to discard the journal.
  */
 
+import type { Client, ContractId } from '@hashgraph/sdk';
 import {
   AccountId,
-  Client,
+  ContractCallQuery,
   ContractCreateTransaction,
-  ContractFunctionParameters,
+  ContractExecuteTransaction,
   FileAppendTransaction,
   FileCreateTransaction,
   Hbar,
   PrivateKey,
 } from '@hashgraph/sdk';
-import { config } from '../config';
+import { getBytes, hexlify } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import {
+  BYTECODE_CHUNK_SIZE,
+  DEFAULT_DEPLOY_GAS_LIMIT,
+  MAX_TRANSACTION_FEES_HBAR,
+  POST_DEPLOYMENT_GAS_LIMIT,
+  applyPostDeploymentActions,
+  clearDeploymentJournal,
+  createDeploymentJournal,
+  createDeploymentPlan,
+  createPostDeploymentActions,
+  encodeConstructorArgs,
+  encodeInitializerCall,
+  getDeploymentJournalPath,
+  getJournalEntry,
+  getJournaledContract,
+  getProxyJournalKey,
+  hashBytecode,
+  loadDeploymentJournal,
+  loadLinkedBytecode,
+  orderContracts,
+  recordJournalStep,
+  resolveConstructorArgs,
+  resolveLibraries,
+} from '../deployment';
+import { MirrorNodeClient, consensusTimestampToDate, toMirrorTransactionId } from '../mirror';
 import type {
+  ContractConfig,
   DeployedContract,
   DeploymentConfig,
+  DeploymentJournal,
+  DeploymentPlan,
   DeploymentResult,
   HederaClientConfig,
-  HederaContractInfo,
+  DeploymentTransactionType,
+  HederaTransactionResult,
+  PostDeploymentExecutor,
+  TransactionCost,
 } from '../types';
-import { ConsoleLogger, formatGas, loadContractArtifact, saveDeploymentResult } from '../utils';
+import { DeploymentError } from '../types';
+import {
+  ConsoleLogger,
+  calculateTotalFee,
+  calculateTotalGasUsed,
+  createHederaClient,
+  formatGas,
+  formatHbar,
+  getHederaContractInfo,
+  getTransactionCost,
+  loadContractArtifact,
+  loadLatestDeployment,
+  saveDeploymentResult,
+  sleep,
+  summarizeTransactionCosts,
+  toContractId,
+  updateLatestDeployment,
+  waitForHederaTransaction,
+} from '../utils';
+import {
+  PROXY_CONTRACT_NAME,
+  assertStorageLayoutCompatible,
+  encodeUpgradeCall,
+  loadStorageLayout,
+  toProxiedContract,
+} from '../upgrades';
+import { SourcifyVerifier } from '../verification';
+
+// Used for plan estimates when the mirror node exchange rate is unavailable
+const FALLBACK_HBAR_PRICE_USD = 0.05;
 
 class HederaContractDeployer {
   private logger: ConsoleLogger;
@@ -32,10 +99,14 @@ class HederaContractDeployer {
   private operatorKey: PrivateKey;
   private operatorId: AccountId;
   private deploymentResult: DeploymentResult;
+  private outputDir: string;
+  private fresh: boolean;
+  private journal?: DeploymentJournal;
+  private mirrorNode?: MirrorNodeClient;
 
-  constructor(networkName?: string) {
+  constructor(networkName?: string, options: { fresh?: boolean; manifestPath?: string } = {}) {
     this.logger = new ConsoleLogger(config.getLogLevel());
-    this.config = config.getDeploymentConfig(networkName);
+    this.config = config.getDeploymentConfig(networkName, options.manifestPath);
     this.hederaConfig = config.getHederaClientConfig(networkName);
 
     // Validate configuration
@@ -45,16 +116,15 @@ class HederaContractDeployer {
     this.operatorKey = PrivateKey.fromString(this.hederaConfig.operatorKey);
     this.operatorId = AccountId.fromString(this.hederaConfig.operatorId);
 
-    if (this.hederaConfig.network === 'testnet') {
-      this.client = Client.forTestnet();
-    } else {
-      this.client = Client.forMainnet();
-    }
+    this.client = createHederaClient(this.hederaConfig);
 
     this.client.setOperator(this.operatorId, this.operatorKey);
     this.client.setDefaultMaxTransactionFee(new Hbar(this.hederaConfig.maxTransactionFee ?? 100));
     this.client.setDefaultMaxQueryPayment(new Hbar(this.hederaConfig.maxQueryPayment ?? 10));
 
+    this.outputDir = config.getDeploymentOutputDir(networkName);
+    this.fresh = options.fresh ?? false;
+
     this.deploymentResult = {
       network: this.config.network.network,
       deployer: this.operatorId.toString(),
@@ -68,63 +138,66 @@ class HederaContractDeployer {
   /**
    * Upload contract bytecode to Hedera File Service
    */
-  private async uploadContractBytecode(contractName: string): Promise<string> {
-    this.logger.info(`� Uploading ${contractName} bytecode to Hedera File Service...`);
+  private async uploadContractBytecode(
+    contractName: string,
+    bytecode: string,
+  ): Promise<{ fileId: string; transactions: TransactionCost[] }> {
+    this.logger.info(`📤 Uploading ${contractName} bytecode to Hedera File Service...`);
 
     try {
-      // Load contract artifact
-      const artifact = loadContractArtifact(contractName);
-      const bytecode = artifact.bytecode;
-
-      if (!bytecode || bytecode === '0x') {
-        throw new Error(`No bytecode found for contract ${contractName}`);
-      }
-
       // Remove 0x prefix and convert to buffer
       const bytecodeBuffer = Buffer.from(bytecode.slice(2), 'hex');
 
       // Create file transaction
       const fileCreateTx = new FileCreateTransaction()
-        .setContents(bytecodeBuffer.slice(0, 4096)) // First chunk
+        .setContents(bytecodeBuffer.slice(0, BYTECODE_CHUNK_SIZE)) // First chunk
         .setKeys([this.operatorKey.publicKey])
-        .setMaxTransactionFee(new Hbar(2))
+        .setMaxTransactionFee(new Hbar(MAX_TRANSACTION_FEES_HBAR.FILE_CREATE))
         .freezeWith(this.client);
 
       const fileCreateSign = await fileCreateTx.sign(this.operatorKey);
       const fileCreateSubmit = await fileCreateSign.execute(this.client);
-      const fileCreateReceipt = await fileCreateSubmit.getReceipt(this.client);
-      const fileId = fileCreateReceipt.fileId;
+      const fileCreate = await this.confirmTransaction(
+        fileCreateSubmit.transactionId.toString(),
+        'FILE_CREATE',
+      );
+      const fileId = fileCreate.result.entityId;
+      const transactions = [fileCreate.cost];
 
       if (!fileId) {
         throw new Error('Failed to create file for bytecode');
       }
 
-      this.logger.info(`File created with ID: ${fileId.toString()}`);
+      this.logger.info(`File created with ID: ${fileId}`);
 
-      // Append remaining bytecode if it's larger than 4096 bytes
-      if (bytecodeBuffer.length > 4096) {
+      // Append remaining bytecode if it's larger than one chunk
+      if (bytecodeBuffer.length > BYTECODE_CHUNK_SIZE) {
         this.logger.info('Appending remaining bytecode...');
 
-        let offset = 4096;
+        let offset = BYTECODE_CHUNK_SIZE;
         while (offset < bytecodeBuffer.length) {
-          const chunk = bytecodeBuffer.slice(offset, offset + 4096);
+          const chunk = bytecodeBuffer.slice(offset, offset + BYTECODE_CHUNK_SIZE);
 
           const fileAppendTx = new FileAppendTransaction()
             .setFileId(fileId)
             .setContents(chunk)
-            .setMaxTransactionFee(new Hbar(2))
+            .setMaxTransactionFee(new Hbar(MAX_TRANSACTION_FEES_HBAR.FILE_APPEND))
             .freezeWith(this.client);
 
           const fileAppendSign = await fileAppendTx.sign(this.operatorKey);
           const fileAppendSubmit = await fileAppendSign.execute(this.client);
-          await fileAppendSubmit.getReceipt(this.client);
+          const fileAppend = await this.confirmTransaction(
+            fileAppendSubmit.transactionId.toString(),
+            'FILE_APPEND',
+          );
+          transactions.push(fileAppend.cost);
 
-          offset += 4096;
+          offset += BYTECODE_CHUNK_SIZE;
         }
       }
 
-      this.logger.info(`✅ Bytecode uploaded successfully to file ${fileId.toString()}`);
-      return fileId.toString();
+      this.logger.info(`✅ Bytecode uploaded successfully to file ${fileId}`);
+      return { fileId, transactions };
     } catch (error) {
       this.logger.error(`❌ Failed to upload bytecode for ${contractName}:`, error);
       throw error;
@@ -137,77 +210,102 @@ class HederaContractDeployer {
   private async deployContract(
     contractName: string,
     constructorArgs: unknown[] = [],
+    gasLimit = DEFAULT_DEPLOY_GAS_LIMIT,
+    artifactName = contractName,
+    libraries: Record<string, string> = {},
   ): Promise<DeployedContract> {
     this.logger.info(`\n🚀 Deploying ${contractName}...`);
+    const journal = this.getJournal();
 
     try {
-      // Upload bytecode to Hedera File Service
-      const fileId = await this.uploadContractBytecode(contractName);
-
-      // Prepare constructor parameters
-      let constructorParams: ContractFunctionParameters | undefined;
-      if (constructorArgs.length > 0) {
-        constructorParams = new ContractFunctionParameters();
-
-        // Add constructor arguments based on their types
-        for (const arg of constructorArgs) {
-          if (typeof arg === 'string' && arg.startsWith('0x') && arg.length === 42) {
-            // Address
-            constructorParams.addAddress(arg);
-          } else if (typeof arg === 'string') {
-            // String
-            constructorParams.addString(arg);
-          } else if (typeof arg === 'number' || typeof arg === 'bigint') {
-            // Number
-            constructorParams.addUint256(arg);
-          } else if (typeof arg === 'boolean') {
-            // Boolean
-            constructorParams.addBool(arg);
-          } else {
-            this.logger.warn(`Unknown constructor argument type for ${arg}, treating as string`);
-            constructorParams.addString(String(arg));
-          }
-        }
+      const { abi } = loadContractArtifact(artifactName);
+      const bytecode = loadLinkedBytecode(artifactName, libraries);
+      if (!bytecode || bytecode === '0x') {
+        throw new Error(`No bytecode found for contract ${contractName}`);
+      }
+      const bytecodeHash = hashBytecode(bytecode);
+
+      // Encode before uploading anything so invalid args fail fast
+      const constructorParams = encodeConstructorArgs(artifactName, abi, constructorArgs);
+
+      const journaled = getJournaledContract(journal, contractName, bytecodeHash, constructorArgs);
+      if (journaled) {
+        this.logger.info(`⏭️  ${contractName} already deployed at ${journaled.address}, skipping`);
+        return journaled;
+      }
+
+      // Upload bytecode to Hedera File Service unless an earlier run already did
+      const journalEntry = getJournalEntry(journal, contractName, bytecodeHash);
+      let fileId = journalEntry?.bytecodeFileId;
+      let bytecodeTransactions = journalEntry?.bytecodeTransactions ?? [];
+      if (fileId) {
+        this.logger.info(`♻️  Reusing uploaded bytecode file ${fileId}`);
+      } else {
+        ({ fileId, transactions: bytecodeTransactions } = await this.uploadContractBytecode(
+          contractName,
+          bytecode,
+        ));
+        recordJournalStep(
+          journal,
+          contractName,
+          { bytecodeHash, bytecodeFileId: fileId, bytecodeTransactions },
+          this.outputDir,
+        );
       }
 
       // Create contract
       this.logger.info('Creating contract on Hedera...');
       const contractCreateTx = new ContractCreateTransaction()
         .setBytecodeFileId(fileId)
-        .setGas(3000000) // 3M gas limit
-        .setMaxTransactionFee(new Hbar(20));
-
-      if (constructorParams) {
-        contractCreateTx.setConstructorParameters(constructorParams);
-      }
+        .setGas(gasLimit)
+        .setConstructorParameters(constructorParams)
+        .setMaxTransactionFee(new Hbar(MAX_TRANSACTION_FEES_HBAR.CONTRACT_CREATE));
 
       const contractCreateSign = await contractCreateTx.sign(this.operatorKey);
       const contractCreateSubmit = await contractCreateSign.execute(this.client);
-      const contractCreateReceipt = await contractCreateSubmit.getReceipt(this.client);
+      const contractCreate = await this.confirmTransaction(
+        contractCreateSubmit.transactionId.toString(),
+        'CONTRACT_CREATE',
+      );
 
-      const contractId = contractCreateReceipt.contractId;
+      const contractId = contractCreate.result.entityId;
       if (!contractId) {
         throw new Error('Failed to get contract ID from receipt');
       }
 
       // Get contract info for EVM address
-      const contractInfo = this.getContractInfo(contractId.toString());
+      const contractInfo = await getHederaContractInfo(this.client, contractId);
 
+      const fees = summarizeTransactionCosts([...bytecodeTransactions, contractCreate.cost]);
       const deployedContract: DeployedContract = {
         name: contractName,
         address: contractInfo.evmAddress,
+        contractId,
         transactionHash: contractCreateSubmit.transactionId.toString(),
-        blockNumber: 0, // Hedera doesn't use block numbers in the same way
-        gasUsed: '3000000', // Approximate gas used
-        deploymentTimestamp: Date.now(),
+        blockNumber: await this.getBlockNumber(contractCreateSubmit.transactionId.toString()),
+        gasUsed: contractCreate.cost.gasUsed,
+        deploymentTimestamp: consensusTimestampToDate(
+          contractCreate.cost.consensusTimestamp,
+        ).getTime(),
+        consensusTimestamp: contractCreate.cost.consensusTimestamp,
+        fees,
         constructorArgs,
+        bytecodeHash,
         verified: false,
       };
+      recordJournalStep(
+        journal,
+        contractName,
+        { bytecodeHash, bytecodeFileId: fileId, contractId, contract: deployedContract },
+        this.outputDir,
+      );
 
       this.logger.info(`✅ ${contractName} deployed successfully!`);
-      this.logger.info(`   Contract ID: ${contractId.toString()}`);
+      this.logger.info(`   Contract ID: ${contractId}`);
       this.logger.info(`   EVM Address: ${contractInfo.evmAddress}`);
       this.logger.info(`   Transaction ID: ${contractCreateSubmit.transactionId.toString()}`);
+      this.logger.info(`   Gas used: ${formatGas(deployedContract.gasUsed)}`);
+      this.logger.info(`   Fee charged: ${fees.totalFeeHbar}`);
 
       return deployedContract;
     } catch (error) {
@@ -217,34 +315,286 @@ class HederaContractDeployer {
   }
 
   /**
-   * Get contract information including EVM address
+   * Deploy an implementation and an ERC-1967 proxy that initializes it
    */
-  private getContractInfo(contractId: string): HederaContractInfo {
-    try {
-      // For now, we'll generate the EVM address from the contract ID
-      // In a real implementation, you would query the contract info from Hedera
-      const parts = contractId.split('.');
-      if (parts.length < 3 || !parts[2]) {
-        throw new Error(`Invalid contract ID format: ${contractId}`);
-      }
+  private async deployProxiedContract(
+    contract: ContractConfig,
+    constructorArgs: unknown[],
+    libraries: Record<string, string>,
+  ): Promise<DeployedContract> {
+    const initializerData = encodeInitializerCall(
+      contract.name,
+      loadContractArtifact(contract.name).abi,
+      constructorArgs,
+    );
+
+    const implementation = await this.deployContract(
+      contract.name,
+      constructorArgs,
+      contract.gasLimit,
+      contract.name,
+      libraries,
+    );
+    const proxy = await this.deployContract(
+      getProxyJournalKey(contract.name),
+      [implementation.address, initializerData],
+      contract.gasLimit,
+      PROXY_CONTRACT_NAME,
+    );
+    this.logger.info(
+      `🔀 ${contract.name} proxy ${proxy.address} points at implementation ${implementation.address}`,
+    );
+
+    return toProxiedContract(
+      contract.name,
+      implementation,
+      proxy,
+      loadStorageLayout(contract.name),
+    );
+  }
 
-      const contractNum = parseInt(parts[2]);
-      if (isNaN(contractNum)) {
-        throw new Error(`Invalid contract number in ID: ${contractId}`);
-      }
+  /**
+   * Upgrade a proxied contract to the current artifact, after checking its storage layout
+   *
+   * The new implementation is journaled, so a failed upgrade resumes on rerun.
+   */
+  public async upgrade(contractName: string): Promise<DeployedContract> {
+    const network = this.config.network.network;
+    const latest = loadLatestDeployment(network, this.outputDir);
+    const current = latest?.contracts[contractName];
+    if (!latest || !current) {
+      throw new DeploymentError(
+        `No ${contractName} deployment recorded for ${network}`,
+        'NOT_DEPLOYED',
+        { contractName, network },
+      );
+    }
+    if (!current.proxyAddress || !current.implementationAddress) {
+      throw new DeploymentError(
+        `${contractName} was not deployed behind a proxy and cannot be upgraded`,
+        'NOT_UPGRADEABLE',
+        { contractName },
+      );
+    }
 
-      // Convert contract number to EVM address format
-      const evmAddress = '0x' + contractNum.toString(16).padStart(40, '0');
+    const storageLayout = loadStorageLayout(contractName);
+    if (current.storageLayout) {
+      assertStorageLayoutCompatible(contractName, current.storageLayout, storageLayout);
+      this.logger.info(`✅ ${contractName} storage layout is compatible`);
+    } else {
+      this.logger.warn(`⚠️  No storage layout recorded for ${contractName}; skipping the check`);
+    }
 
-      return {
-        contractId,
-        evmAddress,
-      };
+    this.journal = this.openJournal();
+    const journalKey = `${contractName}:upgrade`;
+    const unfinished = Object.keys(this.journal.contracts).filter((key) => key !== journalKey);
+    if (unfinished.length > 0) {
+      throw new DeploymentError(
+        `An unfinished deployment of ${unfinished.join(', ')} is journaled; finish it or rerun with --fresh`,
+        'DEPLOYMENT_IN_PROGRESS',
+        { unfinished },
+      );
+    }
+
+    // Link the libraries recorded in the latest deployment
+    const libraries = resolveLibraries(
+      this.config.contracts[contractName]?.libraries ?? {},
+      Object.fromEntries(
+        Object.entries(latest.contracts).map(([name, contract]) => [name, contract.address]),
+      ),
+    );
+    const implementation = await this.deployContract(
+      journalKey,
+      current.constructorArgs ?? [],
+      this.config.contracts[contractName]?.gasLimit,
+      contractName,
+      libraries,
+    );
+
+    this.logger.info(
+      `⬆️  Upgrading ${contractName} proxy ${current.proxyAddress} to ${implementation.address}...`,
+    );
+    const { transactionId, cost } = await this.executeContractCall(
+      current.proxyAddress,
+      encodeUpgradeCall(implementation.address),
+    );
+    clearDeploymentJournal(network, this.outputDir);
+
+    const fee = BigInt(implementation.fees?.totalFee ?? 0) + BigInt(cost.fee);
+    const upgraded: DeployedContract = {
+      ...current,
+      implementationAddress: implementation.address,
+      storageLayout,
+      ...(implementation.bytecodeHash ? { bytecodeHash: implementation.bytecodeHash } : {}),
+      verified: false,
+      upgrades: [
+        ...(current.upgrades ?? []),
+        {
+          implementationAddress: implementation.address,
+          previousImplementationAddress: current.implementationAddress,
+          transactionId,
+          timestamp: consensusTimestampToDate(cost.consensusTimestamp).getTime(),
+          fee: fee.toString(),
+        },
+      ],
+    };
+    latest.contracts[contractName] = upgraded;
+    updateLatestDeployment(latest, this.outputDir, this.logger);
+
+    this.logger.info(`✅ ${contractName} upgraded (${transactionId}), fee ${formatHbar(fee)}`);
+    return upgraded;
+  }
+
+  /**
+   * Call a state-changing function on a deployed contract and wait for it to succeed
+   */
+  private async executeContractCall(
+    contractAddress: string,
+    data: string,
+  ): Promise<{ transactionId: string; cost: TransactionCost }> {
+    const transaction = await new ContractExecuteTransaction()
+      .setContractId(this.getContractId(contractAddress))
+      .setGas(POST_DEPLOYMENT_GAS_LIMIT)
+      .setFunctionParameters(getBytes(data))
+      .setMaxTransactionFee(new Hbar(MAX_TRANSACTION_FEES_HBAR.CONTRACT_CALL))
+      .freezeWith(this.client)
+      .sign(this.operatorKey);
+    const submitted = await transaction.execute(this.client);
+    const transactionId = submitted.transactionId.toString();
+    const { cost } = await this.confirmTransaction(transactionId, 'CONTRACT_CALL');
+    return { transactionId, cost };
+  }
+
+  /**
+   * Get the ContractId of a deployed contract, resolving EVM aliases in the operator's shard and realm
+   */
+  private getContractId(contractAddress: string): ContractId {
+    return toContractId(
+      contractAddress,
+      this.operatorId.shard.toNumber(),
+      this.operatorId.realm.toNumber(),
+    );
+  }
+
+  /**
+   * Load the journal of an unfinished deployment, or start a new one
+   */
+  private openJournal(): DeploymentJournal {
+    const network = this.config.network.network;
+    const deployer = this.operatorId.toString();
+
+    if (this.fresh) {
+      clearDeploymentJournal(network, this.outputDir);
+      this.logger.info('🧹 Discarded previous deployment journal');
+    }
+
+    const journal = loadDeploymentJournal(network, this.outputDir);
+    if (!journal) {
+      return createDeploymentJournal(network, deployer);
+    }
+
+    if (journal.deployer !== deployer) {
+      throw new DeploymentError(
+        `Deployment journal was written by ${journal.deployer}, not ${deployer}; rerun with --fresh to start over`,
+        'JOURNAL_MISMATCH',
+        { journalDeployer: journal.deployer, deployer },
+      );
+    }
+
+    this.logger.info(
+      `📒 Resuming deployment started ${new Date(journal.startedAt).toISOString()} (${Object.keys(journal.contracts).length} contracts journaled)`,
+    );
+    return journal;
+  }
+
+  private getJournal(): DeploymentJournal {
+    if (!this.journal) {
+      throw new DeploymentError('Deployment journal is not open', 'JOURNAL_NOT_OPEN');
+    }
+    return this.journal;
+  }
+
+  /**
+   * Wait for a submitted transaction's receipt, failing on any non-SUCCESS status,
+   * then fetch its record for the gas and fee actually charged
+   */
+  private async confirmTransaction(
+    transactionId: string,
+    type: DeploymentTransactionType,
+  ): Promise<{ result: HederaTransactionResult; cost: TransactionCost }> {
+    const result = await waitForHederaTransaction(
+      this.client,
+      transactionId,
+      this.config.network.timeout,
+      this.logger,
+    );
+    const cost = await getTransactionCost(this.client, transactionId, type);
+    this.logger.debug(`${type} ${transactionId} charged ${formatHbar(cost.fee)}`);
+    return { result, cost };
+  }
+
+  /**
+   * Look up the block a transaction was included in from the mirror node
+   */
+  private async getBlockNumber(transactionId: string): Promise<number> {
+    try {
+      this.mirrorNode ??= new MirrorNodeClient(this.config.network);
+      const contractResult = await this.mirrorNode.getContractResult(
+        toMirrorTransactionId(transactionId),
+      );
+      return contractResult.blockNumber;
+    } catch (error) {
+      this.logger.warn(`Could not look up block number for ${transactionId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Configured contracts ordered so dependencies are deployed first
+   */
+  private getContractSequence(): ContractConfig[] {
+    return orderContracts(this.config.contracts);
+  }
+
+  /**
+   * Look up the HBAR price in USD from the mirror node's exchange rate
+   */
+  private async getHbarPriceUsd(): Promise<number> {
+    try {
+      this.mirrorNode ??= new MirrorNodeClient(this.config.network);
+      const rate = await this.mirrorNode.getExchangeRate();
+      return rate.centEquivalent / rate.hbarEquivalent / 100;
     } catch (error) {
-      throw new Error(`Failed to get contract info for ${contractId}: ${error}`);
+      this.logger.warn(
+        `Could not fetch the HBAR exchange rate, estimating at $${FALLBACK_HBAR_PRICE_USD}:`,
+        error,
+      );
+      return FALLBACK_HBAR_PRICE_USD;
     }
   }
 
+  /**
+   * Preview the deployment without sending any transactions
+   */
+  public async plan(outputPath?: string): Promise<DeploymentPlan> {
+    const journal = this.fresh
+      ? null
+      : loadDeploymentJournal(this.config.network.network, this.outputDir);
+    const plan = createDeploymentPlan(this.getContractSequence(), {
+      network: this.config.network.network,
+      deployer: this.operatorId.toString(),
+      hbarPriceUsd: await this.getHbarPriceUsd(),
+      journal,
+    });
+
+    if (outputPath) {
+      fs.mkdirSync(path.dirname(path.resolve(outputPath)), { recursive: true });
+      fs.writeFileSync(outputPath, JSON.stringify(plan, null, 2));
+      this.logger.info(`📝 Deployment plan saved to ${outputPath}`);
+    }
+    return plan;
+  }
+
   /**
    * Deploy all contracts in the correct order
    */
@@ -258,63 +608,138 @@ class HederaContractDeployer {
     this.logger.info(`Operator Account: ${this.operatorId.toString()}`);
 
     try {
-      // 1. Deploy IdentityAttestation
-      const identityAttestation = await this.deployContract(
-        'IdentityAttestation',
-        this.config.contracts.identityAttestation.constructorArgs ?? [],
-      );
-      this.deploymentResult.contracts['IdentityAttestation'] = identityAttestation;
-
-      // 2. Deploy ProofVault
-      const proofVault = await this.deployContract(
-        'ProofVault',
-        this.config.contracts.proofVault.constructorArgs ?? [],
-      );
-      this.deploymentResult.contracts['ProofVault'] = proofVault;
-
-      // 3. Deploy LegalCaseManager with dependencies
-      const legalCaseManagerArgs = [proofVault.address, identityAttestation.address];
-
-      const legalCaseManager = await this.deployContract('LegalCaseManager', legalCaseManagerArgs);
-      this.deploymentResult.contracts['LegalCaseManager'] = legalCaseManager;
+      const addresses: Record<string, string> = {};
+      for (const contract of this.getContractSequence()) {
+        const constructorArgs = resolveConstructorArgs(contract.constructorArgs ?? [], addresses);
+        const libraries = resolveLibraries(contract.libraries ?? {}, addresses);
+        const deployed = contract.proxy
+          ? await this.deployProxiedContract(contract, constructorArgs, libraries)
+          : await this.deployContract(
+              contract.name,
+              constructorArgs,
+              contract.gasLimit,
+              contract.name,
+              libraries,
+            );
+        this.deploymentResult.contracts[contract.name] = deployed;
+        addresses[contract.name] = deployed.address;
+      }
 
       this.logger.info('\n🎉 All contracts deployed successfully!');
 
-      // Calculate total gas used
-      let totalGasUsed = BigInt(0);
-      for (const contract of Object.values(this.deploymentResult.contracts)) {
-        totalGasUsed += BigInt(contract.gasUsed);
-      }
+      // Calculate total gas used and fees charged
+      const totalGasUsed = calculateTotalGasUsed(this.deploymentResult);
+      const totalFee = calculateTotalFee(this.deploymentResult);
       this.deploymentResult.totalGasUsed = totalGasUsed.toString();
+      this.deploymentResult.totalFee = totalFee.toString();
+      this.deploymentResult.totalFeeHbar = formatHbar(totalFee);
 
       this.logger.info(`Total gas used: ${formatGas(totalGasUsed)}`);
+      this.logger.info(`Total fee charged: ${formatHbar(totalFee)}`);
     } catch (error) {
       this.deploymentResult.error = error instanceof Error ? error.message : String(error);
       throw error;
     }
   }
 
+  /**
+   * Grant configured roles and set verification fees on the deployed contracts
+   */
+  private async configureContracts(): Promise<void> {
+    const addresses = Object.fromEntries(
+      Object.entries(this.deploymentResult.contracts).map(([name, contract]) => [
+        name,
+        contract.address,
+      ]),
+    );
+    const actions = createPostDeploymentActions(this.config.postDeployment ?? {}, addresses);
+    if (actions.length === 0) {
+      return;
+    }
+
+    this.logger.info(`\n🔧 Applying ${actions.length} post-deployment actions...`);
+    this.deploymentResult.postDeployment = actions;
+
+    const executor: PostDeploymentExecutor = {
+      call: async (action, data) => {
+        const result = await new ContractCallQuery()
+          .setContractId(this.getContractId(action.contractAddress))
+          .setGas(POST_DEPLOYMENT_GAS_LIMIT)
+          .setFunctionParameters(getBytes(data))
+          .execute(this.client);
+        return hexlify(result.bytes);
+      },
+      execute: async (action, data) => {
+        const { transactionId, cost } = await this.executeContractCall(
+          action.contractAddress,
+          data,
+        );
+        return { transactionId, fee: cost.fee };
+      },
+    };
+    await applyPostDeploymentActions(actions, executor, this.logger);
+
+    const totalFee = calculateTotalFee(this.deploymentResult);
+    this.deploymentResult.totalFee = totalFee.toString();
+    this.deploymentResult.totalFeeHbar = formatHbar(totalFee);
+
+    const applied = actions.filter((action) => action.status === 'applied').length;
+    this.logger.info(
+      `Post-deployment configuration completed: ${applied} applied, ${actions.length - applied} already in place`,
+    );
+  }
+
   /**
    * Verify contracts on block explorer
    */
-  private verifyContracts(): void {
-    if (!this.config.verification?.enabled) {
+  private async verifyContracts(): Promise<void> {
+    const verification = this.config.verification;
+    if (!verification?.enabled || !verification.apiUrl) {
       this.logger.info('Contract verification is disabled');
       return;
     }
+    if (this.config.network.hederaNetwork === 'local') {
+      this.logger.info('Contract verification is skipped on the local network');
+      return;
+    }
 
     this.logger.info('\n🔍 Starting contract verification...');
 
-    // Note: Hedera doesn't have a standard block explorer verification API like Etherscan
-    // This would need to be implemented based on the specific block explorer being used
-    // For now, we'll just mark contracts as verified
+    // Give the JSON-RPC relay time to serve the new contracts' bytecode
+    await sleep(verification.delay ?? 0);
+
+    const verifier = new SourcifyVerifier({
+      apiUrl: verification.apiUrl,
+      chainId: this.config.network.chainId,
+      logger: this.logger,
+    });
 
+    let verifiedCount = 0;
     for (const [name, contract] of Object.entries(this.deploymentResult.contracts)) {
-      this.logger.info(`Marking ${name} as verified (placeholder implementation)`);
-      contract.verified = true;
+      if (this.config.contracts[name]?.verify === false) {
+        this.logger.info(`Skipping verification of ${name}`);
+        continue;
+      }
+
+      try {
+        // Proxied contracts are verified at their implementation, where the code lives
+        const result = await verifier.verify({
+          contractAddress: contract.implementationAddress ?? contract.address,
+          contractName: name,
+          constructorArgs: contract.constructorArgs ?? [],
+        });
+        contract.verified = true;
+        verifiedCount++;
+        this.logger.info(`✅ ${name} verified (${result.status} match)`);
+      } catch (error) {
+        // Verification can be retried later with `npm run verify`
+        this.logger.warn(`⚠️  ${name} could not be verified:`, error);
+      }
     }
 
-    this.logger.info('✅ Contract verification completed');
+    this.logger.info(
+      `Contract verification completed: ${verifiedCount}/${Object.keys(this.deploymentResult.contracts).length} verified`,
+    );
   }
 
   /**
@@ -324,13 +749,16 @@ class HederaContractDeployer {
     const startTime = Date.now();
 
     try {
+      this.journal = this.openJournal();
       await this.deployAllContracts();
+      await this.configureContracts();
 
       if (this.config.verification?.enabled) {
-        this.verifyContracts();
+        await this.verifyContracts();
       }
 
       this.deploymentResult.success = true;
+      clearDeploymentJournal(this.config.network.network, this.outputDir);
 
       const duration = Date.now() - startTime;
       this.logger.info(`\n⏱️  Deployment completed in ${duration}ms`);
@@ -338,11 +766,16 @@ class HederaContractDeployer {
       this.deploymentResult.success = false;
       this.deploymentResult.error = error instanceof Error ? error.message : String(error);
       this.logger.error('\n💥 Deployment failed:', error);
+      if (this.journal) {
+        this.logger.info(
+          `📒 Progress saved to ${getDeploymentJournalPath(this.config.network.network, this.outputDir)}; rerun to resume`,
+        );
+      }
     }
 
     // Save deployment result
     try {
-      saveDeploymentResult(this.deploymentResult, config.getDeploymentOutputDir(), this.logger);
+      saveDeploymentResult(this.deploymentResult, this.outputDir, this.logger);
     } catch (error) {
       this.logger.error('Failed to save deployment result:', error);
     }
@@ -351,16 +784,116 @@ class HederaContractDeployer {
   }
 }
 
+interface DeployArgs {
+  networkName?: string;
+  fresh: boolean;
+  plan: boolean;
+  outputPath?: string;
+  manifestPath?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): DeployArgs {
+  const args: DeployArgs = { fresh: false, plan: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    switch (arg) {
+      case '--fresh':
+        args.fresh = true;
+        break;
+      case '--plan':
+        args.plan = true;
+        break;
+      case '--out':
+      case '--manifest': {
+        const value = argv[++i];
+        if (!value) {
+          throw new Error(`Missing value for ${arg}`);
+        }
+        if (arg === '--out') {
+          args.outputPath = value;
+        } else {
+          args.manifestPath = value;
+        }
+        break;
+      }
+      default:
+        if (arg.startsWith('--') || args.networkName) {
+          throw new Error(
+            'Usage: deploy [network] [--manifest <file>] [--fresh] [--plan [--out <file>]]',
+          );
+        }
+        args.networkName = arg;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Print a deployment plan as a table of steps
+ */
+function printPlan(plan: DeploymentPlan): void {
+  console.log(`📋 Deployment plan for ${plan.network} (deployer ${plan.deployer})`);
+  console.log(`HBAR price used for estimates: $${plan.hbarPriceUsd}\n`);
+
+  for (const contract of plan.contracts) {
+    console.log(`${contract.name} [${contract.action}]`);
+    console.log(
+      `   Bytecode: ${contract.bytecodeSize.toLocaleString()} bytes, ${contract.fileAppendChunks} FileAppend chunks`,
+    );
+    console.log(`   Constructor args: ${JSON.stringify(contract.constructorArgs)}`);
+    if (contract.proxy) {
+      console.log('   Deployed behind an ERC-1967 proxy, initialized with these args');
+    }
+    if (contract.address) {
+      console.log(`   Already deployed at ${contract.address}`);
+    }
+    for (const step of contract.steps) {
+      const detail = step.gasLimit
+        ? `gas limit ${formatGas(BigInt(step.gasLimit))}`
+        : `${step.bytes ?? 0} bytes`;
+      console.log(
+        `   - ${step.type.padEnd(15)} ${detail.padEnd(22)} ~${formatHbar(step.estimatedFee)} (max ${formatHbar(step.maxFee)})`,
+      );
+    }
+    console.log(`   Estimated: ${formatHbar(contract.estimatedFee)}\n`);
+  }
+
+  console.log(`Total estimated fee: ${plan.totalEstimatedFeeHbar}`);
+  console.log(`Total max fee: ${plan.totalMaxFeeHbar}`);
+}
+
 /**
  * Main deployment function
  */
 async function main(): Promise<void> {
-  const networkName = process.argv[2] ?? process.env['NETWORK'];
+  let args: DeployArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
 
   console.log('🌟 ProofVault Hedera Deployment Script');
   console.log('======================================\n');
 
-  const deployer = new HederaContractDeployer(networkName);
+  const deployer = new HederaContractDeployer(args.networkName, {
+    fresh: args.fresh,
+    ...(args.manifestPath ? { manifestPath: args.manifestPath } : {}),
+  });
+
+  if (args.plan) {
+    printPlan(await deployer.plan(args.outputPath));
+    process.exit(0);
+  }
+
   const result = await deployer.deploy();
 
   if (result.success) {
@@ -369,8 +902,14 @@ async function main(): Promise<void> {
     for (const [name, contract] of Object.entries(result.contracts)) {
       const deployedContract = contract;
       console.log(`${name}: ${deployedContract.address}`);
+      if (deployedContract.fees) {
+        console.log(
+          `   Gas used: ${formatGas(deployedContract.gasUsed)}, fee: ${deployedContract.fees.totalFeeHbar}`,
+        );
+      }
     }
     console.log(`\nTotal gas used: ${formatGas(result.totalGasUsed)}`);
+    console.log(`Total fee charged: ${result.totalFeeHbar ?? formatHbar('0')}`);
     process.exit(0);
   } else {
     console.error('\n💀 Deployment failed!');
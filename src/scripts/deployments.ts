@@ -0,0 +1,255 @@
+#!/usr/bin/env node
+
+/**
+ * Deployment history browser for ProofVault
+ *
+ * Lists saved deployments per network, shows or diffs them, and rolls
+ * `latest-<network>.json` back to an earlier deployment.
+ */
+
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import {
+  diffDeployments,
+  listDeploymentHistory,
+  loadDeploymentRecord,
+  migrateDeploymentHistory,
+  rollbackLatestDeployment,
+} from '../history';
+import type { DeploymentDiff, DeploymentResult, ValueChange } from '../types';
+import { ConsoleLogger, formatGas, formatHbar } from '../utils';
+
+type DeploymentsCommand = 'list' | 'show' | 'diff' | 'rollback' | 'migrate';
+
+const USAGE = [
+  'Usage:',
+  '  deployments list [--network <name>]',
+  '  deployments show [id|latest] [--network <name>] [--json]',
+  '  deployments diff <from> [to] [--network <name>] [--json]',
+  '  deployments rollback <id> [--network <name>]',
+  '  deployments migrate [--network <name>]',
+].join('\n');
+
+interface DeploymentsArgs {
+  command: DeploymentsCommand;
+  refs: string[];
+  networkName?: string;
+  json: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): DeploymentsArgs {
+  const positional: string[] = [];
+  let networkName: string | undefined;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--network') {
+      networkName = argv[++i];
+      if (!networkName) {
+        throw new Error(`Missing value for ${arg}\n${USAGE}`);
+      }
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...refs] = positional;
+  const maxRefs: Record<DeploymentsCommand, number> = {
+    list: 0,
+    show: 1,
+    diff: 2,
+    rollback: 1,
+    migrate: 0,
+  };
+  const minRefs: Record<DeploymentsCommand, number> = {
+    list: 0,
+    show: 0,
+    diff: 1,
+    rollback: 1,
+    migrate: 0,
+  };
+  if (
+    !command ||
+    !(command in maxRefs) ||
+    refs.length > maxRefs[command as DeploymentsCommand] ||
+    refs.length < minRefs[command as DeploymentsCommand]
+  ) {
+    throw new Error(USAGE);
+  }
+
+  return {
+    command: command as DeploymentsCommand,
+    refs,
+    ...(networkName ? { networkName } : {}),
+    json,
+  };
+}
+
+function formatChange<T>(change: ValueChange<T>): string {
+  const format = (value: T): string =>
+    value === undefined ? '(none)' : typeof value === 'string' ? value : JSON.stringify(value);
+  return `${format(change.from)} → ${format(change.to)}`;
+}
+
+function formatDelta(delta: string): string {
+  return delta.startsWith('-') ? delta : `+${delta}`;
+}
+
+function printDeployment(deployment: DeploymentResult): void {
+  console.log(`Network: ${deployment.network}`);
+  console.log(`Deployer: ${deployment.deployer}`);
+  console.log(`Deployed: ${new Date(deployment.timestamp).toISOString()}`);
+  console.log(`Status: ${deployment.success ? 'succeeded' : `failed (${deployment.error})`}`);
+
+  for (const contract of Object.values(deployment.contracts)) {
+    console.log(`\n📄 ${contract.name}: ${contract.address}`);
+    if (contract.implementationAddress) {
+      console.log(`   Implementation: ${contract.implementationAddress}`);
+    }
+    if (contract.bytecodeHash) {
+      console.log(`   Bytecode hash: ${contract.bytecodeHash}`);
+    }
+    if (contract.constructorArgs?.length) {
+      console.log(`   Constructor args: ${JSON.stringify(contract.constructorArgs)}`);
+    }
+    console.log(`   Gas used: ${formatGas(contract.gasUsed)}`);
+  }
+
+  console.log(`\nTotal gas used: ${formatGas(deployment.totalGasUsed)}`);
+  if (deployment.totalFee) {
+    console.log(`Total fee: ${formatHbar(deployment.totalFee)}`);
+  }
+}
+
+function printDiff(diff: DeploymentDiff): void {
+  console.log(
+    `Comparing ${new Date(diff.from.timestamp).toISOString()} → ${new Date(diff.to.timestamp).toISOString()}`,
+  );
+
+  for (const contract of diff.contracts) {
+    console.log(`\n📄 ${contract.name}: ${contract.status}`);
+    if (contract.address) {
+      console.log(`   Address: ${formatChange(contract.address)}`);
+    }
+    if (contract.implementationAddress) {
+      console.log(`   Implementation: ${formatChange(contract.implementationAddress)}`);
+    }
+    if (contract.bytecodeHash) {
+      console.log(`   Bytecode hash: ${formatChange(contract.bytecodeHash)}`);
+    }
+    if (contract.constructorArgs) {
+      console.log(`   Constructor args: ${formatChange(contract.constructorArgs)}`);
+    }
+    console.log(
+      `   Gas used: ${formatChange(contract.gasUsed)} (${formatDelta(contract.gasUsed.delta)})`,
+    );
+  }
+
+  console.log(
+    `\nTotal gas used: ${formatChange(diff.totalGasUsed)} (${formatDelta(diff.totalGasUsed.delta)})`,
+  );
+}
+
+/**
+ * Main deployment history function
+ */
+function main(): void {
+  let args: DeploymentsArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const outputDir = config.getDeploymentOutputDir(args.networkName);
+  const network = args.networkName ?? config.loadConfig().network;
+
+  switch (args.command) {
+    case 'list': {
+      const entries = listDeploymentHistory(outputDir, args.networkName);
+      if (entries.length === 0) {
+        console.log(`No deployments found in ${outputDir}`);
+        return;
+      }
+
+      let currentNetwork: string | undefined;
+      for (const entry of entries) {
+        if (entry.network !== currentNetwork) {
+          currentNetwork = entry.network;
+          console.log(`\n🌐 ${currentNetwork}`);
+        }
+        const status = entry.success ? '✅' : '❌';
+        const fee = entry.totalFee ? `, ${formatHbar(entry.totalFee)}` : '';
+        const latest = entry.latest ? ' (latest)' : '';
+        console.log(
+          `   ${status} ${entry.id}  ${new Date(entry.timestamp).toISOString()}  ${entry.contracts.join(', ')}${fee}${latest}`,
+        );
+      }
+      return;
+    }
+
+    case 'show': {
+      const deployment = loadDeploymentRecord(network, outputDir, args.refs[0] ?? 'latest');
+      if (args.json) {
+        console.log(JSON.stringify(deployment, null, 2));
+      } else {
+        printDeployment(deployment);
+      }
+      return;
+    }
+
+    case 'diff': {
+      const diff = diffDeployments(
+        loadDeploymentRecord(network, outputDir, args.refs[0] ?? 'latest'),
+        loadDeploymentRecord(network, outputDir, args.refs[1] ?? 'latest'),
+      );
+      if (args.json) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        printDiff(diff);
+      }
+      return;
+    }
+
+    case 'rollback': {
+      const logger = new ConsoleLogger(config.getLogLevel());
+      const deployment = rollbackLatestDeployment(network, outputDir, args.refs[0] ?? '', logger);
+      console.log(
+        `⏪ latest-${network}.json now points at the deployment from ${new Date(deployment.timestamp).toISOString()}`,
+      );
+      return;
+    }
+
+    case 'migrate': {
+      const logger = new ConsoleLogger(config.getLogLevel());
+      const migrated = migrateDeploymentHistory(outputDir, args.networkName, logger);
+      console.log(
+        migrated.length > 0
+          ? `✅ Migrated ${migrated.length} deployment file(s)`
+          : '✅ All deployment files are up to date',
+      );
+    }
+  }
+}
+
+// Run the command if this script is executed directly
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+export { main as deploymentsMain };
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Event indexing script for ProofVault
+ *
+ * Indexes events from the deployed contracts into a local SQLite database,
+ * resuming from the stored checkpoint. With `--watch` it keeps polling for
+ * new blocks until interrupted.
+ */
+
+import { JsonRpcProvider } from 'ethers';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import { EventIndexer } from '../indexer';
+import type { IndexerOptions } from '../types';
+import { ConsoleLogger, getDeploymentAddresses, loadLatestDeployment, sleep } from '../utils';
+
+interface IndexEventsArgs {
+  startBlock?: number;
+  toBlock?: number;
+  databasePath?: string;
+  watch: boolean;
+  intervalMs: number;
+  networkName?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): IndexEventsArgs {
+  const args: IndexEventsArgs = { watch: false, intervalMs: 5000 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--watch') {
+      args.watch = true;
+      continue;
+    }
+
+    const value = argv[++i];
+    if (!value) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    switch (arg) {
+      case '--from':
+        args.startBlock = parseInt(value, 10);
+        break;
+      case '--to':
+        args.toBlock = parseInt(value, 10);
+        break;
+      case '--db':
+        args.databasePath = value;
+        break;
+      case '--interval':
+        args.intervalMs = parseInt(value, 10);
+        break;
+      case '--network':
+        args.networkName = value;
+        break;
+      default:
+        throw new Error(
+          'Usage: index-events [--from <block>] [--to <block>] [--db <path>] [--watch] [--interval <ms>] [--network <name>]',
+        );
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Main event indexing function
+ */
+async function main(): Promise<void> {
+  console.log('🗂️  ProofVault Event Indexer');
+  console.log('===========================\n');
+
+  let args: IndexEventsArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const logger = new ConsoleLogger(config.getLogLevel());
+  const networkConfig = config.getNetworkConfig(args.networkName);
+  const deployment = loadLatestDeployment(
+    networkConfig.network,
+    networkConfig.outputDir ?? config.getDeploymentOutputDir(networkConfig.network),
+  );
+  if (!deployment) {
+    console.error(`Error: No deployment found for network ${networkConfig.network}`);
+    process.exit(1);
+  }
+
+  const options: IndexerOptions = {
+    ...config.getIndexerConfig(),
+    addresses: getDeploymentAddresses(deployment),
+    logger,
+  };
+  if (args.databasePath) {
+    options.databasePath = args.databasePath;
+  }
+  if (args.startBlock !== undefined) {
+    options.startBlock = args.startBlock;
+  }
+
+  const indexer = new EventIndexer(
+    new JsonRpcProvider(networkConfig.rpcUrl, networkConfig.chainId),
+    options,
+  );
+  await indexer.initialize();
+
+  let stopping = false;
+  process.on('SIGINT', () => {
+    stopping = true;
+  });
+
+  try {
+    do {
+      const result = await indexer.sync(args.toBlock);
+      if (result.reorgedTo !== undefined) {
+        logger.warn(`↩️  Rolled back reorganized blocks after ${result.reorgedTo}`);
+      }
+      if (result.eventsIndexed > 0 || !args.watch) {
+        logger.info(
+          `✅ Indexed ${result.eventsIndexed} events in blocks ${result.fromBlock}-${result.toBlock}`,
+        );
+      }
+      if (args.watch && !stopping) {
+        await sleep(args.intervalMs);
+      }
+    } while (args.watch && !stopping);
+  } finally {
+    indexer.close();
+  }
+
+  logger.info(`💾 Index saved to ${options.databasePath}`);
+}
+
+// Run indexer if this script is executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { main as indexEventsMain };
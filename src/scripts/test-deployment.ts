@@ -1,185 +1,343 @@
 #!/usr/bin/env node
 
 /**
- * Test script to verify Hedera deployment functionality
+ * Preflight checks and post-deployment smoke tests for Hedera deployments
+ *
+ * By default, validates the configuration and contract artifacts, then queries
+ * the target network (operator balance and key, node version, clock skew, RPC
+ * chain ID). `smoke` mode instead runs an end-to-end scenario against the
+ * contracts in `latest-<network>.json`. Pass `--json` for a machine-readable
+ * report; the exit code is 1 only when a check or scenario step fails.
  */
 
-import { AccountId, Client, PrivateKey } from '@hashgraph/sdk';
-import { config } from '../config';
-import { ConsoleLogger, isValidHederaAccountId, isValidHederaPrivateKey } from '../utils';
+import { AccountId, PrivateKey } from '@hashgraph/sdk';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import { createHederaPreflightProbe, runPreflightChecks, summarizePreflight } from '../preflight';
+import { runSmokeTest } from '../smoke';
+import type { PreflightCheckResult, PreflightReport, SmokeTestReport } from '../types';
+import { DeploymentError } from '../types';
+import {
+  ConsoleLogger,
+  createHederaClient,
+  getDeploymentAddresses,
+  isValidHederaAccountId,
+  isValidHederaPrivateKey,
+  loadLatestDeployment,
+} from '../utils';
+import { HederaContractDeployer } from './deploy';
+
+const STATUS_ICONS: Record<PreflightCheckResult['status'], string> = {
+  pass: '✅',
+  warn: '⚠️',
+  fail: '❌',
+};
 
 class DeploymentTester {
   private logger: ConsoleLogger;
   private networkName: string;
+  private operatorId?: string;
 
-  constructor(networkName?: string) {
-    this.networkName = networkName ?? 'testnet';
-    this.logger = new ConsoleLogger('info');
+  constructor(networkName?: string, logger?: ConsoleLogger) {
+    this.networkName = networkName ?? config.loadConfig().network;
+    this.logger = logger ?? new ConsoleLogger('info');
   }
 
   /**
-   * Test Hedera client connection
+   * Query the network with the operator account and compare it against the deployment plan
    */
-  testHederaConnection(): boolean {
-    this.logger.info('🔗 Testing Hedera client connection...');
+  async runLiveChecks(): Promise<PreflightCheckResult[]> {
+    this.logger.info('🔗 Querying the Hedera network...');
 
-    try {
-      const hederaConfig = config.getHederaClientConfig(this.networkName);
-
-      // Validate configuration
-      if (!isValidHederaAccountId(hederaConfig.operatorId)) {
-        throw new Error(`Invalid operator ID format: ${hederaConfig.operatorId}`);
-      }
-
-      if (!isValidHederaPrivateKey(hederaConfig.operatorKey)) {
-        throw new Error('Invalid operator key format');
-      }
-
-      // Create client
-      const client = hederaConfig.network === 'testnet' ? Client.forTestnet() : Client.forMainnet();
-
-      const operatorKey = PrivateKey.fromString(hederaConfig.operatorKey);
-      const operatorId = AccountId.fromString(hederaConfig.operatorId);
+    const deploymentConfig = config.getDeploymentConfig(this.networkName);
+    const hederaConfig = config.getHederaClientConfig(this.networkName);
+    if (!isValidHederaAccountId(hederaConfig.operatorId)) {
+      throw new Error(`Invalid operator ID format: ${hederaConfig.operatorId}`);
+    }
+    if (!isValidHederaPrivateKey(hederaConfig.operatorKey)) {
+      throw new Error('Invalid operator key format');
+    }
+    this.operatorId = hederaConfig.operatorId;
 
-      client.setOperator(operatorId, operatorKey);
+    let estimatedFee: bigint;
+    let maxFee: bigint;
+    try {
+      const plan = await new HederaContractDeployer(this.networkName).plan();
+      estimatedFee = BigInt(plan.totalEstimatedFee);
+      maxFee = BigInt(plan.totalMaxFee);
+    } catch (error) {
+      return [
+        {
+          name: 'deployment-plan',
+          status: 'fail',
+          message: `Could not estimate the deployment cost: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ];
+    }
 
-      // Test connection by querying account balance
-      this.logger.info(`Operator Account: ${operatorId.toString()}`);
-      this.logger.info(`Network: ${hederaConfig.network}`);
+    const operatorKey = PrivateKey.fromString(hederaConfig.operatorKey);
+    const client = createHederaClient(hederaConfig);
+    client.setOperator(AccountId.fromString(hederaConfig.operatorId), operatorKey);
 
-      // Close client
+    try {
+      return await runPreflightChecks(
+        createHederaPreflightProbe(client, hederaConfig.operatorId, deploymentConfig.network),
+        {
+          operatorId: hederaConfig.operatorId,
+          operatorPublicKey: operatorKey.publicKey.toStringRaw(),
+          estimatedFee,
+          maxFee,
+          expectedChainId: deploymentConfig.network.chainId,
+        },
+      );
+    } finally {
       client.close();
-
-      this.logger.info('✅ Hedera connection test passed');
-      return true;
-    } catch (error) {
-      this.logger.error('❌ Hedera connection test failed:', error);
-      return false;
     }
   }
 
   /**
    * Test contract compilation
    */
-  async testContractCompilation(): Promise<boolean> {
+  async testContractCompilation(): Promise<PreflightCheckResult> {
     this.logger.info('🔨 Testing contract compilation...');
 
-    try {
-      const { loadContractArtifact } = await import('../utils');
-
-      // Test loading each contract artifact
-      const contracts = ['IdentityAttestation', 'ProofVault', 'LegalCaseManager'];
+    const { loadContractArtifact } = await import('../utils');
+    const contracts = ['IdentityAttestation', 'ProofVault', 'LegalCaseLib', 'LegalCaseManager'];
 
-      for (const contractName of contracts) {
-        try {
-          const artifact = loadContractArtifact(contractName);
+    for (const contractName of contracts) {
+      const artifact = loadContractArtifact(contractName);
 
-          if (!artifact.abi || !artifact.bytecode) {
-            throw new Error(`Invalid artifact for ${contractName}`);
-          }
-
-          if (artifact.bytecode === '0x') {
-            throw new Error(`No bytecode found for ${contractName}`);
-          }
-
-          this.logger.info(`✅ ${contractName} artifact loaded successfully`);
-        } catch (error) {
-          this.logger.error(`❌ Failed to load ${contractName} artifact:`, error);
-          return false;
-        }
+      if (!artifact.abi || !artifact.bytecode) {
+        throw new Error(`Invalid artifact for ${contractName}`);
       }
 
-      this.logger.info('✅ Contract compilation test passed');
-      return true;
-    } catch (error) {
-      this.logger.error('❌ Contract compilation test failed:', error);
-      return false;
+      if (artifact.bytecode === '0x') {
+        throw new Error(`No bytecode found for ${contractName}`);
+      }
     }
+
+    return {
+      name: 'contract-artifacts',
+      status: 'pass',
+      message: `Artifacts loaded for ${contracts.join(', ')}`,
+    };
   }
 
   /**
    * Test configuration validation
    */
-  testConfiguration(): boolean {
+  testConfiguration(): PreflightCheckResult {
     this.logger.info('⚙️ Testing configuration...');
 
-    try {
-      const deploymentConfig = config.getDeploymentConfig(this.networkName);
-
-      // Validate configuration
-      config.validateConfig(deploymentConfig);
+    const deploymentConfig = config.getDeploymentConfig(this.networkName);
 
-      this.logger.info(`Network: ${deploymentConfig.network.network}`);
-      this.logger.info(`RPC URL: ${deploymentConfig.network.rpcUrl}`);
-      this.logger.info(`Chain ID: ${deploymentConfig.network.chainId}`);
+    // Validate configuration
+    config.validateConfig(deploymentConfig);
 
-      // Check if all required contracts are configured
-      const requiredContracts = ['identityAttestation', 'proofVault', 'legalCaseManager'];
-      for (const contractKey of requiredContracts) {
-        if (!deploymentConfig.contracts[contractKey as keyof typeof deploymentConfig.contracts]) {
-          throw new Error(`Missing configuration for contract: ${contractKey}`);
-        }
+    // Check if all required contracts are configured
+    const requiredContracts = [
+      'IdentityAttestation',
+      'ProofVault',
+      'LegalCaseLib',
+      'LegalCaseManager',
+    ];
+    for (const contractName of requiredContracts) {
+      if (!deploymentConfig.contracts[contractName]) {
+        throw new Error(`Missing configuration for contract: ${contractName}`);
       }
-
-      this.logger.info('✅ Configuration test passed');
-      return true;
-    } catch (error) {
-      this.logger.error('❌ Configuration test failed:', error);
-      return false;
     }
+
+    return {
+      name: 'configuration',
+      status: 'pass',
+      message: `${deploymentConfig.network.network} at ${deploymentConfig.network.rpcUrl} (chain ID ${deploymentConfig.network.chainId})`,
+    };
   }
 
   /**
-   * Run all tests
+   * Run all checks and collect them into a report
+   *
+   * Live checks are skipped when the configuration is invalid.
    */
-  async runAllTests(): Promise<boolean> {
-    this.logger.info('🧪 Running ProofVault deployment tests...');
+  async runAllTests(): Promise<PreflightReport> {
+    this.logger.info('🧪 Running ProofVault preflight checks...');
     this.logger.info(`Target network: ${this.networkName}\n`);
 
-    const tests = [
-      { name: 'Configuration', test: () => this.testConfiguration() },
-      { name: 'Contract Compilation', test: () => this.testContractCompilation() },
-      { name: 'Hedera Connection', test: () => this.testHederaConnection() },
+    const tests: { name: string; test: () => Promise<PreflightCheckResult[]> }[] = [
+      { name: 'configuration', test: () => Promise.resolve([this.testConfiguration()]) },
+      { name: 'contract-artifacts', test: async () => [await this.testContractCompilation()] },
+      { name: 'network', test: () => this.runLiveChecks() },
     ];
 
-    let allPassed = true;
-
+    const checks: PreflightCheckResult[] = [];
     for (const { name, test } of tests) {
+      if (name === 'network' && checks[0]?.status === 'fail') {
+        this.logger.warn('Skipping network checks until the configuration is valid');
+        continue;
+      }
+
+      let results: PreflightCheckResult[];
       try {
-        const passed = await test();
-        if (!passed) {
-          allPassed = false;
-        }
+        results = await test();
       } catch (error) {
-        this.logger.error(`Test ${name} threw an error:`, error);
-        allPassed = false;
+        results = [
+          { name, status: 'fail', message: error instanceof Error ? error.message : String(error) },
+        ];
+      }
+
+      for (const result of results) {
+        const line = `${STATUS_ICONS[result.status]} ${result.name}: ${result.message}`;
+        if (result.status === 'pass') {
+          this.logger.info(line);
+        } else if (result.status === 'warn') {
+          this.logger.warn(line);
+        } else {
+          this.logger.error(line);
+        }
       }
+      checks.push(...results);
       this.logger.info(''); // Add spacing between tests
     }
 
-    if (allPassed) {
-      this.logger.info('🎉 All tests passed! Ready for deployment.');
+    const report: PreflightReport = {
+      network: this.networkName,
+      checkedAt: Date.now(),
+      status: summarizePreflight(checks),
+      checks,
+    };
+    if (this.operatorId) {
+      report.operatorId = this.operatorId;
+    }
+
+    if (report.status === 'pass') {
+      this.logger.info('🎉 All checks passed! Ready for deployment.');
+    } else if (report.status === 'warn') {
+      this.logger.warn('⚠️ Checks passed with warnings. Review them before deploying.');
+    } else {
+      this.logger.error('💥 Some checks failed. Please fix the issues before deploying.');
+    }
+
+    return report;
+  }
+
+  /**
+   * Run the smoke scenario against the latest deployment with the operator key
+   */
+  async runSmokeTest(): Promise<SmokeTestReport> {
+    const networkConfig = config.getNetworkConfig(this.networkName);
+    const deployment = loadLatestDeployment(
+      networkConfig.network,
+      networkConfig.outputDir ?? config.getDeploymentOutputDir(networkConfig.network),
+    );
+    if (!deployment) {
+      throw new DeploymentError(
+        `No deployment found for network ${networkConfig.network}; deploy before running smoke tests`,
+        'NOT_DEPLOYED',
+      );
+    }
+
+    const signer = new Wallet(
+      networkConfig.operatorKey,
+      new JsonRpcProvider(networkConfig.rpcUrl, networkConfig.chainId),
+    );
+    const report = await runSmokeTest(signer, getDeploymentAddresses(deployment), {
+      network: networkConfig.network,
+      logger: this.logger,
+    });
+
+    if (report.status === 'pass') {
+      this.logger.info('🎉 Smoke test passed.');
+    } else if (report.status === 'warn') {
+      this.logger.warn('⚠️ Smoke test passed, but cleanup did not finish.');
     } else {
-      this.logger.error('💥 Some tests failed. Please fix the issues before deploying.');
+      this.logger.error('💥 Smoke test failed.');
     }
+    return report;
+  }
+}
+
+interface TestDeploymentArgs {
+  smoke: boolean;
+  networkName?: string;
+  json: boolean;
+  outputPath?: string;
+}
 
-    return allPassed;
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): TestDeploymentArgs {
+  const positional: string[] = [];
+  let json = false;
+  let outputPath: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--output') {
+      outputPath = argv[++i];
+      if (!outputPath) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(
+        `Unknown option ${arg}\nUsage: test-deployment [smoke] [network] [--json] [--output <file>]`,
+      );
+    } else {
+      positional.push(arg);
+    }
   }
+
+  const smoke = positional[0] === 'smoke';
+  const networkName = positional[smoke ? 1 : 0];
+  return {
+    smoke,
+    ...(networkName ? { networkName } : {}),
+    json,
+    ...(outputPath ? { outputPath } : {}),
+  };
 }
 
 /**
  * Main test function
  */
 async function main(): Promise<void> {
-  const networkName = process.argv[2] ?? process.env['NETWORK'] ?? 'testnet';
-
-  console.log('🧪 ProofVault Deployment Test Suite');
-  console.log('===================================\n');
+  let args: TestDeploymentArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
 
-  const tester = new DeploymentTester(networkName);
-  const success = await tester.runAllTests();
+  if (!args.json) {
+    console.log('🧪 ProofVault Deployment Test Suite');
+    console.log('===================================\n');
+  }
 
-  process.exit(success ? 0 : 1);
+  // Keep stdout clean for the JSON report; errors still go to stderr
+  const tester = new DeploymentTester(
+    args.networkName,
+    new ConsoleLogger(args.json ? 'error' : 'info'),
+  );
+  const report = args.smoke ? await tester.runSmokeTest() : await tester.runAllTests();
+
+  if (args.outputPath) {
+    fs.mkdirSync(path.dirname(path.resolve(args.outputPath)), { recursive: true });
+    fs.writeFileSync(args.outputPath, JSON.stringify(report, null, 2));
+    if (!args.json) {
+      console.log(`\n📝 Report saved to ${args.outputPath}`);
+    }
+  }
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  }
+  process.exit(report.status === 'fail' ? 1 : 0);
 }
 
 // Run tests if this script is executed directly
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * Upgrade script for ProofVault contracts deployed behind ERC-1967/UUPS proxies
+ *
+ * Deploys the current artifact as a new implementation and points the proxy at
+ * it, refusing upgrades whose storage layout is incompatible with the deployed one.
+ */
+
+import { extractConfigFlags, setConfigOptions } from '../config';
+import { formatHbar } from '../utils';
+import { HederaContractDeployer } from './deploy';
+
+interface UpgradeArgs {
+  contractName: string;
+  networkName?: string;
+  fresh: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): UpgradeArgs {
+  const positional = argv.filter((arg) => !arg.startsWith('--'));
+  const flags = argv.filter((arg) => arg.startsWith('--'));
+  const [contractName, networkName, ...rest] = positional;
+
+  if (!contractName || rest.length > 0 || flags.some((flag) => flag !== '--fresh')) {
+    throw new Error('Usage: upgrade <contract> [network] [--fresh]');
+  }
+  return {
+    contractName,
+    ...(networkName ? { networkName } : {}),
+    fresh: flags.includes('--fresh'),
+  };
+}
+
+async function main(): Promise<void> {
+  let args: UpgradeArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  console.log('⬆️  ProofVault Contract Upgrade');
+  console.log('==============================\n');
+
+  const deployer = new HederaContractDeployer(args.networkName, {
+    fresh: args.fresh,
+  });
+
+  try {
+    const upgraded = await deployer.upgrade(args.contractName);
+    const upgrade = upgraded.upgrades?.at(-1);
+
+    console.log('\n🎊 Upgrade Summary:');
+    console.log('===================');
+    console.log(`Proxy: ${upgraded.proxyAddress}`);
+    console.log(`Previous implementation: ${upgrade?.previousImplementationAddress}`);
+    console.log(`New implementation: ${upgraded.implementationAddress}`);
+    console.log(`Fee charged: ${formatHbar(upgrade?.fee ?? '0')}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('\n💀 Upgrade failed!');
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// Run upgrade if this script is executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { main as upgradeMain };
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+
+/**
+ * Evidence integrity verification script for ProofVault
+ *
+ * Recomputes the hash of a local file (and optionally its metadata manifest)
+ * and compares it against the evidence record stored in ProofVault.
+ */
+
+import fs from 'fs';
+import { ProofVaultSDK } from '..';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import { checkEvidenceIntegrity } from '../evidence';
+import type { IntegrityReport } from '../types';
+import { ConsoleLogger } from '../utils';
+
+interface EvidenceVerificationArgs {
+  evidenceId: bigint;
+  filePath: string;
+  manifestPath?: string;
+  record: boolean;
+  networkName?: string;
+}
+
+class EvidenceIntegrityVerifier {
+  private readonly logger: ConsoleLogger;
+  private readonly sdk: ProofVaultSDK;
+
+  constructor(networkName?: string) {
+    this.logger = new ConsoleLogger(config.getLogLevel());
+    this.sdk = new ProofVaultSDK(config.getNetworkConfig(networkName), { logger: this.logger });
+  }
+
+  /**
+   * Verify a local file against the on-chain evidence record
+   */
+  public async verify(args: EvidenceVerificationArgs): Promise<IntegrityReport> {
+    this.sdk.initialize();
+
+    this.logger.info(`🔍 Loading evidence record ${args.evidenceId.toString()}...`);
+    const record = await this.sdk.getEvidenceRecord(args.evidenceId);
+    this.logger.info(`Title: ${record.title}`);
+    this.logger.info(`Submitted: ${new Date(record.submissionTimestamp * 1000).toISOString()}`);
+
+    const manifestJson = args.manifestPath ? fs.readFileSync(args.manifestPath, 'utf8') : undefined;
+    const report = await checkEvidenceIntegrity(record, args.filePath, manifestJson);
+
+    if (args.record) {
+      const fileCheck = report.checks.find((check) => check.name === 'File hash');
+      this.logger.info('📝 Recording integrity check on the chain of custody...');
+      const isValid = await this.sdk.verifyEvidenceIntegrity(
+        args.evidenceId,
+        fileCheck?.actual ?? '',
+      );
+      report.checks.push({
+        name: 'On-chain integrity check',
+        status: isValid ? 'pass' : 'fail',
+        message: 'Recorded via verifyEvidenceIntegrity',
+      });
+      report.passed = report.checks.every((check) => check.status !== 'fail');
+    }
+
+    return report;
+  }
+}
+
+/**
+ * Print a human-readable pass/fail report
+ */
+function printReport(report: IntegrityReport): void {
+  console.log('\n📋 Evidence Integrity Report');
+  console.log('============================');
+  console.log(`Evidence ID: ${report.evidenceId.toString()}`);
+  console.log(`File: ${report.filePath}`);
+  console.log(`Checked at: ${new Date(report.checkedAt).toISOString()}\n`);
+
+  for (const check of report.checks) {
+    const icon = check.status === 'pass' ? '✅' : check.status === 'fail' ? '❌' : '⏭️ ';
+    console.log(`${icon} ${check.name}: ${check.status.toUpperCase()}`);
+    if (check.status === 'fail' && check.expected !== undefined) {
+      console.log(`   Expected: ${check.expected}`);
+      console.log(`   Actual:   ${check.actual ?? ''}`);
+    }
+    if (check.message) {
+      console.log(`   ${check.message}`);
+    }
+  }
+
+  console.log(`\nResult: ${report.passed ? 'PASS - file is untampered' : 'FAIL'}`);
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): EvidenceVerificationArgs {
+  const positional: string[] = [];
+  const args: Partial<EvidenceVerificationArgs> = { record: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg === '--record') {
+      args.record = true;
+    } else if (arg === '--manifest' || arg === '--network') {
+      const value = argv[++i];
+      if (!value) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      if (arg === '--manifest') {
+        args.manifestPath = value;
+      } else {
+        args.networkName = value;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [evidenceId, filePath] = positional;
+  if (!evidenceId || !filePath || !/^\d+$/.test(evidenceId)) {
+    throw new Error(
+      'Usage: verify-evidence <evidenceId> <file> [--manifest <path>] [--record] [--network <name>]',
+    );
+  }
+
+  return {
+    ...args,
+    evidenceId: BigInt(evidenceId),
+    filePath,
+    record: args.record ?? false,
+  };
+}
+
+/**
+ * Main evidence verification function
+ */
+async function main(): Promise<void> {
+  console.log('🔍 ProofVault Evidence Integrity Verification');
+  console.log('=============================================\n');
+
+  let args: EvidenceVerificationArgs;
+  try {
+    const { argv, options } = extractConfigFlags(process.argv.slice(2));
+    setConfigOptions(options);
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(args.filePath)) {
+    console.error(`Error: File not found: ${args.filePath}`);
+    process.exit(1);
+  }
+
+  const verifier = new EvidenceIntegrityVerifier(args.networkName);
+  const report = await verifier.verify(args);
+
+  printReport(report);
+  process.exit(report.passed ? 0 : 1);
+}
+
+// Run verification if this script is executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { EvidenceIntegrityVerifier, main as verifyEvidenceMain };
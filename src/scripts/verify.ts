@@ -2,20 +2,34 @@
 
 /**
  * Contract verification script for ProofVault
+ *
+ * Submits contract sources to the Sourcify-compatible server behind HashScan
+ * (`VERIFICATION_URL`) and marks contracts verified only once it reports a match.
  */
 
 import { ethers } from 'ethers';
-import { config } from '../config';
+import { config, extractConfigFlags, setConfigOptions } from '../config';
+import { recordVerifiedContracts } from '../history';
 import type { VerificationOptions } from '../types';
 import { ConsoleLogger, loadLatestDeployment, retry } from '../utils';
+import { SourcifyVerifier } from '../verification';
 
 class ContractVerifier {
   private readonly logger: ConsoleLogger;
   private readonly networkName: string;
+  private readonly outputDir: string;
+  private readonly verifier: SourcifyVerifier;
 
   constructor(networkName?: string) {
-    this.networkName = networkName ?? process.env['NETWORK'] ?? 'testnet';
+    this.networkName = networkName ?? config.loadConfig().network;
+    this.outputDir = config.getDeploymentOutputDir(this.networkName);
     this.logger = new ConsoleLogger(config.getLogLevel());
+
+    this.verifier = new SourcifyVerifier({
+      apiUrl: config.getVerificationConfig().apiUrl ?? '',
+      chainId: config.getNetworkSettings(this.networkName).chainId,
+      logger: this.logger,
+    });
   }
 
   /**
@@ -27,13 +41,11 @@ class ContractVerifier {
     );
 
     try {
-      // Note: This is a placeholder implementation
-      // In a real Hedera deployment, you would integrate with the appropriate block explorer API
-      // For example, HashScan or other Hedera-compatible explorers
-
-      await this.simulateVerification(options);
+      const result = await this.verifier.verify(options);
 
-      this.logger.info(`✅ Contract ${options.contractName} verified successfully`);
+      this.logger.info(
+        `✅ Contract ${options.contractName} verified successfully (${result.status} match)`,
+      );
       return true;
     } catch (error) {
       this.logger.error(`❌ Failed to verify contract ${options.contractName}:`, error);
@@ -41,25 +53,6 @@ class ContractVerifier {
     }
   }
 
-  /**
-   * Simulate contract verification (placeholder)
-   */
-  private async simulateVerification(options: VerificationOptions): Promise<void> {
-    // Simulate API call delay
-    await new Promise((resolve) => setTimeout(resolve, options.delay ?? 5000));
-
-    // In a real implementation, this would:
-    // 1. Submit contract source code to block explorer
-    // 2. Wait for verification to complete
-    // 3. Check verification status
-
-    this.logger.info(`Simulated verification for ${options.contractName}`);
-    this.logger.info(`Contract address: ${options.contractAddress}`);
-    if (options.constructorArgs && options.constructorArgs.length > 0) {
-      this.logger.info(`Constructor args: ${JSON.stringify(options.constructorArgs)}`);
-    }
-  }
-
   /**
    * Verify all contracts from latest deployment
    */
@@ -67,7 +60,7 @@ class ContractVerifier {
     this.logger.info('🚀 Starting contract verification process...');
 
     // Load latest deployment
-    const deployment = loadLatestDeployment(this.networkName, config.getDeploymentOutputDir());
+    const deployment = loadLatestDeployment(this.networkName, this.outputDir);
     if (!deployment) {
       this.logger.error(`No deployment found for network: ${this.networkName}`);
       return false;
@@ -84,6 +77,7 @@ class ContractVerifier {
 
     let allVerified = true;
     const verificationPromises: Promise<boolean>[] = [];
+    const contracts: (typeof deployment.contracts)[string][] = [];
 
     // Verify each contract
     for (const [name, contract] of Object.entries(deployment.contracts)) {
@@ -93,10 +87,10 @@ class ContractVerifier {
       }
 
       const verificationOptions: VerificationOptions = {
-        contractAddress: contract.address,
+        // Proxied contracts are verified at their implementation
+        contractAddress: contract.implementationAddress ?? contract.address,
         contractName: name,
         constructorArgs: contract.constructorArgs ?? [],
-        delay: 5000,
         retries: 3,
       };
 
@@ -108,15 +102,23 @@ class ContractVerifier {
       );
 
       verificationPromises.push(verificationPromise);
+      contracts.push(contract);
     }
 
     // Wait for all verifications to complete
     const results = await Promise.allSettled(verificationPromises);
 
-    for (const result of results) {
-      if (result.status === 'rejected' || (result.status === 'fulfilled' && !result.value)) {
+    results.forEach((result, index) => {
+      const contract = contracts[index];
+      if (result.status === 'fulfilled' && result.value && contract) {
+        contract.verified = true;
+      } else {
         allVerified = false;
       }
+    });
+
+    if (contracts.some((contract) => contract.verified)) {
+      recordVerifiedContracts(deployment, this.outputDir, this.logger);
     }
 
     if (allVerified) {
@@ -145,7 +147,6 @@ class ContractVerifier {
       contractAddress,
       contractName,
       constructorArgs: constructorArgs ?? [],
-      delay: 5000,
       retries: 3,
     };
 
@@ -157,8 +158,9 @@ class ContractVerifier {
  * Main verification function
  */
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
-  const networkName = args[0] ?? process.env['NETWORK'];
+  const { argv: args, options } = extractConfigFlags(process.argv.slice(2));
+  setConfigOptions(options);
+  const networkName = args[0];
 
   console.log('🔍 ProofVault Contract Verification');
   console.log('===================================\n');
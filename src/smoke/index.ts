@@ -0,0 +1,416 @@
+/**
+ * Post-deployment smoke test for ProofVault
+ *
+ * Drives one end-to-end scenario through the deployed contracts with a single
+ * signer: request and verify an identity, submit evidence, file a case, link the
+ * evidence, then issue and read back a court order. Cleanup closes the case,
+ * archives the evidence, revokes the smoke identity and renounces any roles the
+ * run granted itself.
+ */
+
+import type {
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Interface,
+  Signer,
+} from 'ethers';
+import { getAddress, keccak256, toUtf8Bytes } from 'ethers';
+import {
+  IdentityAttestation__factory,
+  LegalCaseManager__factory,
+  ProofVault__factory,
+} from '../../typechain-types';
+import type {
+  Logger,
+  SDKContractAddresses,
+  SmokeStepResult,
+  SmokeStepStatus,
+  SmokeTestOptions,
+  SmokeTestRecords,
+  SmokeTestReport,
+} from '../types';
+import { DeploymentError } from '../types';
+
+// Contract enum values used by the scenario
+const GOVERNMENT_VERIFIED = 3; // IdentityAttestation.VerificationLevel, no verification fee by default
+const JUDGE = 6; // IdentityAttestation.ProfessionalType
+const DOCUMENT = 0; // ProofVault.EvidenceType
+const PUBLIC = 0; // ProofVault.ClassificationLevel
+const ARCHIVED = 7; // ProofVault.EvidenceStatus
+const CIVIL = 1; // LegalCaseManager.CaseType
+const LOW = 0; // LegalCaseManager.CasePriority
+const CLOSED = 6; // LegalCaseManager.CaseStatus
+
+const STATUS_ICONS: Record<SmokeStepStatus, string> = { pass: '✅', fail: '❌', skip: '⏭️' };
+
+type SendTransaction = (
+  pending: Promise<ContractTransactionResponse>,
+) => Promise<ContractTransactionReceipt>;
+
+type StepOutcome = string | { skipped: string };
+
+type SmokeStep = [name: string, run: (send: SendTransaction) => Promise<StepOutcome>];
+
+function describeError(error: unknown): string {
+  const { reason, shortMessage } = error as { reason?: string; shortMessage?: string };
+  return reason ?? shortMessage ?? (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Read an argument of the first matching event in a receipt
+ */
+function getEventArg(
+  receipt: ContractTransactionReceipt,
+  contractInterface: Interface,
+  eventName: string,
+  arg: string,
+): string {
+  for (const log of receipt.logs) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === eventName) {
+      return String(parsed.args[arg]);
+    }
+  }
+  throw new Error(`No ${eventName} event in transaction ${receipt.hash}`);
+}
+
+async function runStep(name: string, run: SmokeStep[1], logger?: Logger): Promise<SmokeStepResult> {
+  const startedAt = Date.now();
+  const transactions: string[] = [];
+  let gasUsed = 0n;
+
+  const send: SendTransaction = async (pending) => {
+    const tx = await pending;
+    transactions.push(tx.hash);
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Transaction ${tx.hash} was not successful`);
+    }
+    gasUsed += receipt.gasUsed;
+    return receipt;
+  };
+
+  let status: SmokeStepStatus;
+  let message: string;
+  try {
+    const outcome = await run(send);
+    [status, message] = typeof outcome === 'string' ? ['pass', outcome] : ['skip', outcome.skipped];
+  } catch (error) {
+    [status, message] = ['fail', describeError(error)];
+  }
+
+  const result: SmokeStepResult = { name, status, message, durationMs: Date.now() - startedAt };
+  if (transactions.length > 0) {
+    result.transactions = transactions;
+    result.gasUsed = gasUsed.toString();
+  }
+
+  const line = `${STATUS_ICONS[status]} ${name}: ${message}`;
+  if (status === 'fail') {
+    logger?.error(line);
+  } else {
+    logger?.info(line);
+  }
+  return result;
+}
+
+/**
+ * Run the smoke scenario against deployed contracts
+ *
+ * Steps after a failure are skipped; cleanup always runs for whatever the
+ * scenario created. The signer should be the deployer, which holds the admin
+ * roles needed to grant itself the verifier and judge roles.
+ */
+export async function runSmokeTest(
+  signer: Signer,
+  addresses: SDKContractAddresses,
+  options: SmokeTestOptions,
+): Promise<SmokeTestReport> {
+  const { identityAttestation, proofVault, legalCaseManager } = addresses;
+  if (!identityAttestation || !proofVault || !legalCaseManager) {
+    throw new DeploymentError(
+      `Smoke tests need IdentityAttestation, ProofVault and LegalCaseManager deployed on ${options.network}`,
+      'CONTRACT_NOT_DEPLOYED',
+      addresses,
+    );
+  }
+
+  const { logger } = options;
+  const identity = IdentityAttestation__factory.connect(identityAttestation, signer);
+  const vault = ProofVault__factory.connect(proofVault, signer);
+  const cases = LegalCaseManager__factory.connect(legalCaseManager, signer);
+
+  const signerAddress = await signer.getAddress();
+  const startedAt = Date.now();
+  const runId = options.runId ?? String(startedAt);
+  const records: SmokeTestRecords = {};
+  const grantedRoles: { name: string; renounce: () => Promise<ContractTransactionResponse> }[] = [];
+  let verifiedByRun = false;
+
+  const ensureRole = async (
+    send: SendTransaction,
+    contract: { hasRole(role: string, account: string): Promise<boolean> },
+    role: string,
+    name: string,
+    grant: () => Promise<ContractTransactionResponse>,
+    renounce: () => Promise<ContractTransactionResponse>,
+  ): Promise<void> => {
+    if (!(await contract.hasRole(role, signerAddress))) {
+      await send(grant());
+      grantedRoles.push({ name, renounce });
+    }
+  };
+
+  const scenario: SmokeStep[] = [
+    [
+      'request-identity',
+      async (send) => {
+        if (await identity.isVerified(signerAddress)) {
+          return {
+            skipped: `${signerAddress} is already verified at level ${await identity.getVerificationLevel(signerAddress)}`,
+          };
+        }
+        const fee = await identity.verificationFees(GOVERNMENT_VERIFIED);
+        const receipt = await send(
+          identity.requestIdentityVerification(
+            GOVERNMENT_VERIFIED,
+            JUDGE,
+            `smoke-documents-${runId}`,
+            `ProofVault smoke test ${runId}`,
+            { value: fee },
+          ),
+        );
+        records.requestId = getEventArg(
+          receipt,
+          identity.interface,
+          'IdentityVerificationRequested',
+          'requestId',
+        );
+        return `Verification request ${records.requestId} submitted`;
+      },
+    ],
+    [
+      'verify-identity',
+      async (send) => {
+        const { requestId } = records;
+        if (!requestId) {
+          return { skipped: 'No verification request to approve' };
+        }
+        const role = await identity.VERIFICATION_AUTHORITY_ROLE();
+        await ensureRole(
+          send,
+          identity,
+          role,
+          'IdentityAttestation.VERIFICATION_AUTHORITY_ROLE',
+          () => identity.grantVerificationAuthorityRole(signerAddress),
+          () => identity.renounceRole(role, signerAddress),
+        );
+        await send(
+          identity.verifyIdentityRequest(requestId, true, `smoke-credentials-${runId}`, ''),
+        );
+        if (!(await identity.isVerified(signerAddress))) {
+          throw new Error(`${signerAddress} is not verified after approving request ${requestId}`);
+        }
+        verifiedByRun = true;
+        return `${signerAddress} verified through request ${requestId}`;
+      },
+    ],
+    [
+      'submit-evidence',
+      async (send) => {
+        const cryptographicHash = keccak256(toUtf8Bytes(`ProofVault smoke test ${runId}`));
+        const receipt = await send(
+          vault.submitEvidence(
+            `Smoke test ${runId}`,
+            'Submitted by the post-deployment smoke test',
+            DOCUMENT,
+            PUBLIC,
+            `smoke-${runId}`,
+            '',
+            cryptographicHash,
+            false,
+          ),
+        );
+        records.evidenceId = getEventArg(
+          receipt,
+          vault.interface,
+          'EvidenceSubmitted',
+          'evidenceId',
+        );
+
+        const record = await vault.getEvidenceRecord(records.evidenceId);
+        if (record[10] !== cryptographicHash) {
+          throw new Error(`Evidence ${records.evidenceId} reads back with hash ${record[10]}`);
+        }
+        return `Evidence ${records.evidenceId} submitted`;
+      },
+    ],
+    [
+      'file-case',
+      async (send) => {
+        const receipt = await send(
+          cases.fileCase(
+            `SMOKE-${runId}`,
+            `Smoke test ${runId}`,
+            CIVIL,
+            LOW,
+            'Filed by the post-deployment smoke test',
+            'Smoke test',
+            'Smoke test',
+            false,
+          ),
+        );
+        records.caseId = getEventArg(receipt, cases.interface, 'CaseFiled', 'caseId');
+        return `Case ${records.caseId} filed as SMOKE-${runId}`;
+      },
+    ],
+    [
+      'link-evidence',
+      async (send) => {
+        const { caseId, evidenceId } = records;
+        if (!caseId || !evidenceId) {
+          throw new Error('No case or evidence to link');
+        }
+        // LegalCaseManager reads the evidence record, which needs viewer access
+        await send(vault.authorizeViewer(evidenceId, legalCaseManager));
+        await send(cases.linkEvidenceToCase(caseId, evidenceId, 'DOCUMENT', 'Smoke test', 50));
+
+        const linked = await cases.getCaseEvidence(caseId);
+        if (!linked.some((entry) => entry.evidenceId === BigInt(evidenceId))) {
+          throw new Error(`Evidence ${evidenceId} is not listed on case ${caseId}`);
+        }
+        return `Evidence ${evidenceId} linked to case ${caseId}`;
+      },
+    ],
+    [
+      'issue-court-order',
+      async (send) => {
+        const { caseId } = records;
+        if (!caseId) {
+          throw new Error('No case to issue an order for');
+        }
+        const role = await cases.JUDGE_ROLE();
+        await ensureRole(
+          send,
+          cases,
+          role,
+          'LegalCaseManager.JUDGE_ROLE',
+          () => cases.grantJudgeRole(signerAddress),
+          () => cases.renounceRole(role, signerAddress),
+        );
+        const receipt = await send(
+          cases.issueCourtOrder(
+            caseId,
+            'SMOKE_TEST',
+            `Smoke test order ${runId}`,
+            Math.floor(Date.now() / 1000),
+            0,
+          ),
+        );
+        records.orderId = getEventArg(receipt, cases.interface, 'CourtOrderIssued', 'orderId');
+        return `Court order ${records.orderId} issued on case ${caseId}`;
+      },
+    ],
+    [
+      'read-court-order',
+      async () => {
+        const { caseId, orderId } = records;
+        if (!caseId || !orderId) {
+          throw new Error('No court order to read');
+        }
+        const order = (await cases.getCaseOrders(caseId)).find(
+          (entry) => entry.orderId === BigInt(orderId),
+        );
+        if (!order) {
+          throw new Error(`Court order ${orderId} is not listed on case ${caseId}`);
+        }
+        if (getAddress(order.issuedBy) !== getAddress(signerAddress)) {
+          throw new Error(`Court order ${orderId} reads back as issued by ${order.issuedBy}`);
+        }
+        return `Court order ${orderId} reads back as ${order.orderType} (${order.complianceStatus})`;
+      },
+    ],
+  ];
+
+  const cleanupSteps: SmokeStep[] = [
+    [
+      'close-case',
+      async (send) => {
+        if (!records.caseId) {
+          return { skipped: 'No case was filed' };
+        }
+        await send(cases.updateCaseStatus(records.caseId, CLOSED));
+        return `Case ${records.caseId} closed`;
+      },
+    ],
+    [
+      'archive-evidence',
+      async (send) => {
+        if (!records.evidenceId) {
+          return { skipped: 'No evidence was submitted' };
+        }
+        await send(vault.updateEvidenceStatus(records.evidenceId, ARCHIVED));
+        return `Evidence ${records.evidenceId} archived`;
+      },
+    ],
+    [
+      'revoke-identity',
+      async (send) => {
+        if (!verifiedByRun) {
+          return { skipped: 'No identity was verified by this run' };
+        }
+        if (!(await identity.hasRole(await identity.IDENTITY_ADMIN_ROLE(), signerAddress))) {
+          return { skipped: `${signerAddress} cannot revoke identities` };
+        }
+        await send(identity.revokeIdentity(signerAddress, `Smoke test ${runId} cleanup`));
+        return `Identity of ${signerAddress} revoked`;
+      },
+    ],
+    [
+      'renounce-roles',
+      async (send) => {
+        if (grantedRoles.length === 0) {
+          return { skipped: 'No roles were granted by this run' };
+        }
+        for (const { renounce } of grantedRoles) {
+          await send(renounce());
+        }
+        return `Renounced ${grantedRoles.map(({ name }) => name).join(', ')}`;
+      },
+    ],
+  ];
+
+  logger?.info(`🔥 Running smoke test ${runId} on ${options.network} as ${signerAddress}`);
+
+  const steps: SmokeStepResult[] = [];
+  for (const [name, run] of scenario) {
+    const failed = steps.find((step) => step.status === 'fail');
+    steps.push(
+      failed
+        ? { name, status: 'skip', message: `Skipped after ${failed.name} failed`, durationMs: 0 }
+        : await runStep(name, run, logger),
+    );
+  }
+
+  logger?.info('🧹 Cleaning up...');
+  const cleanup: SmokeStepResult[] = [];
+  for (const [name, run] of cleanupSteps) {
+    cleanup.push(await runStep(name, run, logger));
+  }
+
+  return {
+    network: options.network,
+    signer: signerAddress,
+    runId,
+    startedAt,
+    finishedAt: Date.now(),
+    status: steps.some((step) => step.status === 'fail')
+      ? 'fail'
+      : cleanup.some((step) => step.status === 'fail')
+        ? 'warn'
+        : 'pass',
+    steps,
+    cleanup,
+    records,
+  };
+}
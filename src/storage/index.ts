@@ -0,0 +1,308 @@
+/**
+ * Content storage backends for ProofVault evidence
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageBackend, StorageConfig } from '../types';
+import { StorageError } from '../types';
+
+// Multiformats constants for CIDv1 (raw codec, sha2-256 multihash, base32 multibase)
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256_CODE = 0x12;
+const SHA2_256_LENGTH = 0x20;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const CID_PATTERN = /^b[a-z2-7]{58}$/;
+
+/**
+ * Chunk size IPFS splits added content by; content up to this size is a single raw block
+ */
+export const IPFS_CHUNK_SIZE = 262144;
+
+/**
+ * Encode bytes as lowercase RFC 4648 base32 without padding
+ */
+function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Build a CIDv1 (raw codec) from a SHA-256 digest
+ */
+export function cidFromSha256(digest: Buffer): string {
+  if (digest.length !== SHA2_256_LENGTH) {
+    throw new StorageError(`Invalid SHA-256 digest length: ${digest.length}`, 'INVALID_DIGEST');
+  }
+  const bytes = Buffer.concat([
+    Buffer.from([CID_VERSION, RAW_CODEC, SHA2_256_CODE, SHA2_256_LENGTH]),
+    digest,
+  ]);
+  return 'b' + base32Encode(bytes);
+}
+
+/**
+ * Compute the CIDv1 content address of a single raw block
+ *
+ * This equals the CID IPFS assigns only to content of at most IPFS_CHUNK_SIZE bytes;
+ * larger content is stored by IPFS as a UnixFS DAG of several blocks with a different CID.
+ */
+export function computeCid(content: Buffer): string {
+  return cidFromSha256(createHash('sha256').update(content).digest());
+}
+
+/**
+ * Check whether a string is a CIDv1 produced by computeCid
+ */
+export function isValidCid(cid: string): boolean {
+  return CID_PATTERN.test(cid);
+}
+
+/**
+ * Read a stream fully into memory
+ */
+export async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Filesystem-backed content store addressed by CIDv1
+ *
+ * Content is stored as a single raw block, so CIDs match IPFS only for content
+ * added with `raw-leaves` that fits in one chunk of IPFS_CHUNK_SIZE bytes.
+ */
+export class FileSystemStorage implements StorageBackend {
+  private readonly blocksDir: string;
+  private readonly pinsDir: string;
+
+  constructor(rootDir: string) {
+    this.blocksDir = path.join(rootDir, 'blocks');
+    this.pinsDir = path.join(rootDir, 'pins');
+    fs.mkdirSync(this.blocksDir, { recursive: true });
+    fs.mkdirSync(this.pinsDir, { recursive: true });
+  }
+
+  async put(content: Buffer | Readable): Promise<string> {
+    const source = Buffer.isBuffer(content) ? Readable.from([content]) : content;
+    const tempPath = path.join(this.blocksDir, `.tmp-${randomBytes(8).toString('hex')}`);
+    const hash = createHash('sha256');
+
+    try {
+      await pipeline(
+        source,
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            hash.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        fs.createWriteStream(tempPath),
+      );
+
+      const cid = cidFromSha256(hash.digest());
+      await fs.promises.rename(tempPath, this.blockPath(cid));
+      return cid;
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw new StorageError('Failed to store content', 'PUT_FAILED', error);
+    }
+  }
+
+  async get(cid: string): Promise<Buffer> {
+    if (!(await this.exists(cid))) {
+      throw new StorageError(`Content not found: ${cid}`, 'NOT_FOUND');
+    }
+    return fs.promises.readFile(this.blockPath(cid));
+  }
+
+  async pin(cid: string): Promise<void> {
+    if (!(await this.exists(cid))) {
+      throw new StorageError(`Cannot pin missing content: ${cid}`, 'NOT_FOUND');
+    }
+    await fs.promises.writeFile(path.join(this.pinsDir, cid), '');
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    if (!isValidCid(cid)) {
+      return false;
+    }
+    try {
+      await fs.promises.access(this.blockPath(cid));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether content is pinned
+   */
+  async isPinned(cid: string): Promise<boolean> {
+    if (!isValidCid(cid)) {
+      return false;
+    }
+    try {
+      await fs.promises.access(path.join(this.pinsDir, cid));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private blockPath(cid: string): string {
+    if (!isValidCid(cid)) {
+      throw new StorageError(`Invalid CID: ${cid}`, 'INVALID_CID');
+    }
+    return path.join(this.blocksDir, cid);
+  }
+}
+
+/**
+ * Encode content as the single `file` part of a multipart/form-data body, chunk by chunk
+ */
+async function* multipartFile(
+  boundary: string,
+  content: Iterable<Buffer> | AsyncIterable<Buffer | string>,
+): AsyncGenerator<Buffer> {
+  yield Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="file"\r\n` +
+      'Content-Type: application/octet-stream\r\n\r\n',
+  );
+  for await (const chunk of content) {
+    yield typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+  }
+  yield Buffer.from(`\r\n--${boundary}--\r\n`);
+}
+
+/**
+ * Storage adapter for the IPFS HTTP RPC API (`/api/v0`) subset used by ProofVault
+ */
+export class IpfsHttpStorage implements StorageBackend {
+  private readonly apiUrl: string;
+
+  constructor(apiUrl = 'http://127.0.0.1:5001') {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Add content, streaming it to the node as a multipart upload without buffering it
+   */
+  async put(content: Buffer | Readable): Promise<string> {
+    const boundary = `proofvault-${randomBytes(12).toString('hex')}`;
+    const response = await this.request(
+      'add',
+      {
+        'cid-version': '1',
+        'raw-leaves': 'true',
+        chunker: `size-${IPFS_CHUNK_SIZE}`,
+      },
+      {
+        body: multipartFile(boundary, Buffer.isBuffer(content) ? [content] : content),
+        contentType: `multipart/form-data; boundary=${boundary}`,
+      },
+    );
+    const result = (await response.json()) as { Hash?: string };
+    if (!result.Hash) {
+      throw new StorageError('IPFS add returned no hash', 'PUT_FAILED', result);
+    }
+    return result.Hash;
+  }
+
+  async get(cid: string): Promise<Buffer> {
+    const response = await this.request('cat', { arg: cid });
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.request('pin/add', { arg: cid });
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    try {
+      await this.request('block/stat', { arg: cid, offline: 'true' });
+      return true;
+    } catch (error) {
+      if (error instanceof StorageError && error.code === 'REQUEST_FAILED') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async request(
+    command: string,
+    params: Record<string, string>,
+    upload?: { body: AsyncIterable<Buffer>; contentType: string },
+  ): Promise<Response> {
+    const url = `${this.apiUrl}/api/v0/${command}?${new URLSearchParams(params).toString()}`;
+
+    let response: Response;
+    try {
+      response = await fetch(
+        url,
+        upload
+          ? {
+              method: 'POST',
+              body: upload.body,
+              headers: { 'content-type': upload.contentType },
+              // Required by fetch to send a streamed request body
+              duplex: 'half',
+            }
+          : { method: 'POST' },
+      );
+    } catch (error) {
+      throw new StorageError(`IPFS API unreachable at ${this.apiUrl}`, 'UNREACHABLE', error);
+    }
+
+    if (!response.ok) {
+      throw new StorageError(
+        `IPFS ${command} failed with HTTP ${response.status}: ${await response.text()}`,
+        'REQUEST_FAILED',
+        { status: response.status },
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Create a storage backend from configuration
+ */
+export function createStorageBackend(storageConfig: StorageConfig): StorageBackend {
+  switch (storageConfig.backend) {
+    case 'filesystem':
+      return new FileSystemStorage(storageConfig.directory ?? './storage');
+    case 'ipfs':
+      return new IpfsHttpStorage(storageConfig.apiUrl);
+    default:
+      throw new StorageError(
+        `Unsupported storage backend: ${String(storageConfig.backend)}`,
+        'INVALID_CONFIG',
+      );
+  }
+}
@@ -2,8 +2,12 @@
  * Type definitions for ProofVault Hedera deployment system
  */
 
+import type { Signer } from 'ethers';
+import type { Readable } from 'stream';
+
 export interface NetworkConfig {
-  network: 'testnet' | 'mainnet' | 'local';
+  network: NetworkName;
+  hederaNetwork?: HederaNetwork; // ledger the network runs on; built-in networks run on their namesake
   rpcUrl: string;
   operatorKey: string;
   operatorId?: string;
@@ -11,6 +15,8 @@ export interface NetworkConfig {
   gasPrice?: string;
   gasLimit?: number;
   timeout?: number;
+  mirrorNodeUrl?: string;
+  outputDir?: string; // deployment output directory of the network
 }
 
 export interface ContractConfig {
@@ -18,47 +24,203 @@ export interface ContractConfig {
   constructorArgs?: unknown[];
   libraries?: Record<string, string>;
   verify?: boolean;
+  dependsOn?: string[];
+  gasLimit?: number;
+  proxy?: boolean; // deploy behind an ERC-1967 proxy, initialized with the constructor args
+}
+
+export interface DeploymentManifest {
+  version: number;
+  contracts: Record<string, Omit<ContractConfig, 'name'>>;
+  postDeployment?: PostDeploymentConfig;
+}
+
+// Post-deployment configuration types
+export interface RoleGrantConfig {
+  contract: string;
+  role: string; // e.g. JUDGE_ROLE
+  accounts: string[]; // EVM addresses, Hedera account IDs or ${Contract.address} placeholders
+}
+
+export interface PostDeploymentConfig {
+  roles?: RoleGrantConfig[];
+  verificationFees?: Record<string, string | number>; // IdentityAttestation level name to tinybars
+}
+
+export type PostDeploymentActionType = 'GRANT_ROLE' | 'SET_VERIFICATION_FEE';
+
+export interface PostDeploymentAction {
+  type: PostDeploymentActionType;
+  contract: string;
+  contractAddress: string;
+  role?: string;
+  account?: string;
+  level?: string;
+  value?: string;
+  status: 'pending' | 'applied' | 'skipped';
+  transactionId?: string;
+  fee?: string; // tinybars
+}
+
+// Reads contract state and sends transactions for post-deployment actions
+export interface PostDeploymentExecutor {
+  call(action: PostDeploymentAction, data: string): Promise<string>; // returns ABI-encoded result
+  execute(
+    action: PostDeploymentAction,
+    data: string,
+  ): Promise<{ transactionId: string; fee?: string }>;
+}
+
+// Typed configuration, merged from defaults, a config file, env vars and CLI flags
+export interface ProofVaultNetworkSettings {
+  hederaNetwork: HederaNetwork; // unset settings default to this ledger's public endpoints
+  rpcUrl: string;
+  chainId: number;
+  timeout: number; // milliseconds
+  operatorKey?: string;
+  operatorId?: string;
+  mirrorNodeUrl?: string;
+  consensusNodes?: Record<string, string>; // local only: node address -> node account ID
+  mirrorNetwork?: string[]; // local only: mirror node gRPC addresses
+  outputDir?: string; // overrides deployment.outputDir for this network
+}
+
+export interface ProofVaultConfig {
+  network: NetworkName; // default network
+  networks: Record<BuiltInNetworkName, ProofVaultNetworkSettings> &
+    Record<NetworkName, ProofVaultNetworkSettings>; // built-in and user-defined networks
+  gas: { price: string; limit: number };
+  verification: { enabled: boolean; apiKey?: string; delay: number; apiUrl: string };
+  deployment: { outputDir: string; manifest?: string };
+  storage: StorageConfig;
+  indexer: IndexerConfig;
+  logLevel: LogLevel;
+  ci: boolean;
+}
+
+export type ProofVaultConfigFile = DeepPartial<ProofVaultConfig>;
+
+export interface ConfigLoadOptions {
+  configPath?: string; // defaults to PROOFVAULT_CONFIG or proofvault.config.{ts,json} in cwd
+  network?: string;
+  overrides?: Record<string, string>; // dotted setting path -> value, from `--set`
+  env?: Record<string, string | undefined>; // defaults to process.env
+  cwd?: string;
+}
+
+export interface ResolvedConfig {
+  config: ProofVaultConfig;
+  sources: Record<string, string>; // dotted setting path -> default, file path, env:<NAME> or flag
+  configFile?: string;
 }
 
 export interface DeploymentConfig {
   network: NetworkConfig;
-  contracts: {
-    identityAttestation: ContractConfig;
-    proofVault: ContractConfig;
-    legalCaseManager: ContractConfig;
-  };
+  contracts: Record<string, ContractConfig>; // keyed by contract name, in declaration order
+  postDeployment?: PostDeploymentConfig;
   verification?: {
     enabled: boolean;
     apiKey?: string;
     delay?: number;
+    apiUrl?: string;
   };
 }
 
 export interface DeployedContract {
   name: string;
   address: string;
+  contractId?: string; // Hedera contract ID, e.g. 0.0.1234
   transactionHash: string;
   blockNumber: number;
   gasUsed: string;
   deploymentTimestamp: number;
   constructorArgs?: unknown[];
+  bytecodeHash?: string; // of the contract's (or implementation's) creation bytecode
   verified?: boolean;
+  consensusTimestamp?: string;
+  fees?: DeploymentFees;
+  implementationAddress?: string; // set for contracts deployed behind a proxy
+  proxyAddress?: string;
+  storageLayout?: StorageLayout; // of the current implementation
+  upgrades?: ContractUpgrade[];
+}
+
+export type DeploymentTransactionType =
+  | 'FILE_CREATE'
+  | 'FILE_APPEND'
+  | 'CONTRACT_CREATE'
+  | 'CONTRACT_CALL';
+
+export interface TransactionCost {
+  transactionId: string;
+  type: DeploymentTransactionType;
+  gasUsed: string;
+  fee: string; // tinybars
+  consensusTimestamp: string;
+}
+
+export interface DeploymentFees {
+  transactions: TransactionCost[];
+  totalFee: string; // tinybars
+  totalFeeHbar: string;
 }
 
 export interface DeploymentResult {
+  schemaVersion?: number; // set when the result is saved
   network: string;
   deployer: string;
   timestamp: number;
   contracts: Record<string, DeployedContract>;
   totalGasUsed: string;
+  totalFee?: string; // tinybars
+  totalFeeHbar?: string;
+  postDeployment?: PostDeploymentAction[];
   success: boolean;
   error?: string;
 }
 
+// Deployment history types
+export interface DeploymentHistoryEntry {
+  id: string; // timestamp in the file name
+  file: string;
+  network: string;
+  deployer: string;
+  timestamp: number;
+  success: boolean;
+  contracts: string[];
+  totalGasUsed: string;
+  totalFee?: string;
+  latest: boolean; // whether latest-<network>.json points at this deployment
+}
+
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface DeploymentContractDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  address?: ValueChange<string | undefined>;
+  implementationAddress?: ValueChange<string | undefined>;
+  bytecodeHash?: ValueChange<string | undefined>;
+  constructorArgs?: ValueChange<unknown[] | undefined>;
+  gasUsed: ValueChange<string> & { delta: string };
+}
+
+export interface DeploymentDiff {
+  from: { network: string; timestamp: number };
+  to: { network: string; timestamp: number };
+  contracts: DeploymentContractDiff[];
+  totalGasUsed: ValueChange<string> & { delta: string };
+}
+
 export interface HederaClientConfig {
   operatorId: string;
   operatorKey: string;
-  network: 'testnet' | 'mainnet';
+  network: HederaNetwork;
+  nodes?: Record<string, string>; // consensus node address -> node account ID, for local
+  mirrorNetwork?: string[]; // mirror node gRPC addresses, for local
   maxTransactionFee?: number;
   maxQueryPayment?: number;
 }
@@ -81,6 +243,83 @@ export interface VerificationOptions {
   retries?: number;
 }
 
+// Upgradeable deployment types
+export interface StorageLayoutVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string; // solc type ID without AST IDs, e.g. t_struct(RoleData)_storage
+}
+
+export interface StorageLayoutType {
+  label: string;
+  encoding: string; // inplace, mapping, dynamic_array or bytes
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageLayoutVariable[]; // struct fields
+  values?: string[]; // enum members
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutVariable[];
+  types: Record<string, StorageLayoutType>;
+}
+
+export interface ContractUpgrade {
+  implementationAddress: string;
+  previousImplementationAddress: string;
+  transactionId: string;
+  timestamp: number;
+  fee: string; // tinybars for the new implementation and the upgrade call
+}
+
+// Byte offsets of unlinked library addresses in bytecode, by source file and library name
+export type LinkReferences = Record<
+  string,
+  Record<string, Array<{ start: number; length: number }>>
+>;
+
+export interface HardhatBuildInfo {
+  solcLongVersion: string;
+  input: SourceVerificationInput['standardJsonInput'];
+  output: {
+    contracts: Record<string, Record<string, { metadata?: string; storageLayout?: unknown }>>;
+    sources?: Record<string, { ast?: unknown }>;
+  };
+}
+
+// Source verification types
+export type SourceVerificationStatus = 'perfect' | 'partial' | 'false';
+
+export interface SourceVerificationInput {
+  contractName: string;
+  sourceName: string;
+  compilerVersion: string;
+  standardJsonInput: {
+    language: string;
+    sources: Record<string, { content: string }>;
+    settings: Record<string, unknown>;
+  };
+  metadata: string;
+}
+
+export interface SourceVerificationResult {
+  address: string;
+  chainId: number;
+  status: SourceVerificationStatus;
+}
+
+export interface SourcifyVerifierOptions {
+  apiUrl: string;
+  chainId: number;
+  artifactsDir?: string;
+  pollInterval?: number;
+  timeout?: number;
+  logger?: Logger;
+}
+
 // Hedera-specific types
 export interface HederaContractInfo {
   contractId: string;
@@ -91,6 +330,147 @@ export interface HederaContractInfo {
   maxAutomaticTokenAssociations?: number;
 }
 
+// Deployment journal types
+export interface DeploymentJournalEntry {
+  bytecodeHash: string;
+  bytecodeFileId?: string;
+  bytecodeTransactions?: TransactionCost[];
+  contractId?: string;
+  contract?: DeployedContract;
+  updatedAt: number;
+}
+
+export interface DeploymentJournal {
+  version: number;
+  network: string;
+  deployer: string;
+  startedAt: number;
+  updatedAt: number;
+  contracts: Record<string, DeploymentJournalEntry>;
+}
+
+// Deployment plan types
+export interface DeploymentPlanStep {
+  type: DeploymentTransactionType;
+  bytes?: number;
+  gasLimit?: number;
+  estimatedFee: string; // tinybars
+  maxFee: string; // tinybars
+}
+
+export interface DeploymentPlanContract {
+  name: string;
+  action: 'deploy' | 'reuse-bytecode' | 'skip';
+  bytecodeSize: number;
+  bytecodeHash: string;
+  fileAppendChunks: number;
+  constructorArgs: unknown[];
+  address?: string;
+  proxy?: boolean; // steps include the proxy's upload and creation
+  steps: DeploymentPlanStep[];
+  estimatedFee: string; // tinybars
+}
+
+export interface DeploymentPlan {
+  network: string;
+  deployer: string;
+  createdAt: number;
+  hbarPriceUsd: number;
+  contracts: DeploymentPlanContract[];
+  totalEstimatedFee: string; // tinybars
+  totalEstimatedFeeHbar: string;
+  totalMaxFee: string; // tinybars
+  totalMaxFeeHbar: string;
+}
+
+export interface DeploymentPlanOptions {
+  network: string;
+  deployer: string;
+  hbarPriceUsd: number;
+  journal?: DeploymentJournal | null;
+  gasLimit?: number;
+}
+
+// Preflight check types
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheckResult {
+  name: string;
+  status: PreflightStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface PreflightReport {
+  network: string;
+  operatorId?: string;
+  checkedAt: number;
+  status: PreflightStatus; // worst status of all checks
+  checks: PreflightCheckResult[];
+}
+
+export interface PreflightAccountKeys {
+  publicKeys: string[]; // raw hex public keys
+  threshold: number; // signatures required
+}
+
+/**
+ * Live network queries used by the preflight checks
+ */
+export interface PreflightProbe {
+  getAccountBalance(): Promise<bigint>; // tinybars
+  getAccountKeys(): Promise<PreflightAccountKeys>;
+  getNodeVersion(): Promise<string>; // services version, e.g. 0.50.1
+  getNetworkTime(): Promise<number>; // milliseconds since the epoch
+  getChainId(): Promise<number>;
+}
+
+export interface PreflightOptions {
+  operatorId: string;
+  operatorPublicKey: string; // raw hex public key
+  estimatedFee: bigint; // tinybars
+  maxFee: bigint; // tinybars
+  expectedChainId: number;
+  now?: () => number;
+}
+
+// Smoke test types
+export type SmokeStepStatus = 'pass' | 'fail' | 'skip';
+
+export interface SmokeStepResult {
+  name: string;
+  status: SmokeStepStatus;
+  message: string;
+  transactions?: string[];
+  gasUsed?: string;
+  durationMs: number;
+}
+
+export interface SmokeTestRecords {
+  requestId?: string;
+  evidenceId?: string;
+  caseId?: string;
+  orderId?: string;
+}
+
+export interface SmokeTestReport {
+  network: string;
+  signer: string;
+  runId: string;
+  startedAt: number;
+  finishedAt: number;
+  status: PreflightStatus; // fail if a step failed, warn if only cleanup did
+  steps: SmokeStepResult[];
+  cleanup: SmokeStepResult[];
+  records: SmokeTestRecords;
+}
+
+export interface SmokeTestOptions {
+  network: string;
+  runId?: string; // makes the case number and evidence hash unique; defaults to the start time
+  logger?: Logger;
+}
+
 // Evidence management types (for SDK)
 export interface EvidenceSubmission {
   title: string;
@@ -131,6 +511,354 @@ export interface IdentityVerificationRequest {
   personalDetails: string;
 }
 
+export type EvidenceSource = string | Readable;
+
+export interface EvidenceDigest {
+  sha256: string;
+  keccak256: string;
+  size: number;
+}
+
+export interface EvidenceDetails {
+  title: string;
+  description: string;
+  evidenceType: number;
+  classification: number;
+  ipfsHash?: string;
+  isEncrypted?: boolean;
+  filename?: string;
+  mimeType?: string;
+  creationTimestamp?: number;
+  deviceInfo?: string;
+  geoLocation?: string;
+  tags?: string[];
+  recipients?: EncryptionRecipient[];
+}
+
+export interface EvidenceManifest {
+  version: number;
+  title: string;
+  description: string;
+  evidenceType: number;
+  classification: number;
+  isEncrypted: boolean;
+  file: {
+    filename: string;
+    size: number;
+    mimeType: string;
+    sha256: string;
+    keccak256: string;
+  };
+  metadata: {
+    creationTimestamp: number;
+    deviceInfo: string;
+    geoLocation: string;
+    tags: string[];
+  };
+}
+
+export interface PreparedEvidence {
+  submission: EvidenceSubmission;
+  metadata: EvidenceMetadata;
+  manifest: EvidenceManifest;
+  manifestJson: string;
+  digest: EvidenceDigest;
+}
+
+export interface EvidenceRecord {
+  evidenceId: bigint;
+  title: string;
+  description: string;
+  submitter: string;
+  submissionTimestamp: number;
+  evidenceType: number;
+  status: number;
+  classification: number;
+  ipfsHash: string;
+  metadataHash: string;
+  cryptographicHash: string;
+  isEncrypted: boolean;
+  isSealed: boolean;
+  sealedUntil: number;
+  lastModified: number;
+}
+
+export type IntegrityCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface IntegrityCheck {
+  name: string;
+  status: IntegrityCheckStatus;
+  expected?: string;
+  actual?: string;
+  message?: string;
+}
+
+export interface IntegrityReport {
+  evidenceId: bigint;
+  filePath: string;
+  checkedAt: number;
+  checks: IntegrityCheck[];
+  passed: boolean;
+}
+
+export interface EvidenceSubmissionResult {
+  evidenceId: bigint;
+  transactionId: string;
+  blockNumber: number;
+  gasUsed: string;
+}
+
+export interface EvidenceFileSubmissionResult extends EvidenceSubmissionResult {
+  ipfsHash: string;
+  prepared: PreparedEvidence;
+}
+
+// Evidence encryption types
+export interface EncryptionRecipient {
+  address: string;
+  publicKey: string;
+}
+
+export interface WrappedDataKey {
+  address: string;
+  ephemeralPublicKey: string;
+  iv: string;
+  tag: string;
+  wrappedKey: string;
+}
+
+export interface EncryptedEnvelopeHeader {
+  version: number;
+  algorithm: 'AES-256-GCM';
+  iv: string;
+  tag: string;
+  recipients: WrappedDataKey[];
+}
+
+// Content storage types
+export interface CustodyEntry {
+  handler: string;
+  handlerVerificationLevel: number;
+  timestamp: number;
+  action: string;
+  location: string;
+  notes: string;
+  handlerSignature: string;
+}
+
+export interface CustodyReport {
+  version: number;
+  evidence: EvidenceRecord;
+  metadata: EvidenceMetadata;
+  custody: CustodyEntry[];
+}
+
+export type CustodyReportFormat = 'json' | 'html' | 'pdf';
+
+export interface RenderedCustodyReport {
+  format: CustodyReportFormat;
+  content: Buffer;
+  contentHash: string; // keccak256 of content, usable as a cryptographicHash
+}
+
+export interface StorageBackend {
+  put(content: Buffer | Readable): Promise<string>;
+  get(cid: string): Promise<Buffer>;
+  pin(cid: string): Promise<void>;
+  exists(cid: string): Promise<boolean>;
+}
+
+export interface StorageConfig {
+  backend: 'filesystem' | 'ipfs';
+  directory?: string;
+  apiUrl?: string;
+}
+
+// SDK configuration types
+export interface IndexerConfig {
+  databasePath: string;
+  startBlock: number;
+  batchSize: number;
+  confirmations: number;
+  reorgDepth: number;
+}
+
+export interface IndexerOptions extends Partial<IndexerConfig> {
+  databasePath: string;
+  addresses: SDKContractAddresses;
+  logger?: Logger;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  eventsIndexed: number;
+  reorgedTo?: number; // last common block when a reorg was rolled back
+}
+
+export interface IndexedEvent {
+  contract: ContractName;
+  eventName: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | number | boolean>;
+}
+
+export interface IndexedEvidence {
+  evidenceId: number;
+  submitter: string;
+  evidenceType: number;
+  title: string;
+  status: number;
+  isSealed: boolean;
+  sealedUntil: number;
+  submittedAt: number;
+  blockNumber: number;
+}
+
+export interface IndexedCase {
+  caseId: number;
+  caseNumber: string;
+  caseType: number;
+  filedBy: string;
+  status: number;
+  filedAt: number;
+  blockNumber: number;
+}
+
+export interface IndexedIdentity {
+  user: string;
+  identityId: number;
+  level: number;
+  verifier: string;
+  verifiedAt: number;
+  revoked: boolean;
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface EventQuery extends PageQuery {
+  contract?: ContractName;
+  eventName?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface EvidenceQuery extends PageQuery {
+  search?: string; // case-insensitive match on title
+  submitter?: string;
+  evidenceType?: number;
+  status?: number;
+  caseId?: number;
+}
+
+export interface CaseQuery extends PageQuery {
+  search?: string; // case-insensitive match on case number
+  filedBy?: string;
+  party?: string;
+  caseType?: number;
+  status?: number;
+}
+
+export interface MirrorLogQuery {
+  fromTimestamp?: string; // consensus timestamp ("seconds.nanos"), inclusive
+  toTimestamp?: string; // consensus timestamp ("seconds.nanos"), inclusive
+  pageSize?: number;
+}
+
+export interface MirrorContractLog {
+  address: string;
+  contractId: string;
+  data: string;
+  topics: string[];
+  index: number;
+  blockNumber: number;
+  blockHash: string;
+  consensusTimestamp: string;
+  transactionHash: string;
+  transactionIndex: number;
+}
+
+export interface MirrorContractResult {
+  hash: string;
+  contractId: string;
+  from: string;
+  to: string;
+  result: string;
+  status: string;
+  gasUsed: bigint;
+  gasLimit: bigint;
+  blockNumber: number;
+  consensusTimestamp: string;
+}
+
+export interface MirrorTransaction {
+  transactionId: string;
+  consensusTimestamp: string;
+  name: string;
+  result: string;
+  chargedTxFee: bigint; // tinybars
+  entityId: string | null;
+}
+
+export interface HederaTransactionResult {
+  transactionId: string;
+  status: string; // Hedera response code name, e.g. SUCCESS
+  statusCode: number;
+  entityId?: string; // contract, file or account created by the transaction
+  consensusTimestamp?: string;
+}
+
+export interface MirrorExchangeRate {
+  centEquivalent: number;
+  hbarEquivalent: number;
+  expirationTime: number;
+}
+
+export interface MirrorBlock {
+  number: number;
+  hash: string;
+  consensusTimestamp: string; // consensus timestamp of the block's last transaction
+}
+
+export interface MirrorContractEvent {
+  contract: ContractName;
+  eventName: string;
+  args: Record<string, string | number | boolean>;
+  address: string;
+  logIndex: number;
+  blockNumber: number;
+  transactionHash: string;
+  consensusTimestamp: string;
+  gasUsed?: bigint; // undefined when the transaction's contract result could not be fetched
+}
+
+export interface SDKContractAddresses {
+  identityAttestation?: string;
+  proofVault?: string;
+  legalCaseManager?: string;
+}
+
+export interface SDKOptions {
+  addresses?: SDKContractAddresses;
+  signer?: Signer;
+  storage?: StorageBackend;
+  deploymentDir?: string;
+  logger?: Logger;
+}
+
 // Error types
 export class DeploymentError extends Error {
   constructor(
@@ -143,6 +871,29 @@ export class DeploymentError extends Error {
   }
 }
 
+export class DeploymentRecordError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly filePath: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = 'DeploymentRecordError';
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
 export class ContractVerificationError extends Error {
   constructor(
     message: string,
@@ -165,8 +916,70 @@ export class HederaClientError extends Error {
   }
 }
 
+export class ProofVaultSDKError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ProofVaultSDKError';
+  }
+}
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export class EncryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+export class IndexerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'IndexerError';
+  }
+}
+
+export class MirrorNodeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'MirrorNodeError';
+  }
+}
+
 // Utility types
-export type NetworkName = 'testnet' | 'mainnet' | 'local';
+// testnet, mainnet, local or a network defined in the config file, e.g. staging
+export type NetworkName = string;
+export type BuiltInNetworkName = 'testnet' | 'mainnet' | 'local';
+export type HederaNetwork = 'testnet' | 'mainnet' | 'previewnet' | 'local';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
 export type ContractName = 'IdentityAttestation' | 'ProofVault' | 'LegalCaseManager';
 export type DeploymentStatus =
   | 'pending'
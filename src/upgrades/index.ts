@@ -0,0 +1,312 @@
+/**
+ * Upgradeable (UUPS) deployments for ProofVault contracts
+ *
+ * Upgradeable contracts are deployed as an implementation plus an ERC-1967 proxy
+ * that keeps the state. Before an upgrade, the storage layout recorded for the
+ * current implementation is compared with the new artifact's, so an upgrade
+ * cannot reinterpret or overwrite existing evidence state.
+ */
+
+import { Interface } from 'ethers';
+import path from 'path';
+import type {
+  DeployedContract,
+  HardhatBuildInfo,
+  StorageLayout,
+  StorageLayoutType,
+  StorageLayoutVariable,
+} from '../types';
+import { DeploymentError } from '../types';
+import { loadContractBuildInfo, summarizeTransactionCosts } from '../utils';
+
+// Artifact of the ERC-1967 proxy placed in front of upgradeable contracts
+export const PROXY_CONTRACT_NAME = 'ProofVaultProxy';
+
+const UPGRADE_INTERFACE = new Interface([
+  'function upgradeToAndCall(address newImplementation, bytes data)',
+]);
+
+interface SolcStorageLayout {
+  storage: (StorageLayoutVariable & { astId?: number; contract?: string })[];
+  types: Record<string, Omit<StorageLayoutType, 'values'>> | null;
+}
+
+/**
+ * Drop the AST IDs solc appends to struct, enum and contract type IDs, which
+ * change whenever sources are edited
+ */
+function normalizeTypeId(typeId: string): string {
+  return typeId.replace(/(t_(?:struct|enum|contract|userDefinedValueType)\(\w+\))\d+/g, '$1');
+}
+
+function normalizeVariable(variable: StorageLayoutVariable): StorageLayoutVariable {
+  return {
+    label: variable.label,
+    slot: variable.slot,
+    offset: variable.offset,
+    type: normalizeTypeId(variable.type),
+  };
+}
+
+interface AstNode {
+  nodeType?: string;
+  canonicalName?: string;
+  members?: { name: string }[];
+  [key: string]: unknown;
+}
+
+/**
+ * Collect enum values by type label from the compiled ASTs, since solc's
+ * storage layout only records an enum's size
+ */
+function collectEnumValues(buildInfo: HardhatBuildInfo): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    const astNode = node as AstNode;
+    if (astNode.nodeType === 'EnumDefinition' && astNode.canonicalName && astNode.members) {
+      values.set(
+        `enum ${astNode.canonicalName}`,
+        astNode.members.map((member) => member.name),
+      );
+      return;
+    }
+    Object.values(astNode).forEach(visit);
+  };
+  Object.values(buildInfo.output.sources ?? {}).forEach((source) => visit(source.ast));
+  return values;
+}
+
+/**
+ * Read a contract's storage layout from its Hardhat build info
+ */
+export function loadStorageLayout(
+  contractName: string,
+  artifactsDir = path.join(process.cwd(), 'artifacts'),
+): StorageLayout {
+  const { sourceName, buildInfo } = loadContractBuildInfo(contractName, artifactsDir);
+  const layout = buildInfo.output.contracts[sourceName]?.[contractName]?.storageLayout as
+    | SolcStorageLayout
+    | undefined;
+  if (!layout) {
+    throw new DeploymentError(
+      `No storage layout in build info for ${sourceName}:${contractName}; recompile the contracts`,
+      'STORAGE_LAYOUT_NOT_FOUND',
+      { contractName },
+    );
+  }
+
+  const enumValues = collectEnumValues(buildInfo);
+  const types: Record<string, StorageLayoutType> = {};
+  for (const [typeId, type] of Object.entries(layout.types ?? {})) {
+    const { members, ...rest } = type;
+    const normalized: StorageLayoutType = { ...rest };
+    for (const field of ['key', 'value', 'base'] as const) {
+      const id = rest[field];
+      if (id) {
+        normalized[field] = normalizeTypeId(id);
+      }
+    }
+    const values = enumValues.get(rest.label);
+    if (members) {
+      normalized.members = members.map(normalizeVariable);
+    } else if (values) {
+      normalized.values = values;
+    }
+    types[normalizeTypeId(typeId)] = normalized;
+  }
+
+  return { storage: layout.storage.map(normalizeVariable), types };
+}
+
+/**
+ * Explain why a variable's storage type changed incompatibly, if it did
+ *
+ * Structs may gain members at the end and enums may gain values at the end;
+ * anything that moves existing data is reported.
+ */
+function compareTypes(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousId: string,
+  nextId: string,
+  compared: Map<string, string | undefined>,
+): string | undefined {
+  // Cache results by type pair; a pair already being compared is recursive and assumed equal
+  const key = `${previousId}|${nextId}`;
+  if (compared.has(key)) {
+    return compared.get(key);
+  }
+  compared.set(key, undefined);
+  const reason = compareTypeDefinitions(previous, next, previousId, nextId, compared);
+  compared.set(key, reason);
+  return reason;
+}
+
+function compareTypeDefinitions(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousId: string,
+  nextId: string,
+  compared: Map<string, string | undefined>,
+): string | undefined {
+  const before = previous.types[previousId];
+  const after = next.types[nextId];
+  if (!before || !after) {
+    return previousId === nextId ? undefined : `${previousId} became ${nextId}`;
+  }
+  const changed = `${before.label} became ${after.label}`;
+  if (before.encoding !== after.encoding) {
+    return changed;
+  }
+
+  const compareChild = (field: 'key' | 'value' | 'base'): string | undefined => {
+    const beforeChild = before[field];
+    const afterChild = after[field];
+    if (!beforeChild || !afterChild) {
+      return beforeChild === afterChild ? undefined : changed;
+    }
+    return compareTypes(previous, next, beforeChild, afterChild, compared);
+  };
+
+  switch (before.encoding) {
+    case 'mapping':
+      return compareChild('key') ?? compareChild('value');
+    case 'dynamic_array':
+      return compareChild('base');
+    case 'bytes':
+      return before.label === after.label ? undefined : changed;
+  }
+
+  if (before.members || after.members) {
+    for (const [index, member] of (before.members ?? []).entries()) {
+      const updated = after.members?.[index];
+      if (!updated) {
+        return `${before.label}.${member.label} was removed`;
+      }
+      if (updated.label !== member.label) {
+        return `${before.label}.${member.label} was replaced by ${updated.label}`;
+      }
+      if (updated.slot !== member.slot || updated.offset !== member.offset) {
+        return `${before.label}.${member.label} moved`;
+      }
+      const reason = compareTypes(previous, next, member.type, updated.type, compared);
+      if (reason) {
+        return `${before.label}.${member.label}: ${reason}`;
+      }
+    }
+    return undefined;
+  }
+
+  if (before.values || after.values) {
+    const values = after.values ?? [];
+    const reordered = (before.values ?? []).some((value, index) => values[index] !== value);
+    return reordered || before.numberOfBytes !== after.numberOfBytes
+      ? `${before.label} values were removed or reordered`
+      : undefined;
+  }
+
+  if (before.base) {
+    // Fixed-size arrays must keep their length and element size
+    return before.numberOfBytes === after.numberOfBytes ? compareChild('base') : changed;
+  }
+  return before.label === after.label && before.numberOfBytes === after.numberOfBytes
+    ? undefined
+    : changed;
+}
+
+/**
+ * List the changes that make a new storage layout unsafe to upgrade to
+ *
+ * Existing variables must keep their name, slot, offset and a compatible type;
+ * new variables may only be appended.
+ */
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): string[] {
+  const issues: string[] = [];
+  const compared = new Map<string, string | undefined>();
+
+  for (const [index, variable] of previous.storage.entries()) {
+    const updated = next.storage[index];
+    const position = `slot ${variable.slot}, offset ${variable.offset}`;
+    if (!updated) {
+      issues.push(`${variable.label} (${position}) was removed`);
+    } else if (updated.label !== variable.label) {
+      issues.push(`${variable.label} (${position}) was replaced by ${updated.label}`);
+    } else if (updated.slot !== variable.slot || updated.offset !== variable.offset) {
+      issues.push(
+        `${variable.label} moved from ${position} to slot ${updated.slot}, offset ${updated.offset}`,
+      );
+    } else {
+      const reason = compareTypes(previous, next, variable.type, updated.type, compared);
+      if (reason) {
+        issues.push(`${variable.label} (${position}) changed type: ${reason}`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Throw if upgrading from one storage layout to another would corrupt state
+ */
+export function assertStorageLayoutCompatible(
+  contractName: string,
+  previous: StorageLayout,
+  next: StorageLayout,
+): void {
+  const issues = compareStorageLayouts(previous, next);
+  if (issues.length > 0) {
+    throw new DeploymentError(
+      `${contractName} storage layout is incompatible with the deployed implementation:\n  - ${issues.join('\n  - ')}`,
+      'INCOMPATIBLE_STORAGE_LAYOUT',
+      { contractName, issues },
+    );
+  }
+}
+
+/**
+ * Call data that points a UUPS proxy at a new implementation
+ */
+export function encodeUpgradeCall(newImplementation: string): string {
+  return UPGRADE_INTERFACE.encodeFunctionData('upgradeToAndCall', [newImplementation, '0x']);
+}
+
+/**
+ * Combine the implementation and proxy deployments into the record of a proxied contract
+ *
+ * The record's address is the proxy's, which callers and dependent contracts use.
+ */
+export function toProxiedContract(
+  contractName: string,
+  implementation: DeployedContract,
+  proxy: DeployedContract,
+  storageLayout: StorageLayout,
+): DeployedContract {
+  const record: DeployedContract = {
+    ...proxy,
+    name: contractName,
+    gasUsed: (BigInt(implementation.gasUsed) + BigInt(proxy.gasUsed)).toString(),
+    fees: summarizeTransactionCosts([
+      ...(implementation.fees?.transactions ?? []),
+      ...(proxy.fees?.transactions ?? []),
+    ]),
+    implementationAddress: implementation.address,
+    proxyAddress: proxy.address,
+    storageLayout,
+  };
+  if (implementation.constructorArgs) {
+    record.constructorArgs = implementation.constructorArgs;
+  }
+  if (implementation.bytecodeHash) {
+    record.bytecodeHash = implementation.bytecodeHash;
+  } else {
+    delete record.bytecodeHash;
+  }
+  return record;
+}
@@ -2,9 +2,36 @@
  * Utility functions for ProofVault deployment
  */
 
+import {
+  AccountInfoQuery,
+  Client,
+  ContractId,
+  ContractInfoQuery,
+  Status,
+  TransactionId,
+  TransactionReceiptQuery,
+  TransactionRecordQuery,
+} from '@hashgraph/sdk';
+import type { AccountInfo, ContractInfo, TransactionRecord } from '@hashgraph/sdk';
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
 import fs from 'fs';
 import path from 'path';
-import type { DeploymentResult, Logger } from '../types';
+import type { MirrorNodeClient } from '../mirror';
+import type {
+  DeploymentFees,
+  DeploymentResult,
+  DeploymentTransactionType,
+  HardhatBuildInfo,
+  HederaClientConfig,
+  HederaContractInfo,
+  HederaTransactionResult,
+  LinkReferences,
+  Logger,
+  SDKContractAddresses,
+  TransactionCost,
+} from '../types';
+import { DeploymentRecordError, HederaClientError, MirrorNodeError } from '../types';
 
 /**
  * Simple console logger implementation
@@ -56,64 +83,557 @@ export function isValidHederaAccountId(accountId: string): boolean {
   return pattern.test(accountId);
 }
 
+// DER headers of PKCS#8 ED25519 and SEC1 ECDSA secp256k1 private keys
+const ED25519_DER_PREFIX = '302e020100300506032b657004220420';
+const ECDSA_DER_PREFIX = '3030020100300706052b8104000a04220420';
+
 /**
  * Validate Hedera private key format
  */
 export function isValidHederaPrivateKey(privateKey: string): boolean {
-  // Hedera private keys can be in hex format (with or without 0x prefix)
-  // or in DER format
+  // Hedera private keys are 32 raw bytes in hex (with or without 0x prefix),
+  // or DER-encoded ED25519 or ECDSA secp256k1 keys
   if (privateKey.startsWith('0x')) {
-    return privateKey.length === 66; // 64 hex chars + 0x prefix
+    return /^0x[0-9a-fA-F]{64}$/.test(privateKey);
+  }
+  return (
+    /^[0-9a-fA-F]{64}$/.test(privateKey) ||
+    new RegExp(`^${ED25519_DER_PREFIX}[0-9a-f]{64}$`, 'i').test(privateKey) ||
+    new RegExp(`^${ECDSA_DER_PREFIX}[0-9a-f]{64}$`, 'i').test(privateKey)
+  );
+}
+
+/**
+ * Create a Hedera client for the configured network, without an operator
+ *
+ * Local networks are built from the configured consensus nodes and mirror network.
+ */
+export function createHederaClient(hederaConfig: HederaClientConfig): Client {
+  switch (hederaConfig.network) {
+    case 'testnet':
+      return Client.forTestnet();
+    case 'mainnet':
+      return Client.forMainnet();
+    case 'previewnet':
+      return Client.forPreviewnet();
+    case 'local': {
+      if (!hederaConfig.nodes || Object.keys(hederaConfig.nodes).length === 0) {
+        throw new HederaClientError(
+          'No consensus nodes configured for the local network',
+          'INVALID_NETWORK',
+        );
+      }
+      const client = Client.forNetwork(hederaConfig.nodes);
+      if (hederaConfig.mirrorNetwork?.length) {
+        client.setMirrorNetwork(hederaConfig.mirrorNetwork);
+      }
+      return client;
+    }
+    default:
+      throw new HederaClientError(
+        `Unsupported Hedera network: ${String(hederaConfig.network)}`,
+        'INVALID_NETWORK',
+      );
   }
-  return privateKey.length === 64 || privateKey.length === 96; // Raw hex or DER format
 }
 
+// Long-zero EVM addresses pack the entity ID as 4 bytes shard, 8 bytes realm, 8 bytes num
+const MAX_SHARD = (1n << 32n) - 1n;
+const MAX_REALM_OR_NUM = (1n << 64n) - 1n;
+
 /**
- * Convert Hedera contract ID to EVM address
+ * Convert a Hedera entity ID ("shard.realm.num") to its long-zero EVM address
  */
 export function contractIdToEvmAddress(contractId: string): string {
-  const parts = contractId.split('.');
-  if (parts.length !== 3 || !parts[2]) {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(contractId);
+  if (!match) {
     throw new Error(`Invalid contract ID format: ${contractId}`);
   }
 
-  const contractNum = parseInt(parts[2]);
-  if (isNaN(contractNum)) {
-    throw new Error(`Invalid contract number in ID: ${contractId}`);
+  const shard = BigInt(match[1] ?? '');
+  const realm = BigInt(match[2] ?? '');
+  const num = BigInt(match[3] ?? '');
+  if (shard > MAX_SHARD || realm > MAX_REALM_OR_NUM || num > MAX_REALM_OR_NUM) {
+    throw new Error(`Contract ID out of range: ${contractId}`);
+  }
+
+  return (
+    '0x' +
+    shard.toString(16).padStart(8, '0') +
+    realm.toString(16).padStart(16, '0') +
+    num.toString(16).padStart(16, '0')
+  );
+}
+
+/**
+ * Convert a long-zero EVM address back to its Hedera entity ID ("shard.realm.num")
+ *
+ * EVM aliases (addresses derived from an ECDSA key or CREATE2) do not encode the
+ * entity ID; resolve those with getHederaContractInfo instead.
+ */
+export function evmAddressToContractId(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid EVM address format: ${address}`);
+  }
+
+  const shard = BigInt(`0x${address.slice(2, 10)}`);
+  const realm = BigInt(`0x${address.slice(10, 26)}`);
+  const num = BigInt(`0x${address.slice(26)}`);
+  return `${shard}.${realm}.${num}`;
+}
+
+/**
+ * Get the ContractId of a contract given by entity ID or EVM address
+ *
+ * Long-zero addresses of the given shard and realm are decoded to their entity ID.
+ * Any other address is an EVM alias, which the network resolves in that shard and realm.
+ */
+export function toContractId(contractIdOrAddress: string, shard = 0, realm = 0): ContractId {
+  if (!contractIdOrAddress.startsWith('0x')) {
+    return ContractId.fromString(contractIdOrAddress);
+  }
+
+  const entityId = evmAddressToContractId(contractIdOrAddress);
+  return entityId.startsWith(`${shard}.${realm}.`)
+    ? ContractId.fromString(entityId)
+    : ContractId.fromEvmAddress(shard, realm, contractIdOrAddress);
+}
+
+/**
+ * Map SDK contract and account info to HederaContractInfo
+ */
+export function toHederaContractInfo(
+  contract: Pick<
+    ContractInfo,
+    'contractId' | 'contractAccountId' | 'adminKey' | 'contractMemo' | 'autoRenewPeriod'
+  >,
+  account?: Pick<AccountInfo, 'maxAutomaticTokenAssociations'>,
+): HederaContractInfo {
+  const contractId = contract.contractId.toString();
+  const info: HederaContractInfo = {
+    contractId,
+    evmAddress: contract.contractAccountId
+      ? `0x${contract.contractAccountId.replace(/^0x/, '').toLowerCase()}`
+      : contractIdToEvmAddress(contractId),
+    autoRenewPeriod: contract.autoRenewPeriod.seconds.toNumber(),
+  };
+  if (contract.adminKey) {
+    info.adminKey = contract.adminKey.toString();
+  }
+  if (contract.contractMemo) {
+    info.memo = contract.contractMemo;
+  }
+  if (account) {
+    info.maxAutomaticTokenAssociations = account.maxAutomaticTokenAssociations.toNumber();
+  }
+  return info;
+}
+
+/**
+ * Query a deployed contract's info from the network by contract ID or EVM address
+ *
+ * EVM aliases are resolved in the operator account's shard and realm.
+ */
+export async function getHederaContractInfo(
+  client: Client,
+  contractIdOrAddress: string,
+): Promise<HederaContractInfo> {
+  try {
+    const operator = client.operatorAccountId;
+    const contractId = toContractId(
+      contractIdOrAddress,
+      operator?.shard.toNumber(),
+      operator?.realm.toNumber(),
+    );
+
+    const contract = await new ContractInfoQuery().setContractId(contractId).execute(client);
+    const account = await new AccountInfoQuery().setAccountId(contract.accountId).execute(client);
+    return toHederaContractInfo(contract, account);
+  } catch (error) {
+    throw new HederaClientError(
+      `Failed to get contract info for ${contractIdOrAddress}`,
+      'CONTRACT_INFO_FAILED',
+      error,
+    );
+  }
+}
+
+// Receipt statuses meaning the transaction has not reached consensus yet
+const PENDING_RECEIPT_STATUSES = new Set(['UNKNOWN', 'BUSY', 'RECEIPT_NOT_FOUND']);
+
+// Explanations for failure statuses commonly seen when deploying and calling contracts
+const RECEIPT_FAILURE_MESSAGES: Record<string, string> = {
+  CONTRACT_REVERT_EXECUTED: 'contract execution reverted',
+  CONTRACT_EXECUTION_EXCEPTION: 'contract execution failed',
+  INSUFFICIENT_GAS: 'transaction ran out of gas',
+  MAX_GAS_LIMIT_EXCEEDED: 'gas limit exceeds the network maximum',
+  INSUFFICIENT_PAYER_BALANCE: 'payer account balance is too low',
+  INSUFFICIENT_TX_FEE: 'max transaction fee is too low',
+  INVALID_SIGNATURE: 'transaction signature is invalid',
+};
+
+let statusCodes: Map<string, number> | undefined;
+
+/**
+ * Look up the numeric Hedera response code for a status name, or -1 if unknown
+ */
+export function getHederaStatusCode(status: string): number {
+  statusCodes ??= new Map(
+    Object.values(Status)
+      .filter((value): value is Status => value instanceof Status)
+      .map((value) => [value.toString(), value._code]),
+  );
+  return statusCodes.get(status) ?? -1;
+}
+
+/**
+ * Map a final receipt status to a typed result, throwing HederaClientError for failures
+ */
+export function toHederaTransactionResult(
+  transactionId: string,
+  status: string,
+  extra: Pick<HederaTransactionResult, 'entityId' | 'consensusTimestamp'> = {},
+): HederaTransactionResult {
+  const statusCode = getHederaStatusCode(status);
+
+  if (status !== 'SUCCESS') {
+    const reason = RECEIPT_FAILURE_MESSAGES[status];
+    throw new HederaClientError(
+      `Transaction ${transactionId} failed with ${status}${reason ? `: ${reason}` : ''}`,
+      status,
+      { transactionId, status, statusCode },
+    );
   }
 
-  // Convert contract number to EVM address format
-  return '0x' + contractNum.toString(16).padStart(40, '0');
+  return { transactionId, status, statusCode, ...extra };
 }
 
 /**
- * Wait for Hedera transaction confirmation
+ * Fetch the final status of a transaction, or null while it is still pending
+ */
+async function fetchTransactionStatus(
+  source: Client | Pick<MirrorNodeClient, 'getTransaction'>,
+  transactionId: string,
+): Promise<Pick<HederaTransactionResult, 'status' | 'entityId' | 'consensusTimestamp'> | null> {
+  if (source instanceof Client) {
+    const receipt = await new TransactionReceiptQuery()
+      .setTransactionId(TransactionId.fromString(transactionId))
+      .setValidateStatus(false)
+      .execute(source);
+    const status = receipt.status.toString();
+    const entityId = receipt.contractId ?? receipt.fileId ?? receipt.accountId;
+
+    if (PENDING_RECEIPT_STATUSES.has(status)) {
+      return null;
+    }
+    return entityId ? { status, entityId: entityId.toString() } : { status };
+  }
+
+  try {
+    const transaction = await source.getTransaction(transactionId);
+    return {
+      status: transaction.result,
+      consensusTimestamp: transaction.consensusTimestamp,
+      ...(transaction.entityId ? { entityId: transaction.entityId } : {}),
+    };
+  } catch (error) {
+    // The mirror node only knows a transaction once its record has been ingested
+    if (error instanceof MirrorNodeError && error.code === 'NOT_FOUND') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wait for a Hedera transaction to reach consensus and check its receipt status
+ *
+ * Polls the receipt through the Hedera SDK client, or the transaction record
+ * through the mirror node. Throws a HederaClientError whose `code` is the
+ * receipt status (e.g. CONTRACT_REVERT_EXECUTED) when the transaction failed,
+ * or TIMEOUT when no final status arrived in time.
  */
 export async function waitForHederaTransaction(
+  source: Client | Pick<MirrorNodeClient, 'getTransaction'>,
   transactionId: string,
   timeout = 60000,
   logger?: Logger,
-): Promise<boolean> {
+  pollInterval = 1000,
+): Promise<HederaTransactionResult> {
   logger?.info(`Waiting for Hedera transaction ${transactionId}...`);
 
-  const startTime = Date.now();
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), deadline - Date.now());
+    });
 
-  // For Hedera, transactions are typically confirmed very quickly
-  // This is a simplified implementation
-  while (Date.now() - startTime < timeout) {
     try {
-      // In a real implementation, you would query the transaction status
-      // For now, we'll simulate a successful confirmation after a short delay
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      logger?.info(`Transaction ${transactionId} confirmed`);
-      return true;
+      const outcome = await Promise.race([fetchTransactionStatus(source, transactionId), timedOut]);
+      if (outcome === 'timeout') {
+        break;
+      }
+      if (outcome) {
+        const result = toHederaTransactionResult(transactionId, outcome.status, outcome);
+        logger?.info(`Transaction ${transactionId} confirmed with ${result.status}`);
+        return result;
+      }
     } catch (error) {
+      if (error instanceof HederaClientError) {
+        throw error;
+      }
       logger?.debug(`Error checking transaction ${transactionId}:`, error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    await sleep(Math.min(pollInterval, Math.max(deadline - Date.now(), 0)));
+  }
+
+  throw new HederaClientError(
+    `Transaction ${transactionId} not confirmed within ${timeout}ms`,
+    'TIMEOUT',
+    { transactionId },
+  );
+}
+
+// Version of the saved DeploymentResult format; files without one are version 1
+export const DEPLOYMENT_RESULT_SCHEMA_VERSION = 2;
+
+const UINT_STRING = { type: 'string', pattern: '^\\d+$' } as const;
+const EVM_ADDRESS = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' } as const;
+
+/**
+ * JSON schema of a saved DeploymentResult at the current schema version
+ */
+export const DEPLOYMENT_RESULT_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'ProofVault deployment result',
+  type: 'object',
+  required: [
+    'schemaVersion',
+    'network',
+    'deployer',
+    'timestamp',
+    'contracts',
+    'totalGasUsed',
+    'success',
+  ],
+  properties: {
+    schemaVersion: { const: DEPLOYMENT_RESULT_SCHEMA_VERSION },
+    network: { type: 'string', minLength: 1 },
+    deployer: { type: 'string', minLength: 1 },
+    timestamp: { type: 'integer', minimum: 0 },
+    contracts: { type: 'object', additionalProperties: { $ref: '#/definitions/deployedContract' } },
+    totalGasUsed: UINT_STRING,
+    totalFee: UINT_STRING,
+    totalFeeHbar: { type: 'string' },
+    postDeployment: { type: 'array', items: { $ref: '#/definitions/postDeploymentAction' } },
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+  definitions: {
+    deployedContract: {
+      type: 'object',
+      required: [
+        'name',
+        'address',
+        'transactionHash',
+        'blockNumber',
+        'gasUsed',
+        'deploymentTimestamp',
+      ],
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        address: EVM_ADDRESS,
+        contractId: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+        transactionHash: { type: 'string', minLength: 1 },
+        blockNumber: { type: 'integer', minimum: 0 },
+        gasUsed: UINT_STRING,
+        deploymentTimestamp: { type: 'integer', minimum: 0 },
+        constructorArgs: { type: 'array' },
+        bytecodeHash: { type: 'string', pattern: '^0x[0-9a-fA-F]{64}$' },
+        verified: { type: 'boolean' },
+        consensusTimestamp: { type: 'string' },
+        fees: { $ref: '#/definitions/fees' },
+        implementationAddress: EVM_ADDRESS,
+        proxyAddress: EVM_ADDRESS,
+        storageLayout: { type: 'object', required: ['storage', 'types'] },
+        upgrades: { type: 'array', items: { $ref: '#/definitions/upgrade' } },
+      },
+    },
+    fees: {
+      type: 'object',
+      required: ['transactions', 'totalFee', 'totalFeeHbar'],
+      properties: {
+        transactions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['transactionId', 'type', 'gasUsed', 'fee', 'consensusTimestamp'],
+            properties: {
+              transactionId: { type: 'string' },
+              type: { enum: ['FILE_CREATE', 'FILE_APPEND', 'CONTRACT_CREATE', 'CONTRACT_CALL'] },
+              gasUsed: UINT_STRING,
+              fee: UINT_STRING,
+              consensusTimestamp: { type: 'string' },
+            },
+          },
+        },
+        totalFee: UINT_STRING,
+        totalFeeHbar: { type: 'string' },
+      },
+    },
+    postDeploymentAction: {
+      type: 'object',
+      required: ['type', 'contract', 'contractAddress', 'status'],
+      properties: {
+        type: { enum: ['GRANT_ROLE', 'SET_VERIFICATION_FEE'] },
+        contract: { type: 'string' },
+        contractAddress: EVM_ADDRESS,
+        status: { enum: ['pending', 'applied', 'skipped'] },
+        fee: UINT_STRING,
+      },
+    },
+    upgrade: {
+      type: 'object',
+      required: [
+        'implementationAddress',
+        'previousImplementationAddress',
+        'transactionId',
+        'timestamp',
+        'fee',
+      ],
+      properties: {
+        implementationAddress: EVM_ADDRESS,
+        previousImplementationAddress: EVM_ADDRESS,
+        transactionId: { type: 'string' },
+        timestamp: { type: 'integer', minimum: 0 },
+        fee: UINT_STRING,
+      },
+    },
+  },
+} as const;
+
+type DeploymentRecord = Record<string, unknown>;
+
+/**
+ * Migrations by the schema version they upgrade from
+ */
+const DEPLOYMENT_RESULT_MIGRATIONS: Record<number, (record: DeploymentRecord) => DeploymentRecord> =
+  {
+    // Version 2 records Hedera contract IDs and the total fee
+    1: (record) => {
+      const contracts = record['contracts'];
+      if (contracts && typeof contracts === 'object') {
+        for (const contract of Object.values(contracts as Record<string, DeploymentRecord>)) {
+          const address = contract['address'];
+          // Only long-zero addresses encode the contract ID
+          if (
+            !contract['contractId'] &&
+            typeof address === 'string' &&
+            /^0x0{24}[0-9a-fA-F]{16}$/.test(address)
+          ) {
+            contract['contractId'] = evmAddressToContractId(address);
+          }
+        }
+        const result = record as unknown as DeploymentResult;
+        const hasFees = Object.values(result.contracts).some((contract) => contract?.fees);
+        if (record['totalFee'] === undefined && hasFees) {
+          const totalFee = calculateTotalFee(result);
+          record['totalFee'] = totalFee.toString();
+          record['totalFeeHbar'] = formatHbar(totalFee);
+        }
+      }
+      return record;
+    },
+  };
+
+let deploymentResultValidator: ValidateFunction | undefined;
+
+function formatSchemaError(error: ErrorObject): string {
+  const field = error.instancePath || '/';
+  if (error.keyword === 'required') {
+    return `${field === '/' ? '' : field}/${String(error.params['missingProperty'])} is required`;
+  }
+  return `${field} ${error.message ?? 'is invalid'}`;
+}
+
+/**
+ * Upgrade a deployment record to the current schema version, leaving newer records untouched
+ */
+export function migrateDeploymentResult(record: DeploymentRecord): DeploymentRecord {
+  let version = record['schemaVersion'] ?? 1;
+  let migrated = JSON.parse(JSON.stringify(record)) as DeploymentRecord;
+  while (typeof version === 'number' && version < DEPLOYMENT_RESULT_SCHEMA_VERSION) {
+    const migrate = DEPLOYMENT_RESULT_MIGRATIONS[version];
+    if (!migrate) {
+      break;
     }
+    version += 1;
+    migrated = { ...migrate(migrated), schemaVersion: version };
   }
+  return migrated;
+}
 
-  throw new Error(`Transaction ${transactionId} not confirmed within ${timeout}ms`);
+/**
+ * Parse, migrate and validate a saved deployment result
+ *
+ * Throws DeploymentRecordError listing every invalid field, so a corrupt file is
+ * never mistaken for a missing deployment.
+ */
+export function parseDeploymentResult(content: string, filePath: string): DeploymentResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new DeploymentRecordError(
+      `Deployment record ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_JSON',
+      filePath,
+    );
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new DeploymentRecordError(
+      `Deployment record ${filePath} is not a JSON object`,
+      'INVALID_DEPLOYMENT_RECORD',
+      filePath,
+    );
+  }
+
+  const version = (parsed as DeploymentRecord)['schemaVersion'] ?? 1;
+  if (typeof version === 'number' && version > DEPLOYMENT_RESULT_SCHEMA_VERSION) {
+    throw new DeploymentRecordError(
+      `Deployment record ${filePath} uses schema version ${version}; this version reads up to ${DEPLOYMENT_RESULT_SCHEMA_VERSION}`,
+      'UNSUPPORTED_SCHEMA_VERSION',
+      filePath,
+    );
+  }
+
+  const record = migrateDeploymentResult(parsed as DeploymentRecord);
+  deploymentResultValidator ??= new Ajv({ allErrors: true }).compile(DEPLOYMENT_RESULT_SCHEMA);
+  if (!deploymentResultValidator(record)) {
+    const issues = (deploymentResultValidator.errors ?? []).map(formatSchemaError);
+    throw new DeploymentRecordError(
+      `Deployment record ${filePath} is invalid:\n  - ${issues.join('\n  - ')}`,
+      'INVALID_DEPLOYMENT_RECORD',
+      filePath,
+      issues,
+    );
+  }
+  return record as unknown as DeploymentResult;
+}
+
+/**
+ * Read a saved deployment result from a file
+ */
+export function loadDeploymentResult(filePath: string): DeploymentResult {
+  return parseDeploymentResult(fs.readFileSync(filePath, 'utf8'), filePath);
+}
+
+function serializeDeploymentResult(result: DeploymentResult): string {
+  return JSON.stringify({ schemaVersion: DEPLOYMENT_RESULT_SCHEMA_VERSION, ...result }, null, 2);
 }
 
 /**
@@ -133,12 +653,12 @@ export function saveDeploymentResult(
     const filename = `deployment-${result.network}-${Date.now()}.json`;
     const filepath = path.join(outputDir, filename);
 
-    fs.writeFileSync(filepath, JSON.stringify(result, null, 2));
+    fs.writeFileSync(filepath, serializeDeploymentResult(result));
     logger?.info(`Deployment result saved to ${filepath}`);
 
     // Also save as latest deployment for the network
     const latestFilepath = path.join(outputDir, `latest-${result.network}.json`);
-    fs.writeFileSync(latestFilepath, JSON.stringify(result, null, 2));
+    fs.writeFileSync(latestFilepath, serializeDeploymentResult(result));
     logger?.info(`Latest deployment saved to ${latestFilepath}`);
   } catch (error) {
     logger?.error('Failed to save deployment result:', error);
@@ -147,19 +667,47 @@ export function saveDeploymentResult(
 }
 
 /**
- * Load latest deployment result
+ * Overwrite the latest deployment for a network, e.g. after verifying its contracts
+ */
+export function updateLatestDeployment(
+  result: DeploymentResult,
+  outputDir: string,
+  logger?: Logger,
+): void {
+  const latestFilepath = path.join(outputDir, `latest-${result.network}.json`);
+  fs.writeFileSync(latestFilepath, serializeDeploymentResult(result));
+  logger?.info(`Latest deployment updated at ${latestFilepath}`);
+}
+
+/**
+ * Load latest deployment result, or null if the network has none
+ *
+ * Throws DeploymentRecordError if the file is corrupt or invalid.
  */
 export function loadLatestDeployment(network: string, outputDir: string): DeploymentResult | null {
-  try {
-    const filepath = path.join(outputDir, `latest-${network}.json`);
-    if (fs.existsSync(filepath)) {
-      const content = fs.readFileSync(filepath, 'utf8');
-      return JSON.parse(content) as DeploymentResult;
-    }
-    return null;
-  } catch {
-    return null;
+  const filepath = path.join(outputDir, `latest-${network}.json`);
+  return fs.existsSync(filepath) ? loadDeploymentResult(filepath) : null;
+}
+
+/**
+ * Collect the contract addresses of a deployment in SDK form
+ */
+export function getDeploymentAddresses(deployment: DeploymentResult): SDKContractAddresses {
+  const addresses: SDKContractAddresses = {};
+  const identityAttestation = deployment.contracts['IdentityAttestation']?.address;
+  const proofVault = deployment.contracts['ProofVault']?.address;
+  const legalCaseManager = deployment.contracts['LegalCaseManager']?.address;
+
+  if (identityAttestation) {
+    addresses.identityAttestation = identityAttestation;
+  }
+  if (proofVault) {
+    addresses.proofVault = proofVault;
   }
+  if (legalCaseManager) {
+    addresses.legalCaseManager = legalCaseManager;
+  }
+  return addresses;
 }
 
 /**
@@ -191,6 +739,65 @@ export function calculateTotalGasUsed(result: DeploymentResult): bigint {
   return total;
 }
 
+/**
+ * Calculate total fee charged in tinybars from deployment result
+ */
+export function calculateTotalFee(result: DeploymentResult): bigint {
+  let total = BigInt(0);
+  for (const contract of Object.values(result.contracts)) {
+    total += BigInt(contract.fees?.totalFee ?? 0);
+  }
+  for (const action of result.postDeployment ?? []) {
+    total += BigInt(action.fee ?? 0);
+  }
+  return total;
+}
+
+/**
+ * Extract the gas, fee and consensus time charged for a transaction from its record
+ */
+export function toTransactionCost(
+  record: Pick<
+    TransactionRecord,
+    'transactionId' | 'transactionFee' | 'consensusTimestamp' | 'contractFunctionResult'
+  >,
+  type: DeploymentTransactionType,
+): TransactionCost {
+  return {
+    transactionId: record.transactionId.toString(),
+    type,
+    gasUsed: record.contractFunctionResult?.gasUsed.toString() ?? '0',
+    fee: record.transactionFee.toTinybars().toString(),
+    consensusTimestamp: record.consensusTimestamp.toString(),
+  };
+}
+
+/**
+ * Fetch the record of a confirmed transaction and extract what it cost
+ */
+export async function getTransactionCost(
+  client: Client,
+  transactionId: string,
+  type: DeploymentTransactionType,
+): Promise<TransactionCost> {
+  const record = await new TransactionRecordQuery()
+    .setTransactionId(TransactionId.fromString(transactionId))
+    .execute(client);
+  return toTransactionCost(record, type);
+}
+
+/**
+ * Total the fees charged for a set of transactions
+ */
+export function summarizeTransactionCosts(transactions: TransactionCost[]): DeploymentFees {
+  const totalFee = transactions.reduce((total, cost) => total + BigInt(cost.fee), BigInt(0));
+  return {
+    transactions,
+    totalFee: totalFee.toString(),
+    totalFeeHbar: formatHbar(totalFee),
+  };
+}
+
 /**
  * Validate EVM address format
  */
@@ -256,7 +863,12 @@ export function getContractArtifactPath(contractName: string): string {
 /**
  * Load contract artifact
  */
-export function loadContractArtifact(contractName: string): { bytecode: string; abi: unknown[] } {
+export function loadContractArtifact(contractName: string): {
+  bytecode: string;
+  deployedBytecode: string;
+  abi: unknown[];
+  linkReferences?: LinkReferences;
+} {
   const artifactPath = getContractArtifactPath(contractName);
 
   if (!fs.existsSync(artifactPath)) {
@@ -266,3 +878,25 @@ export function loadContractArtifact(contractName: string): { bytecode: string;
   const content = fs.readFileSync(artifactPath, 'utf8');
   return JSON.parse(content);
 }
+
+/**
+ * Load the Hardhat build info a contract artifact was compiled in
+ */
+export function loadContractBuildInfo(
+  contractName: string,
+  artifactsDir = path.join(process.cwd(), 'artifacts'),
+): { sourceName: string; buildInfo: HardhatBuildInfo } {
+  const sourceName = `contracts/${contractName}.sol`;
+  const debugPath = path.join(artifactsDir, sourceName, `${contractName}.dbg.json`);
+  if (!fs.existsSync(debugPath)) {
+    throw new Error(`Build info not found for ${contractName}: ${debugPath}`);
+  }
+
+  const { buildInfo } = JSON.parse(fs.readFileSync(debugPath, 'utf8')) as { buildInfo: string };
+  return {
+    sourceName,
+    buildInfo: JSON.parse(
+      fs.readFileSync(path.resolve(path.dirname(debugPath), buildInfo), 'utf8'),
+    ) as HardhatBuildInfo,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Contract source verification against Sourcify-compatible servers
+ *
+ * HashScan verifies Hedera contracts through a Sourcify server. Verification
+ * submits the contract metadata and sources from the Hardhat build info, then
+ * polls the server until it reports a full or partial match.
+ */
+
+import { getAddress } from 'ethers';
+import path from 'path';
+import type {
+  Logger,
+  SourceVerificationInput,
+  SourceVerificationResult,
+  SourceVerificationStatus,
+  SourcifyVerifierOptions,
+  VerificationOptions,
+} from '../types';
+import { ContractVerificationError } from '../types';
+import { loadContractBuildInfo, sleep } from '../utils';
+
+interface SourcifyCheckResponse {
+  address: string;
+  status?: string;
+  chainIds?: { chainId: string; status: string }[];
+}
+
+interface SourcifyVerifyResponse {
+  result?: { address: string; status: string; message?: string }[];
+  error?: string;
+}
+
+/**
+ * Build the standard-JSON input and metadata for a contract from its Hardhat build info
+ */
+export function loadVerificationInput(
+  contractName: string,
+  artifactsDir = path.join(process.cwd(), 'artifacts'),
+): SourceVerificationInput {
+  const { sourceName, buildInfo: build } = loadContractBuildInfo(contractName, artifactsDir);
+  const metadata = build.output.contracts[sourceName]?.[contractName]?.metadata;
+  if (!metadata) {
+    throw new Error(`No metadata in build info for ${sourceName}:${contractName}`);
+  }
+
+  return {
+    contractName,
+    sourceName,
+    compilerVersion: build.solcLongVersion,
+    standardJsonInput: build.input,
+    metadata,
+  };
+}
+
+/**
+ * Verifies deployed contracts on a Sourcify-compatible server such as HashScan's
+ */
+export class SourcifyVerifier {
+  private readonly apiUrl: string;
+  private readonly chainId: number;
+  private readonly artifactsDir: string | undefined;
+  private readonly pollInterval: number;
+  private readonly timeout: number;
+  private readonly logger: Logger | undefined;
+
+  constructor(options: SourcifyVerifierOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '');
+    this.chainId = options.chainId;
+    this.artifactsDir = options.artifactsDir;
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.timeout = options.timeout ?? 120000;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Get the verification status of an address on this verifier's chain
+   */
+  public async checkStatus(address: string): Promise<SourceVerificationStatus> {
+    const params = new URLSearchParams({
+      addresses: getAddress(address),
+      chainIds: String(this.chainId),
+    });
+    const [entry] = await this.request<SourcifyCheckResponse[]>(
+      address,
+      `/check-by-addresses?${params.toString()}`,
+    );
+
+    const status =
+      entry?.chainIds?.find((chain) => chain.chainId === String(this.chainId))?.status ??
+      entry?.status;
+    return status === 'perfect' || status === 'partial' ? status : 'false';
+  }
+
+  /**
+   * Submit a contract's sources and wait until the server reports a match
+   */
+  public async verify(options: VerificationOptions): Promise<SourceVerificationResult> {
+    const address = getAddress(options.contractAddress);
+
+    const existing = await this.checkStatus(address);
+    if (existing !== 'false') {
+      this.logger?.info(`${options.contractName} is already verified (${existing} match)`);
+      return { address, chainId: this.chainId, status: existing };
+    }
+
+    let input: SourceVerificationInput;
+    try {
+      input = loadVerificationInput(options.contractName, this.artifactsDir);
+    } catch (error) {
+      throw new ContractVerificationError(
+        `Cannot build verification input for ${options.contractName}`,
+        address,
+        error,
+      );
+    }
+
+    const files: Record<string, string> = { 'metadata.json': input.metadata };
+    for (const [sourceName, source] of Object.entries(input.standardJsonInput.sources)) {
+      files[sourceName] = source.content;
+    }
+
+    this.logger?.info(
+      `Submitting ${input.sourceName}:${input.contractName} (solc ${input.compilerVersion}) to ${this.apiUrl}`,
+    );
+    const response = await this.request<SourcifyVerifyResponse>(address, '/verify', {
+      address,
+      chain: String(this.chainId),
+      files,
+    });
+    const submitted = response.result?.find(
+      (result) => result.address.toLowerCase() === address.toLowerCase(),
+    );
+    if (submitted?.message) {
+      this.logger?.debug(`Verification server replied: ${submitted.message}`);
+    }
+
+    const deadline = Date.now() + this.timeout;
+    for (;;) {
+      const status = await this.checkStatus(address);
+      if (status !== 'false') {
+        return { address, chainId: this.chainId, status };
+      }
+      if (Date.now() + this.pollInterval > deadline) {
+        throw new ContractVerificationError(
+          `Verification of ${options.contractName} did not complete within ${this.timeout}ms`,
+          address,
+          { chainId: this.chainId },
+        );
+      }
+      await sleep(this.pollInterval);
+    }
+  }
+
+  private async request<T>(address: string, pathAndQuery: string, body?: unknown): Promise<T> {
+    const url = `${this.apiUrl}${pathAndQuery}`;
+
+    let response: Response;
+    try {
+      response = await fetch(
+        url,
+        body === undefined
+          ? { headers: { Accept: 'application/json' } }
+          : {
+              method: 'POST',
+              headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+              body: JSON.stringify(body),
+            },
+      );
+    } catch (error) {
+      throw new ContractVerificationError(
+        `Verification server unreachable at ${this.apiUrl}`,
+        address,
+        error,
+      );
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new ContractVerificationError(
+        `Verification request ${pathAndQuery.split('?')[0]} failed with HTTP ${response.status}: ${text}`,
+        address,
+        { status: response.status },
+      );
+    }
+    return JSON.parse(text) as T;
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Tests for the typed configuration loader
+ */
+
+import { expect } from 'chai';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConfigError,
+  extractConfigFlags,
+  getDeploymentOutputDir,
+  getHederaClientConfig,
+  getLogLevel,
+  getNetworkConfig,
+  isValidHederaPrivateKey,
+  loadConfig,
+  redactConfig,
+  resolveConfig,
+  setConfigOptions,
+} from '../src';
+
+const OPERATOR_KEY = `0x${'11'.repeat(32)}`;
+const ED25519_DER_KEY = `302e020100300506032b657004220420${'22'.repeat(32)}`;
+const ECDSA_DER_KEY = `3030020100300706052b8104000a04220420${'33'.repeat(32)}`;
+
+function expectConfigError(fn: () => unknown, code: string): ConfigError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).to.be.instanceOf(ConfigError);
+    expect((error as ConfigError).code).to.equal(code);
+    return error as ConfigError;
+  }
+  return expect.fail(`Expected ${code}`);
+}
+
+describe('Configuration', () => {
+  let cwd: string;
+
+  function writeConfig(name: string, content: string): string {
+    const filePath = path.join(cwd, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-config-'));
+  });
+
+  afterEach(() => {
+    setConfigOptions({});
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('Should fall back to defaults without a config file or env vars', () => {
+    const { config, sources, configFile } = resolveConfig({ env: {}, cwd });
+
+    expect(configFile).to.be.undefined;
+    expect(config.network).to.equal('testnet');
+    expect(config.networks.testnet).to.deep.equal({
+      hederaNetwork: 'testnet',
+      rpcUrl: 'https://testnet.hashio.io/api',
+      chainId: 296,
+      timeout: 60000,
+      mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+    });
+    expect(config.gas).to.deep.equal({ price: 'auto', limit: 8000000 });
+    expect(config.ci).to.be.false;
+    expect(new Set(Object.values(sources))).to.deep.equal(new Set(['default']));
+  });
+
+  it('Should apply the config file, env vars and flags in order of precedence', () => {
+    writeConfig(
+      'proofvault.config.json',
+      JSON.stringify({
+        networks: { testnet: { operatorId: '0.0.5', timeout: 90000 } },
+        gas: { limit: 9000000 },
+        logLevel: 'debug',
+      }),
+    );
+
+    const { config, sources } = resolveConfig({
+      cwd,
+      env: { OPERATOR_ID: '0.0.6', GAS_LIMIT: '10000000', LOG_LEVEL: '', NETWORK: 'mainnet' },
+      overrides: { 'gas.limit': '11000000' },
+      network: 'testnet',
+    });
+
+    expect(config.networks.testnet.timeout).to.equal(90000);
+    expect(sources['networks.testnet.timeout']).to.equal('proofvault.config.json');
+    // Empty env vars count as unset
+    expect(config.logLevel).to.equal('debug');
+    expect(config.networks.testnet.operatorId).to.equal('0.0.6');
+    expect(sources['networks.testnet.operatorId']).to.equal('env:OPERATOR_ID');
+    expect(config.gas.limit).to.equal(11000000);
+    expect(sources['gas.limit']).to.equal('--set');
+    expect(config.network).to.equal('testnet');
+    expect(sources['network']).to.equal('--network');
+  });
+
+  it('Should prefer a TypeScript config file and honour an explicit path', () => {
+    writeConfig('proofvault.config.json', JSON.stringify({ network: 'local' }));
+    writeConfig(
+      'proofvault.config.ts',
+      "const config: Record<string, unknown> = { network: 'mainnet' };\nexport default config;\n",
+    );
+
+    expect(resolveConfig({ env: {}, cwd }).config.network).to.equal('mainnet');
+    expect(
+      resolveConfig({ env: {}, cwd, configPath: 'proofvault.config.json' }).config.network,
+    ).to.equal('local');
+    expect(
+      resolveConfig({ env: { PROOFVAULT_CONFIG: 'proofvault.config.json' }, cwd }).config.network,
+    ).to.equal('local');
+
+    expectConfigError(
+      () => resolveConfig({ env: {}, cwd, configPath: 'missing.json' }),
+      'CONFIG_NOT_FOUND',
+    );
+    writeConfig('broken.json', '{ "network": ');
+    expectConfigError(
+      () => resolveConfig({ env: {}, cwd, configPath: 'broken.json' }),
+      'INVALID_CONFIG_FILE',
+    );
+  });
+
+  it('Should report every invalid setting at once with its source', () => {
+    writeConfig(
+      'proofvault.config.json',
+      JSON.stringify({ networks: { mainnet: { chainId: 296 } }, gas: { limt: 1 } }),
+    );
+
+    const error = expectConfigError(
+      () =>
+        resolveConfig({
+          cwd,
+          env: {
+            RPC_URL: 'ftp://testnet.hashio.io',
+            OPERATOR_KEY: '0x1234',
+            OPERATOR_ID: 'alice',
+            GAS_LIMIT: '0',
+            INDEXER_BATCH_SIZE: 'many',
+            LOCAL_CONSENSUS_NODES: '127.0.0.1:50211',
+          },
+          network: 'previewnet',
+        }),
+      'INVALID_CONFIG',
+    );
+
+    expect(error.issues).to.have.members([
+      'networks.local.consensusNodes: Invalid consensus node "127.0.0.1:50211"; expected <host:port>=<node account ID> (from env:LOCAL_CONSENSUS_NODES)',
+      'network: Unsupported network: previewnet (from --network)',
+      'networks.testnet.rpcUrl: must be an http(s) or ws(s) URL (from env:RPC_URL)',
+      'networks.testnet.operatorKey: must be a 32-byte hex or DER-encoded private key (from env:OPERATOR_KEY)',
+      'networks.testnet.operatorId: must be an account ID such as 0.0.1234 (from env:OPERATOR_ID)',
+      'networks.mainnet.chainId: must be 295 (from proofvault.config.json)',
+      'gas.limt: is not a known setting (from proofvault.config.json)',
+      'gas.limit: must be >= 1 (from env:GAS_LIMIT)',
+      'indexer.batchSize: must be integer (from env:INDEXER_BATCH_SIZE)',
+    ]);
+    expect(error.message).to.contain('Invalid configuration:');
+  });
+
+  it('Should require operator credentials only for the network in use', () => {
+    setConfigOptions({ env: { LOCAL_OPERATOR_ID: '0.0.2' }, cwd });
+
+    expect(getHederaClientConfig('local')).to.deep.include({
+      operatorId: '0.0.2',
+      nodes: { '127.0.0.1:50211': '0.0.3' },
+    });
+    const error = expectConfigError(() => getNetworkConfig('testnet'), 'MISSING_SETTING');
+    expect(error.message).to.contain('set OPERATOR_KEY');
+  });
+
+  it('Should define named networks that inherit their Hedera network defaults', () => {
+    writeConfig(
+      'proofvault.config.json',
+      JSON.stringify({
+        network: 'staging',
+        networks: {
+          staging: {
+            hederaNetwork: 'testnet',
+            rpcUrl: 'https://relay.staging.example/api',
+            outputDir: './deployments/staging',
+          },
+          previewnet: { hederaNetwork: 'previewnet' },
+        },
+      }),
+    );
+    setConfigOptions({
+      cwd,
+      env: {
+        STAGING_OPERATOR_ID: '0.0.7',
+        STAGING_OPERATOR_KEY: OPERATOR_KEY,
+        OPERATOR_ID: '0.0.2',
+      },
+    });
+
+    const { config, sources } = resolveConfig();
+    expect(config.networks['staging']).to.deep.equal({
+      hederaNetwork: 'testnet',
+      rpcUrl: 'https://relay.staging.example/api',
+      outputDir: './deployments/staging',
+      operatorKey: OPERATOR_KEY,
+      operatorId: '0.0.7',
+      chainId: 296,
+      timeout: 60000,
+      mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+    });
+    expect(sources['networks.staging.operatorId']).to.equal('env:STAGING_OPERATOR_ID');
+    expect(sources['networks.staging.chainId']).to.equal('default');
+    expect(config.networks['previewnet']).to.deep.include({
+      rpcUrl: 'https://previewnet.hashio.io/api',
+      chainId: 297,
+    });
+
+    expect(getNetworkConfig()).to.deep.include({
+      network: 'staging',
+      hederaNetwork: 'testnet',
+      operatorId: '0.0.7',
+      outputDir: './deployments/staging',
+    });
+    expect(getHederaClientConfig('staging')).to.deep.include({
+      network: 'testnet',
+      operatorId: '0.0.7',
+    });
+    expect(getDeploymentOutputDir('previewnet')).to.equal('./deployments');
+    const error = expectConfigError(() => getHederaClientConfig('previewnet'), 'MISSING_SETTING');
+    expect(error.message).to.contain('set PREVIEWNET_OPERATOR_ID');
+  });
+
+  it('Should define networks from env vars alone and validate them', () => {
+    const env = {
+      PROOFVAULT_NETWORKS: 'dev-alice',
+      DEV_ALICE_HEDERA_NETWORK: 'local',
+      DEV_ALICE_CHAIN_ID: '299',
+      DEV_ALICE_CONSENSUS_NODES: '10.0.0.5:50211=0.0.3',
+    };
+    expect(
+      resolveConfig({ cwd, env, network: 'dev-alice' }).config.networks['dev-alice'],
+    ).to.deep.include({
+      chainId: 299,
+      rpcUrl: 'http://localhost:7546',
+      consensusNodes: { '10.0.0.5:50211': '0.0.3' },
+    });
+
+    writeConfig(
+      'proofvault.config.json',
+      JSON.stringify({ networks: { Staging: { hederaNetwork: 'testnet' } } }),
+    );
+    const error = expectConfigError(
+      () =>
+        resolveConfig({
+          cwd,
+          env: { PROOFVAULT_NETWORKS: 'qa', QA_HEDERA_NETWORK: 'mainnet', QA_CHAIN_ID: '296' },
+          network: 'staging',
+        }),
+      'INVALID_CONFIG',
+    );
+    expect(error.issues).to.have.members([
+      'networks.Staging: network names must start with a lowercase letter and contain only a-z, 0-9 and - (from proofvault.config.json)',
+      'networks.qa.chainId: must be 295 (from env:QA_CHAIN_ID)',
+      'network: Unsupported network: staging (from --network)',
+    ]);
+  });
+
+  it('Should reuse a loaded configuration until its inputs change', () => {
+    const env: Record<string, string | undefined> = { GAS_LIMIT: '9000000' };
+    setConfigOptions({ cwd, env });
+
+    const loaded = loadConfig();
+    loaded.gas.limit = 1;
+    expect(loadConfig().gas.limit).to.equal(9000000);
+
+    env['GAS_LIMIT'] = '10000000';
+    expect(loadConfig().gas.limit).to.equal(10000000);
+    expect(loadConfig({ overrides: { 'gas.limit': '11000000' } }).gas.limit).to.equal(11000000);
+  });
+
+  it('Should validate the settings of other networks only when they are selected', () => {
+    setConfigOptions({ cwd, env: { LOG_LEVEL: 'debug', MAINNET_CHAIN_ID: '296' } });
+    expect(loadConfig().network).to.equal('testnet');
+    const error = expectConfigError(() => loadConfig({ network: 'mainnet' }), 'INVALID_CONFIG');
+    expect(error.issues).to.deep.equal([
+      'networks.mainnet.chainId: must be 295 (from env:MAINNET_CHAIN_ID)',
+    ]);
+    expect(getLogLevel()).to.equal('debug');
+
+    setConfigOptions({ cwd, env: { LOG_LEVEL: 'warn', GAS_LIMIT: '0' } });
+    expectConfigError(() => loadConfig(), 'INVALID_CONFIG');
+    expect(getLogLevel()).to.equal('warn');
+  });
+
+  it('Should load the local network from the shipped .env.example', () => {
+    const env = dotenv.parse(fs.readFileSync(path.join(__dirname, '..', '.env.example')));
+    setConfigOptions({ cwd, env });
+
+    expect(getNetworkConfig('local')).to.deep.include({
+      network: 'local',
+      rpcUrl: 'http://localhost:7546',
+      chainId: 298,
+      operatorId: '0.0.1012',
+    });
+    expect(getHederaClientConfig('local')).to.deep.include({ operatorId: '0.0.1012' });
+    expect(getLogLevel()).to.equal('info');
+  });
+
+  it('Should redact secrets when printing the configuration', () => {
+    const { config } = resolveConfig({
+      cwd,
+      env: { OPERATOR_KEY: OPERATOR_KEY, ETHERSCAN_API_KEY: 'verification-secret' },
+    });
+
+    const redacted = redactConfig(config);
+    expect(redacted.networks.testnet.operatorKey).to.equal('<redacted>');
+    expect(redacted.verification.apiKey).to.equal('<redacted>');
+    expect(redacted.networks.mainnet.operatorKey).to.be.undefined;
+    expect(JSON.stringify(redacted)).not.to.contain('verification-secret');
+    expect(config.networks.testnet.operatorKey).to.equal(OPERATOR_KEY);
+  });
+
+  it('Should extract --config and --set flags from script arguments', () => {
+    expect(
+      extractConfigFlags([
+        'testnet',
+        '--config',
+        'custom.json',
+        '--set',
+        'gas.limit=9000000',
+        '--set=verification.apiUrl=https://verify.example/?a=b',
+        '--fresh',
+      ]),
+    ).to.deep.equal({
+      argv: ['testnet', '--fresh'],
+      options: {
+        configPath: 'custom.json',
+        overrides: {
+          'gas.limit': '9000000',
+          'verification.apiUrl': 'https://verify.example/?a=b',
+        },
+      },
+    });
+    expectConfigError(() => extractConfigFlags(['--set', 'gas.limit']), 'INVALID_FLAG');
+    expectConfigError(() => extractConfigFlags(['--config']), 'INVALID_FLAG');
+  });
+
+  it('Should accept only well-formed private keys', () => {
+    expect(isValidHederaPrivateKey(OPERATOR_KEY)).to.be.true;
+    expect(isValidHederaPrivateKey('ab'.repeat(32))).to.be.true;
+    expect(isValidHederaPrivateKey(ED25519_DER_KEY)).to.be.true;
+    expect(isValidHederaPrivateKey(ECDSA_DER_KEY)).to.be.true;
+
+    expect(isValidHederaPrivateKey(`0x${'zz'.repeat(32)}`)).to.be.false;
+    expect(isValidHederaPrivateKey('your_testnet_private_key_here'.padEnd(64, '_'))).to.be.false;
+    expect(isValidHederaPrivateKey('44'.repeat(48))).to.be.false;
+    expect(isValidHederaPrivateKey(`0x${'11'.repeat(31)}`)).to.be.false;
+  });
+});
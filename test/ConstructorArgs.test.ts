@@ -0,0 +1,96 @@
+/**
+ * Tests for ABI-driven constructor argument encoding
+ */
+
+import { expect } from 'chai';
+import { AbiCoder, hexlify } from 'ethers';
+import { DeploymentError, encodeConstructorArgs, loadContractArtifact } from '../src';
+
+const IDENTITY = '0x00000000000000000000000000000000000003e9';
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+
+const SAMPLE_ABI = [
+  {
+    type: 'constructor',
+    stateMutability: 'nonpayable',
+    inputs: [
+      {
+        name: 'config',
+        type: 'tuple',
+        components: [
+          { name: 'owner', type: 'address' },
+          { name: 'fee', type: 'uint8' },
+        ],
+      },
+      { name: 'root', type: 'bytes32' },
+      { name: 'offset', type: 'int16' },
+      { name: 'limits', type: 'uint256[2]' },
+      { name: 'enabled', type: 'bool' },
+    ],
+  },
+];
+
+const VALID_ARGS = [
+  { owner: PROOF_VAULT, fee: 5 },
+  `0x${'ab'.repeat(32)}`,
+  -300,
+  ['1000', 2000n],
+  true,
+];
+
+function expectInvalidArgs(args: unknown[], message: string, abi: unknown[] = SAMPLE_ABI): void {
+  try {
+    encodeConstructorArgs('Sample', abi, args);
+    expect.fail('Expected invalid constructor arguments to be rejected');
+  } catch (error) {
+    expect(error).to.be.instanceOf(DeploymentError);
+    expect((error as DeploymentError).code).to.equal('INVALID_CONSTRUCTOR_ARGS');
+    expect((error as DeploymentError).message).to.contain(message);
+  }
+}
+
+describe('Constructor argument encoding', () => {
+  it('Should encode LegalCaseManager addresses from its artifact ABI', () => {
+    const { abi } = loadContractArtifact('LegalCaseManager');
+
+    expect(
+      hexlify(encodeConstructorArgs('LegalCaseManager', abi, [PROOF_VAULT, IDENTITY])),
+    ).to.equal(AbiCoder.defaultAbiCoder().encode(['address', 'address'], [PROOF_VAULT, IDENTITY]));
+    expect(
+      encodeConstructorArgs('ProofVault', loadContractArtifact('ProofVault').abi, []),
+    ).to.have.length(0);
+  });
+
+  it('Should encode structs, fixed bytes, signed ints and fixed arrays', () => {
+    const expected = AbiCoder.defaultAbiCoder().encode(
+      ['tuple(address,uint8)', 'bytes32', 'int16', 'uint256[2]', 'bool'],
+      [[PROOF_VAULT, 5], `0x${'ab'.repeat(32)}`, -300, [1000, 2000], true],
+    );
+
+    expect(hexlify(encodeConstructorArgs('Sample', SAMPLE_ABI, VALID_ARGS))).to.equal(expected);
+    expect(
+      hexlify(
+        encodeConstructorArgs('Sample', SAMPLE_ABI, [[PROOF_VAULT, 5], ...VALID_ARGS.slice(1)]),
+      ),
+    ).to.equal(expected);
+  });
+
+  it('Should reject argument counts that do not match the constructor', () => {
+    const { abi } = loadContractArtifact('LegalCaseManager');
+    expectInvalidArgs([PROOF_VAULT], 'expects 2 arguments (address _proofVault', abi);
+  });
+
+  it('Should name the parameter when a value does not fit its type', () => {
+    const withArg = (index: number, value: unknown): unknown[] =>
+      VALID_ARGS.map((arg, i) => (i === index ? value : arg));
+
+    expectInvalidArgs(withArg(0, { owner: 'not-an-address', fee: 5 }), 'argument config.owner');
+    expectInvalidArgs(withArg(0, { owner: PROOF_VAULT }), 'missing field fee');
+    expectInvalidArgs(withArg(0, { owner: PROOF_VAULT, fee: 256 }), 'argument config.fee (uint8)');
+    expectInvalidArgs(withArg(1, '0x1234'), 'argument root (bytes32)');
+    expectInvalidArgs(withArg(2, 40000), 'argument offset (int16)');
+    expectInvalidArgs(withArg(3, [1, 2, 3]), 'expected 2 elements, got 3');
+    expectInvalidArgs(withArg(3, [1, 2 ** 60]), 'not a safe integer');
+    expectInvalidArgs(withArg(4, 'true'), 'argument enabled (bool): expected true or false');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for Hedera contract ID and EVM address conversion
+ */
+
+import { ContractId, PrivateKey } from '@hashgraph/sdk';
+import type { AccountInfo, ContractInfo } from '@hashgraph/sdk';
+import { expect } from 'chai';
+import fc from 'fast-check';
+import {
+  contractIdToEvmAddress,
+  evmAddressToContractId,
+  toContractId,
+  toHederaContractInfo,
+} from '../src';
+
+const entityId = fc
+  .tuple(
+    fc.bigInt({ min: 0n, max: (1n << 32n) - 1n }),
+    fc.bigInt({ min: 0n, max: (1n << 64n) - 1n }),
+    fc.bigInt({ min: 0n, max: (1n << 64n) - 1n }),
+  )
+  .map(([shard, realm, num]) => `${shard}.${realm}.${num}`);
+
+const evmAddress = fc
+  .uint8Array({ minLength: 20, maxLength: 20 })
+  .map((bytes) => `0x${Buffer.from(bytes).toString('hex')}`);
+
+describe('Contract address conversion', () => {
+  it('Should round-trip entity IDs through long-zero EVM addresses', () => {
+    fc.assert(
+      fc.property(entityId, (id) => {
+        const address = contractIdToEvmAddress(id);
+        expect(address).to.match(/^0x[0-9a-f]{40}$/);
+        expect(evmAddressToContractId(address)).to.equal(id);
+      }),
+    );
+  });
+
+  it('Should round-trip EVM addresses through entity IDs', () => {
+    fc.assert(
+      fc.property(evmAddress, (address) => {
+        expect(contractIdToEvmAddress(evmAddressToContractId(address))).to.equal(address);
+      }),
+    );
+  });
+
+  it('Should encode shard and realm like the Hedera SDK', () => {
+    fc.assert(
+      fc.property(
+        fc.nat({ max: 1000 }),
+        fc.nat({ max: 1000 }),
+        fc.nat({ max: 2 ** 31 }),
+        (shard, realm, num) => {
+          const id = `${shard}.${realm}.${num}`;
+          expect(contractIdToEvmAddress(id)).to.equal(
+            `0x${ContractId.fromString(id).toSolidityAddress()}`,
+          );
+        },
+      ),
+    );
+    expect(contractIdToEvmAddress('1.2.3')).to.equal('0x0000000100000000000000020000000000000003');
+  });
+
+  it('Should decode long-zero addresses and resolve EVM aliases in the given shard and realm', () => {
+    expect(toContractId('1.2.3').toString()).to.equal('1.2.3');
+    expect(toContractId(contractIdToEvmAddress('1.2.3'), 1, 2).toString()).to.equal('1.2.3');
+    expect(toContractId(contractIdToEvmAddress('0.0.1001')).toString()).to.equal('0.0.1001');
+
+    const alias = '0x7d3f0e2b4a5c6d7e8f90a1b2c3d4e5f60718293a';
+    const contractId = toContractId(alias, 1, 2);
+    expect([contractId.shard.toNumber(), contractId.realm.toNumber()]).to.deep.equal([1, 2]);
+    expect(`0x${contractId.toSolidityAddress()}`).to.equal(alias);
+  });
+
+  it('Should reject malformed and out-of-range IDs and addresses', () => {
+    expect(() => contractIdToEvmAddress('0.0')).to.throw('Invalid contract ID format');
+    expect(() => contractIdToEvmAddress('0.0.-1')).to.throw('Invalid contract ID format');
+    expect(() => contractIdToEvmAddress(`0.0.${1n << 64n}`)).to.throw('out of range');
+    expect(() => contractIdToEvmAddress(`${1n << 32n}.0.1`)).to.throw('out of range');
+    expect(() => evmAddressToContractId('0x1234')).to.throw('Invalid EVM address format');
+  });
+
+  it('Should map contract info including the EVM alias', () => {
+    const adminKey = PrivateKey.generateED25519().publicKey;
+    const info = toHederaContractInfo(
+      {
+        contractId: ContractId.fromString('0.0.1000'),
+        contractAccountId: 'AB'.repeat(20),
+        adminKey,
+        contractMemo: 'ProofVault',
+        autoRenewPeriod: { seconds: { toNumber: () => 7776000 } },
+      } as unknown as Pick<
+        ContractInfo,
+        'contractId' | 'contractAccountId' | 'adminKey' | 'contractMemo' | 'autoRenewPeriod'
+      >,
+      { maxAutomaticTokenAssociations: { toNumber: () => 10 } } as unknown as Pick<
+        AccountInfo,
+        'maxAutomaticTokenAssociations'
+      >,
+    );
+
+    expect(info).to.deep.equal({
+      contractId: '0.0.1000',
+      evmAddress: `0x${'ab'.repeat(20)}`,
+      adminKey: adminKey.toString(),
+      memo: 'ProofVault',
+      autoRenewPeriod: 7776000,
+      maxAutomaticTokenAssociations: 10,
+    });
+  });
+});
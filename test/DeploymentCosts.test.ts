@@ -0,0 +1,89 @@
+/**
+ * Tests for deployment gas and fee accounting
+ */
+
+import { Hbar, Timestamp, TransactionId } from '@hashgraph/sdk';
+import type { TransactionRecord } from '@hashgraph/sdk';
+import { expect } from 'chai';
+import {
+  calculateTotalFee,
+  calculateTotalGasUsed,
+  summarizeTransactionCosts,
+  toTransactionCost,
+} from '../src';
+import type { DeploymentResult } from '../src';
+
+function transactionRecord(
+  transactionId: string,
+  tinybars: number,
+  gasUsed?: number,
+): Pick<
+  TransactionRecord,
+  'transactionId' | 'transactionFee' | 'consensusTimestamp' | 'contractFunctionResult'
+> {
+  return {
+    transactionId: TransactionId.fromString(transactionId),
+    transactionFee: Hbar.fromTinybars(tinybars),
+    consensusTimestamp: new Timestamp(1700000000, 123),
+    contractFunctionResult: (gasUsed === undefined
+      ? null
+      : {
+          gasUsed: { toString: () => String(gasUsed) },
+        }) as TransactionRecord['contractFunctionResult'],
+  };
+}
+
+describe('Deployment costs', () => {
+  it('Should extract gas, fee and consensus time from transaction records', () => {
+    const fileCreate = toTransactionCost(
+      transactionRecord('0.0.2@1700000000.1', 5_000_000),
+      'FILE_CREATE',
+    );
+    const contractCreate = toTransactionCost(
+      transactionRecord('0.0.2@1700000000.2', 95_000_000, 1_234_567),
+      'CONTRACT_CREATE',
+    );
+
+    expect(fileCreate).to.deep.equal({
+      transactionId: '0.0.2@1700000000.000000001',
+      type: 'FILE_CREATE',
+      gasUsed: '0',
+      fee: '5000000',
+      consensusTimestamp: '1700000000.000000123',
+    });
+    expect(contractCreate.gasUsed).to.equal('1234567');
+
+    const fees = summarizeTransactionCosts([fileCreate, contractCreate]);
+    expect(fees.totalFee).to.equal('100000000');
+    expect(fees.totalFeeHbar).to.equal('1.00000000 HBAR');
+  });
+
+  it('Should total gas and fees across deployed contracts', () => {
+    const contract = (
+      gasUsed: string,
+      totalFee: string,
+    ): DeploymentResult['contracts'][string] => ({
+      name: 'ProofVault',
+      address: '0x00000000000000000000000000000000000003e8',
+      transactionHash: '0.0.2@1700000000.2',
+      blockNumber: 42,
+      gasUsed,
+      deploymentTimestamp: 1700000000000,
+      fees: { transactions: [], totalFee, totalFeeHbar: '' },
+    });
+    const result: DeploymentResult = {
+      network: 'testnet',
+      deployer: '0.0.2',
+      timestamp: 1700000000000,
+      contracts: {
+        ProofVault: contract('1200000', '95000000'),
+        IdentityAttestation: contract('800000', '60000000'),
+      },
+      totalGasUsed: '0',
+      success: true,
+    };
+
+    expect(calculateTotalGasUsed(result)).to.equal(2_000_000n);
+    expect(calculateTotalFee(result)).to.equal(155_000_000n);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for browsing, diffing and rolling back saved deployments
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DeploymentError,
+  diffDeployments,
+  getDeploymentJournalPath,
+  listDeploymentHistory,
+  loadDeploymentRecord,
+  loadDeploymentResult,
+  loadLatestDeployment,
+  recordVerifiedContracts,
+  rollbackLatestDeployment,
+} from '../src';
+import type { DeployedContract, DeploymentResult } from '../src';
+
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+const IDENTITY = '0x00000000000000000000000000000000000003e9';
+const PROOF_VAULT_V2 = '0x00000000000000000000000000000000000003f0';
+const BYTECODE_HASH = `0x${'01'.repeat(32)}`;
+const UPDATED_BYTECODE_HASH = `0x${'02'.repeat(32)}`;
+
+function contract(
+  name: string,
+  address: string,
+  overrides: Partial<DeployedContract> = {},
+): DeployedContract {
+  return {
+    name,
+    address,
+    transactionHash: '0.0.2@1700000000.1',
+    blockNumber: 1,
+    gasUsed: '100000',
+    deploymentTimestamp: 1700000000000,
+    constructorArgs: [],
+    bytecodeHash: BYTECODE_HASH,
+    ...overrides,
+  };
+}
+
+function deployment(
+  timestamp: number,
+  contracts: DeployedContract[],
+  overrides: Partial<DeploymentResult> = {},
+): DeploymentResult {
+  return {
+    network: 'testnet',
+    deployer: '0.0.2',
+    timestamp,
+    contracts: Object.fromEntries(contracts.map((deployed) => [deployed.name, deployed])),
+    totalGasUsed: contracts
+      .reduce((total, deployed) => total + BigInt(deployed.gasUsed), 0n)
+      .toString(),
+    success: true,
+    ...overrides,
+  };
+}
+
+function expectDeploymentError(fn: () => unknown, code: string): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).to.be.instanceOf(DeploymentError);
+    expect((error as DeploymentError).code).to.equal(code);
+    return;
+  }
+  expect.fail(`Expected ${code}`);
+}
+
+describe('Deployment history', () => {
+  let outputDir: string;
+
+  const save = (id: number, result: DeploymentResult, latest = false): void => {
+    const content = JSON.stringify(result, null, 2);
+    fs.writeFileSync(path.join(outputDir, `deployment-${result.network}-${id}.json`), content);
+    if (latest) {
+      fs.writeFileSync(path.join(outputDir, `latest-${result.network}.json`), content);
+    }
+  };
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-history-'));
+
+    save(1000, deployment(1700000000000, [contract('ProofVault', PROOF_VAULT)]));
+    save(
+      2000,
+      deployment(1700000100000, [contract('ProofVault', PROOF_VAULT)], {
+        success: false,
+        error: 'INSUFFICIENT_PAYER_BALANCE',
+      }),
+    );
+    save(
+      3000,
+      deployment(1700000200000, [
+        contract('ProofVault', PROOF_VAULT_V2, {
+          gasUsed: '90000',
+          bytecodeHash: UPDATED_BYTECODE_HASH,
+        }),
+        contract('IdentityAttestation', IDENTITY),
+      ]),
+      true,
+    );
+    save(
+      1500,
+      deployment(1700000050000, [contract('ProofVault', PROOF_VAULT)], { network: 'mainnet' }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('Should list saved deployments per network, oldest first', () => {
+    const entries = listDeploymentHistory(outputDir);
+
+    expect(entries.map((entry) => `${entry.network}:${entry.id}`)).to.deep.equal([
+      'mainnet:1500',
+      'testnet:1000',
+      'testnet:2000',
+      'testnet:3000',
+    ]);
+    expect(entries[3]).to.deep.include({
+      file: 'deployment-testnet-3000.json',
+      success: true,
+      contracts: ['ProofVault', 'IdentityAttestation'],
+      totalGasUsed: '190000',
+      latest: true,
+    });
+    expect(entries.filter((entry) => entry.latest)).to.have.length(1);
+    expect(listDeploymentHistory(outputDir, 'mainnet')).to.have.length(1);
+    expect(listDeploymentHistory(path.join(outputDir, 'missing'))).to.deep.equal([]);
+  });
+
+  it('Should diff addresses, bytecode, constructor args and gas', () => {
+    const previous = loadDeploymentRecord('testnet', outputDir, '1000');
+    previous.contracts['LegalCaseManager'] = contract('LegalCaseManager', IDENTITY, {
+      constructorArgs: [PROOF_VAULT, IDENTITY],
+    });
+    const latest = loadDeploymentRecord('testnet', outputDir, 'latest');
+    latest.contracts['LegalCaseManager'] = contract('LegalCaseManager', IDENTITY, {
+      constructorArgs: [PROOF_VAULT_V2, IDENTITY],
+    });
+
+    const diff = diffDeployments(previous, latest);
+
+    expect(diff.contracts.map((change) => [change.name, change.status])).to.deep.equal([
+      ['ProofVault', 'changed'],
+      ['LegalCaseManager', 'changed'],
+      ['IdentityAttestation', 'added'],
+    ]);
+    expect(diff.contracts[0]).to.deep.equal({
+      name: 'ProofVault',
+      status: 'changed',
+      gasUsed: { from: '100000', to: '90000', delta: '-10000' },
+      address: { from: PROOF_VAULT, to: PROOF_VAULT_V2 },
+      bytecodeHash: { from: BYTECODE_HASH, to: UPDATED_BYTECODE_HASH },
+    });
+    expect(diff.contracts[1]?.constructorArgs).to.deep.equal({
+      from: [PROOF_VAULT, IDENTITY],
+      to: [PROOF_VAULT_V2, IDENTITY],
+    });
+    expect(diff.totalGasUsed).to.deep.equal({ from: '100000', to: '190000', delta: '90000' });
+
+    const unchanged = diffDeployments(previous, previous);
+    expect(unchanged.contracts.every((change) => change.status === 'unchanged')).to.be.true;
+  });
+
+  it('Should not report bytecode changes for records without bytecode hashes', () => {
+    const before = deployment(1, [contract('ProofVault', PROOF_VAULT)]);
+    delete before.contracts['ProofVault']?.bytecodeHash;
+    const after = deployment(2, [
+      contract('ProofVault', PROOF_VAULT, { bytecodeHash: UPDATED_BYTECODE_HASH }),
+    ]);
+
+    expect(diffDeployments(before, after).contracts[0]?.status).to.equal('unchanged');
+  });
+
+  it('Should roll the latest deployment back to a successful entry', () => {
+    const restored = rollbackLatestDeployment('testnet', outputDir, '1000');
+
+    expect(restored.timestamp).to.equal(1700000000000);
+    expect(loadLatestDeployment('testnet', outputDir)?.contracts['ProofVault']?.address).to.equal(
+      PROOF_VAULT,
+    );
+    expect(listDeploymentHistory(outputDir, 'testnet').find((entry) => entry.latest)?.id).to.equal(
+      '1000',
+    );
+  });
+
+  it('Should record verified contracts in the latest and history files of a deployment', () => {
+    const latest = loadLatestDeployment('testnet', outputDir);
+    if (!latest) {
+      throw new Error('Expected a latest testnet deployment');
+    }
+    latest.contracts['ProofVault'] = { ...contract('ProofVault', PROOF_VAULT_V2), verified: true };
+
+    recordVerifiedContracts(latest, outputDir);
+
+    const history = loadDeploymentResult(path.join(outputDir, 'deployment-testnet-3000.json'));
+    expect(history.contracts['ProofVault']?.verified).to.equal(true);
+    expect(history.contracts['IdentityAttestation']?.verified).to.not.equal(true);
+    expect(loadLatestDeployment('testnet', outputDir)?.contracts['ProofVault']?.verified).to.equal(
+      true,
+    );
+    expect(
+      loadDeploymentResult(path.join(outputDir, 'deployment-testnet-1000.json')).contracts[
+        'ProofVault'
+      ]?.verified,
+    ).to.not.equal(true);
+  });
+
+  it('Should keep the history status of contracts upgraded since the deployment', () => {
+    const latest = loadLatestDeployment('testnet', outputDir);
+    if (!latest) {
+      throw new Error('Expected a latest testnet deployment');
+    }
+    latest.contracts['ProofVault'] = {
+      ...contract('ProofVault', PROOF_VAULT_V2),
+      implementationAddress: '0x00000000000000000000000000000000000003f1',
+      verified: true,
+    };
+
+    recordVerifiedContracts(latest, outputDir);
+
+    const history = loadDeploymentResult(path.join(outputDir, 'deployment-testnet-3000.json'));
+    expect(history.contracts['ProofVault']?.verified).to.not.equal(true);
+  });
+
+  it('Should refuse unsafe rollbacks', () => {
+    expectDeploymentError(
+      () => rollbackLatestDeployment('testnet', outputDir, '2000'),
+      'INVALID_ROLLBACK',
+    );
+    expectDeploymentError(
+      () => rollbackLatestDeployment('testnet', outputDir, '9999'),
+      'DEPLOYMENT_NOT_FOUND',
+    );
+    expectDeploymentError(
+      () =>
+        rollbackLatestDeployment(
+          'testnet',
+          outputDir,
+          path.join(outputDir, 'deployment-mainnet-1500.json'),
+        ),
+      'INVALID_ROLLBACK',
+    );
+
+    fs.writeFileSync(getDeploymentJournalPath('testnet', outputDir), '{}');
+    expectDeploymentError(
+      () => rollbackLatestDeployment('testnet', outputDir, '1000'),
+      'DEPLOYMENT_IN_PROGRESS',
+    );
+    expect(loadLatestDeployment('testnet', outputDir)?.timestamp).to.equal(1700000200000);
+  });
+});
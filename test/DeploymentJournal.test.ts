@@ -0,0 +1,124 @@
+/**
+ * Tests for the resumable deployment journal
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DeploymentError,
+  clearDeploymentJournal,
+  createDeploymentJournal,
+  getDeploymentJournalPath,
+  getJournalEntry,
+  getJournaledContract,
+  hashBytecode,
+  loadDeploymentJournal,
+  recordJournalStep,
+} from '../src';
+import type { DeployedContract } from '../src';
+
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+const IDENTITY = '0x00000000000000000000000000000000000003e9';
+
+function deployedContract(name: string, constructorArgs: unknown[]): DeployedContract {
+  return {
+    name,
+    address: PROOF_VAULT,
+    transactionHash: '0.0.2@1700000000.1',
+    blockNumber: 0,
+    gasUsed: '0',
+    deploymentTimestamp: 1700000000000,
+    constructorArgs,
+    verified: false,
+  };
+}
+
+describe('Deployment journal', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-journal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('Should persist each step and resume from it', () => {
+    const bytecodeHash = hashBytecode('0x6080');
+    const journal = createDeploymentJournal('testnet', '0.0.2');
+
+    recordJournalStep(
+      journal,
+      'ProofVault',
+      { bytecodeHash, bytecodeFileId: '0.0.500' },
+      outputDir,
+    );
+    let resumed = loadDeploymentJournal('testnet', outputDir);
+    expect(resumed && getJournalEntry(resumed, 'ProofVault', bytecodeHash)).to.include({
+      bytecodeFileId: '0.0.500',
+    });
+    expect(resumed && getJournaledContract(resumed, 'ProofVault', bytecodeHash, [])).to.equal(
+      undefined,
+    );
+
+    recordJournalStep(
+      journal,
+      'ProofVault',
+      { bytecodeHash, contractId: '0.0.1000', contract: deployedContract('ProofVault', []) },
+      outputDir,
+    );
+    resumed = loadDeploymentJournal('testnet', outputDir);
+    expect(resumed && getJournalEntry(resumed, 'ProofVault', bytecodeHash)).to.include({
+      bytecodeFileId: '0.0.500',
+      contractId: '0.0.1000',
+    });
+    expect(
+      resumed && getJournaledContract(resumed, 'ProofVault', bytecodeHash, [])?.address,
+    ).to.equal(PROOF_VAULT);
+    expect(fs.existsSync(`${getDeploymentJournalPath('testnet', outputDir)}.tmp`)).to.equal(false);
+
+    clearDeploymentJournal('testnet', outputDir);
+    expect(loadDeploymentJournal('testnet', outputDir)).to.equal(null);
+  });
+
+  it('Should not reuse entries for changed bytecode or constructor arguments', () => {
+    const bytecodeHash = hashBytecode('0x6080');
+    const journal = createDeploymentJournal('testnet', '0.0.2');
+    recordJournalStep(
+      journal,
+      'LegalCaseManager',
+      {
+        bytecodeHash,
+        bytecodeFileId: '0.0.501',
+        contractId: '0.0.1002',
+        contract: deployedContract('LegalCaseManager', [PROOF_VAULT, IDENTITY]),
+      },
+      outputDir,
+    );
+
+    expect(getJournalEntry(journal, 'LegalCaseManager', hashBytecode('0x6081'))).to.equal(
+      undefined,
+    );
+    expect(
+      getJournaledContract(journal, 'LegalCaseManager', bytecodeHash, [IDENTITY, PROOF_VAULT]),
+    ).to.equal(undefined);
+    expect(
+      getJournaledContract(journal, 'LegalCaseManager', bytecodeHash, [PROOF_VAULT, IDENTITY]),
+    ).to.not.equal(undefined);
+  });
+
+  it('Should reject corrupt journals', () => {
+    fs.writeFileSync(getDeploymentJournalPath('testnet', outputDir), '{ not json');
+
+    try {
+      loadDeploymentJournal('testnet', outputDir);
+      expect.fail('Expected a corrupt journal to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DeploymentError);
+      expect((error as DeploymentError).code).to.equal('INVALID_JOURNAL');
+    }
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for declarative deployment manifests
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeploymentError, loadDeploymentManifest, orderContracts } from '../src';
+import type { ContractConfig } from '../src';
+
+function expectDeploymentError(fn: () => unknown, code: string): DeploymentError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).to.be.instanceOf(DeploymentError);
+    expect((error as DeploymentError).code).to.equal(code);
+    return error as DeploymentError;
+  }
+  return expect.fail(`Expected ${code}`);
+}
+
+describe('Deployment manifest', () => {
+  let manifestDir: string;
+
+  beforeEach(() => {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  it('Should load the example YAML manifest in dependency order', () => {
+    const contracts = loadDeploymentManifest(
+      path.join(__dirname, '..', 'deployment-manifest.example.yaml'),
+    );
+
+    expect(contracts['LegalCaseManager']).to.deep.include({
+      name: 'LegalCaseManager',
+      constructorArgs: ['${ProofVault.address}', '${IdentityAttestation.address}'],
+      libraries: { LegalCaseLib: '${LegalCaseLib.address}' },
+      gasLimit: 3000000,
+    });
+    expect(orderContracts(contracts).map((contract) => contract.name)).to.deep.equal([
+      'IdentityAttestation',
+      'ProofVault',
+      'LegalCaseLib',
+      'LegalCaseManager',
+    ]);
+  });
+
+  it('Should order JSON manifests by placeholders and declared dependencies', () => {
+    const manifestPath = path.join(manifestDir, 'manifest.json');
+    fs.writeFileSync(
+      manifestPath,
+      JSON.stringify({
+        version: 1,
+        contracts: {
+          LegalCaseManager: {
+            constructorArgs: ['${ProofVault.address}', '${IdentityAttestation.address}'],
+          },
+          ProofVault: { dependsOn: ['IdentityAttestation'] },
+          IdentityAttestation: {},
+        },
+      }),
+    );
+
+    expect(
+      orderContracts(loadDeploymentManifest(manifestPath)).map((contract) => contract.name),
+    ).to.deep.equal(['IdentityAttestation', 'ProofVault', 'LegalCaseManager']);
+  });
+
+  it('Should reject dependency cycles and unknown dependencies', () => {
+    const cyclic: Record<string, ContractConfig> = {
+      A: { name: 'A', constructorArgs: ['${C.address}'] },
+      B: { name: 'B', dependsOn: ['A'] },
+      C: { name: 'C', dependsOn: ['B'] },
+    };
+    const error = expectDeploymentError(() => orderContracts(cyclic), 'DEPENDENCY_CYCLE');
+    expect(error.details).to.deep.equal({ cycle: ['A', 'C', 'B', 'A'] });
+
+    expectDeploymentError(
+      () => orderContracts({ A: { name: 'A', dependsOn: ['Missing'] } }),
+      'UNKNOWN_DEPENDENCY',
+    );
+  });
+
+  it('Should reject malformed manifests', () => {
+    const write = (name: string, content: string): string => {
+      const manifestPath = path.join(manifestDir, name);
+      fs.writeFileSync(manifestPath, content);
+      return manifestPath;
+    };
+
+    expectDeploymentError(
+      () => loadDeploymentManifest(write('version.yaml', 'version: 2\ncontracts: {}\n')),
+      'INVALID_MANIFEST',
+    );
+    expectDeploymentError(
+      () =>
+        loadDeploymentManifest(
+          write('args.yml', 'version: 1\ncontracts:\n  ProofVault:\n    constructorArgs: nope\n'),
+        ),
+      'INVALID_MANIFEST',
+    );
+    expectDeploymentError(
+      () =>
+        loadDeploymentManifest(
+          write('gas.json', '{"version":1,"contracts":{"ProofVault":{"gasLimit":-1}}}'),
+        ),
+      'INVALID_MANIFEST',
+    );
+    expectDeploymentError(
+      () =>
+        loadDeploymentManifest(
+          write('libraries.json', '{"version":1,"contracts":{"ProofVault":{"libraries":["A"]}}}'),
+        ),
+      'INVALID_MANIFEST',
+    );
+    expectDeploymentError(() => loadDeploymentManifest(write('bad.json', '{')), 'INVALID_MANIFEST');
+  });
+});
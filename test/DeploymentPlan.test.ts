@@ -0,0 +1,185 @@
+/**
+ * Tests for deployment plans
+ */
+
+import { expect } from 'chai';
+import {
+  BYTECODE_CHUNK_SIZE,
+  DeploymentError,
+  createDeploymentJournal,
+  createDeploymentPlan,
+  hashBytecode,
+  linkBytecode,
+  loadContractArtifact,
+  loadLinkedBytecode,
+  resolveConstructorArgs,
+  resolveLibraries,
+} from '../src';
+import type { ContractConfig, DeploymentJournal } from '../src';
+
+const IDENTITY = '0x00000000000000000000000000000000000003e9';
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+const CASE_LIB = '0x00000000000000000000000000000000000003e7';
+
+const CONTRACTS: ContractConfig[] = [
+  { name: 'IdentityAttestation', constructorArgs: [] },
+  { name: 'ProofVault', constructorArgs: [] },
+  { name: 'LegalCaseLib', constructorArgs: [] },
+  {
+    name: 'LegalCaseManager',
+    constructorArgs: ['${ProofVault.address}', '${IdentityAttestation.address}'],
+    libraries: { LegalCaseLib: '${LegalCaseLib.address}' },
+  },
+];
+
+function journalContract(
+  journal: DeploymentJournal,
+  name: string,
+  address: string,
+  constructorArgs: unknown[] = [],
+  libraries: Record<string, string> = {},
+): void {
+  journal.contracts[name] = {
+    bytecodeHash: hashBytecode(loadLinkedBytecode(name, libraries)),
+    bytecodeFileId: '0.0.500',
+    contractId: '0.0.1000',
+    contract: {
+      name,
+      address,
+      transactionHash: '0.0.2@1700000000.1',
+      blockNumber: 1,
+      gasUsed: '0',
+      deploymentTimestamp: 1700000000000,
+      constructorArgs,
+    },
+    updatedAt: 1700000000000,
+  };
+}
+
+describe('Deployment plan', () => {
+  it('Should plan every upload and creation step with estimated fees', () => {
+    const plan = createDeploymentPlan(CONTRACTS, {
+      network: 'testnet',
+      deployer: '0.0.2',
+      hbarPriceUsd: 0.05,
+    });
+
+    expect(plan.contracts.map((contract) => contract.action)).to.deep.equal([
+      'deploy',
+      'deploy',
+      'deploy',
+      'deploy',
+    ]);
+    for (const contract of plan.contracts) {
+      const size = (loadContractArtifact(contract.name).bytecode.length - 2) / 2;
+      expect(contract.bytecodeSize).to.equal(size);
+      expect(contract.fileAppendChunks).to.equal(Math.ceil(size / BYTECODE_CHUNK_SIZE) - 1);
+      expect(contract.steps.map((step) => step.type)).to.deep.equal([
+        'FILE_CREATE',
+        ...Array<string>(contract.fileAppendChunks).fill('FILE_APPEND'),
+        'CONTRACT_CREATE',
+      ]);
+      expect(contract.steps.reduce((total, step) => total + (step.bytes ?? 0), 0)).to.equal(size);
+    }
+
+    // $0.05 file create at $0.05/HBAR is 1 HBAR
+    expect(plan.contracts[0]?.steps[0]?.estimatedFee).to.equal('100000000');
+    expect(plan.contracts[3]?.constructorArgs).to.deep.equal(CONTRACTS[3]?.constructorArgs);
+    expect(BigInt(plan.totalEstimatedFee)).to.equal(
+      plan.contracts.reduce((total, contract) => total + BigInt(contract.estimatedFee), 0n),
+    );
+  });
+
+  it('Should skip journaled contracts and resolve their addresses', () => {
+    const journal = createDeploymentJournal('testnet', '0.0.2');
+    journalContract(journal, 'IdentityAttestation', IDENTITY);
+    journalContract(journal, 'ProofVault', PROOF_VAULT);
+    journalContract(journal, 'LegalCaseLib', CASE_LIB);
+    journalContract(
+      journal,
+      'LegalCaseManager',
+      '0x00000000000000000000000000000000000003ea',
+      [IDENTITY, PROOF_VAULT],
+      { LegalCaseLib: CASE_LIB },
+    );
+
+    const plan = createDeploymentPlan(CONTRACTS, {
+      network: 'testnet',
+      deployer: '0.0.2',
+      hbarPriceUsd: 0.05,
+      journal,
+    });
+
+    expect(plan.contracts.map((contract) => contract.action)).to.deep.equal([
+      'skip',
+      'skip',
+      'skip',
+      'reuse-bytecode',
+    ]);
+    expect(plan.contracts[0]?.steps).to.have.length(0);
+    expect(plan.contracts[3]?.constructorArgs).to.deep.equal([PROOF_VAULT, IDENTITY]);
+    expect(plan.contracts[3]?.steps.map((step) => step.type)).to.deep.equal(['CONTRACT_CREATE']);
+  });
+
+  it('Should validate constructor args against the ABI while planning', () => {
+    try {
+      createDeploymentPlan(
+        [
+          {
+            name: 'LegalCaseManager',
+            constructorArgs: ['${ProofVault.address}', 'nope'],
+            libraries: { LegalCaseLib: CASE_LIB },
+          },
+        ],
+        { network: 'testnet', deployer: '0.0.2', hbarPriceUsd: 0.05 },
+      );
+      expect.fail('Expected invalid constructor args to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DeploymentError);
+      expect((error as DeploymentError).code).to.equal('INVALID_CONSTRUCTOR_ARGS');
+    }
+  });
+
+  it('Should link library addresses into bytecode', () => {
+    const { bytecode, linkReferences } = loadContractArtifact('LegalCaseManager');
+    const linked = linkBytecode('LegalCaseManager', bytecode, linkReferences, {
+      LegalCaseLib: CASE_LIB,
+    });
+
+    expect(bytecode).to.match(/__\$[0-9a-f]{34}\$__/);
+    expect(linked).not.to.contain('__');
+    expect(linked).to.have.length(bytecode.length);
+    expect(linked).to.contain(CASE_LIB.slice(2));
+    expect(
+      resolveLibraries({ LegalCaseLib: '${LegalCaseLib.address}' }, { LegalCaseLib: CASE_LIB }),
+    ).to.deep.equal({ LegalCaseLib: CASE_LIB });
+
+    for (const [libraries, code] of [
+      [{}, 'UNLINKED_LIBRARY'],
+      [{ LegalCaseLib: 'nope' }, 'INVALID_LIBRARY_ADDRESS'],
+      [{ LegalCaseLib: CASE_LIB, Other: CASE_LIB }, 'UNKNOWN_LIBRARY'],
+    ] as const) {
+      try {
+        linkBytecode('LegalCaseManager', bytecode, linkReferences, libraries);
+        expect.fail(`Expected ${code}`);
+      } catch (error) {
+        expect(error).to.be.instanceOf(DeploymentError);
+        expect((error as DeploymentError).code).to.equal(code);
+      }
+    }
+  });
+
+  it('Should reject constructor args referring to undeployed contracts', () => {
+    expect(
+      resolveConstructorArgs(['${ProofVault.address}', 7], { ProofVault: PROOF_VAULT }),
+    ).to.deep.equal([PROOF_VAULT, 7]);
+
+    try {
+      resolveConstructorArgs(['${ProofVault.address}'], {});
+      expect.fail('Expected an unresolved dependency to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DeploymentError);
+      expect((error as DeploymentError).code).to.equal('UNRESOLVED_DEPENDENCY');
+    }
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for deployment record validation and schema migrations
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEPLOYMENT_RESULT_SCHEMA_VERSION,
+  DeploymentRecordError,
+  loadLatestDeployment,
+  migrateDeploymentHistory,
+  migrateDeploymentResult,
+  parseDeploymentResult,
+  saveDeploymentResult,
+} from '../src';
+import type { DeploymentResult } from '../src';
+
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+const ALIASED = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// A deployment file written before schema versions, contract IDs and total fees
+const LEGACY_DEPLOYMENT = {
+  network: 'testnet',
+  deployer: '0.0.2',
+  timestamp: 1700000000000,
+  contracts: {
+    ProofVault: {
+      name: 'ProofVault',
+      address: PROOF_VAULT,
+      transactionHash: '0.0.2@1700000000.1',
+      blockNumber: 1,
+      gasUsed: '100000',
+      deploymentTimestamp: 1700000000000,
+      fees: {
+        transactions: [
+          {
+            transactionId: '0.0.2@1700000000.1',
+            type: 'CONTRACT_CREATE',
+            gasUsed: '100000',
+            fee: '250000000',
+            consensusTimestamp: '1700000000.000000001',
+          },
+        ],
+        totalFee: '250000000',
+        totalFeeHbar: '2.50000000 HBAR',
+      },
+    },
+    IdentityAttestation: {
+      name: 'IdentityAttestation',
+      address: ALIASED,
+      transactionHash: '0.0.2@1700000000.2',
+      blockNumber: 2,
+      gasUsed: '50000',
+      deploymentTimestamp: 1700000000000,
+    },
+  },
+  totalGasUsed: '150000',
+  success: true,
+};
+
+function cloneLegacyDeployment(): typeof LEGACY_DEPLOYMENT {
+  return JSON.parse(JSON.stringify(LEGACY_DEPLOYMENT)) as typeof LEGACY_DEPLOYMENT;
+}
+
+function expectRecordError(fn: () => unknown, code: string): DeploymentRecordError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).to.be.instanceOf(DeploymentRecordError);
+    expect((error as DeploymentRecordError).code).to.equal(code);
+    return error as DeploymentRecordError;
+  }
+  return expect.fail(`Expected ${code}`);
+}
+
+describe('Deployment records', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-records-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('Should stamp the schema version when saving and load the result back', () => {
+    const result = parseDeploymentResult(JSON.stringify(LEGACY_DEPLOYMENT), 'legacy.json');
+    saveDeploymentResult(result, outputDir);
+
+    const saved = JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'latest-testnet.json'), 'utf8'),
+    ) as DeploymentResult;
+    expect(saved.schemaVersion).to.equal(DEPLOYMENT_RESULT_SCHEMA_VERSION);
+    expect(loadLatestDeployment('testnet', outputDir)).to.deep.equal(saved);
+    expect(loadLatestDeployment('mainnet', outputDir)).to.be.null;
+  });
+
+  it('Should migrate legacy records with contract IDs and total fees', () => {
+    const legacy = cloneLegacyDeployment();
+    const migrated = migrateDeploymentResult(legacy) as unknown as DeploymentResult;
+
+    expect(migrated.schemaVersion).to.equal(DEPLOYMENT_RESULT_SCHEMA_VERSION);
+    expect(migrated.contracts['ProofVault']?.contractId).to.equal('0.0.1000');
+    // EVM aliases do not encode a contract ID
+    expect(migrated.contracts['IdentityAttestation']).not.to.have.property('contractId');
+    expect(migrated.totalFee).to.equal('250000000');
+    expect(migrated.totalFeeHbar).to.equal('2.50000000 HBAR');
+    expect(legacy).to.deep.equal(LEGACY_DEPLOYMENT);
+
+    const unpriced = cloneLegacyDeployment();
+    delete (unpriced.contracts.ProofVault as { fees?: unknown }).fees;
+    expect(migrateDeploymentResult(unpriced)).not.to.have.property('totalFee');
+  });
+
+  it('Should report every invalid field', () => {
+    const invalid = {
+      ...LEGACY_DEPLOYMENT,
+      contracts: {
+        ProofVault: {
+          ...LEGACY_DEPLOYMENT.contracts.ProofVault,
+          address: '0.0.1000',
+          gasUsed: 100000,
+        },
+      },
+      totalGasUsed: undefined,
+    };
+
+    const error = expectRecordError(
+      () => parseDeploymentResult(JSON.stringify(invalid), 'invalid.json'),
+      'INVALID_DEPLOYMENT_RECORD',
+    );
+    expect(error.filePath).to.equal('invalid.json');
+    expect(error.issues).to.have.members([
+      '/totalGasUsed is required',
+      '/contracts/ProofVault/address must match pattern "^0x[0-9a-fA-F]{40}$"',
+      '/contracts/ProofVault/gasUsed must be string',
+    ]);
+  });
+
+  it('Should fail loudly on corrupt files and newer schema versions', () => {
+    const latestPath = path.join(outputDir, 'latest-testnet.json');
+    fs.writeFileSync(latestPath, '{"network": "testnet",');
+    expectRecordError(() => loadLatestDeployment('testnet', outputDir), 'INVALID_JSON');
+
+    fs.writeFileSync(latestPath, '[]');
+    expectRecordError(
+      () => loadLatestDeployment('testnet', outputDir),
+      'INVALID_DEPLOYMENT_RECORD',
+    );
+
+    fs.writeFileSync(
+      latestPath,
+      JSON.stringify({ ...LEGACY_DEPLOYMENT, schemaVersion: DEPLOYMENT_RESULT_SCHEMA_VERSION + 1 }),
+    );
+    expectRecordError(
+      () => loadLatestDeployment('testnet', outputDir),
+      'UNSUPPORTED_SCHEMA_VERSION',
+    );
+  });
+
+  it('Should rewrite legacy deployment files in place', () => {
+    fs.writeFileSync(
+      path.join(outputDir, 'deployment-testnet-1000.json'),
+      JSON.stringify(LEGACY_DEPLOYMENT),
+    );
+    fs.writeFileSync(
+      path.join(outputDir, 'latest-testnet.json'),
+      JSON.stringify(LEGACY_DEPLOYMENT),
+    );
+    saveDeploymentResult(
+      { ...LEGACY_DEPLOYMENT, network: 'mainnet' } as DeploymentResult,
+      outputDir,
+    );
+
+    expect(migrateDeploymentHistory(outputDir, 'mainnet')).to.deep.equal([]);
+    expect(migrateDeploymentHistory(outputDir).map((file) => path.basename(file))).to.deep.equal([
+      'deployment-testnet-1000.json',
+      'latest-testnet.json',
+    ]);
+    expect(migrateDeploymentHistory(outputDir)).to.deep.equal([]);
+
+    const rewritten = JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'deployment-testnet-1000.json'), 'utf8'),
+    ) as DeploymentResult;
+    expect(rewritten.schemaVersion).to.equal(DEPLOYMENT_RESULT_SCHEMA_VERSION);
+    expect(rewritten.contracts['ProofVault']?.contractId).to.equal('0.0.1000');
+  });
+});
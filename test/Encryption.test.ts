@@ -0,0 +1,86 @@
+/**
+ * Tests for client-side evidence envelope encryption
+ */
+
+import { expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import { Wallet } from 'ethers';
+import type { EncryptionRecipient } from '../src';
+import { EncryptionError } from '../src';
+import {
+  decryptEvidence,
+  encryptEvidence,
+  isEncryptedEnvelope,
+  parseEncryptedEnvelope,
+  recipientFromPublicKey,
+} from '../src/encryption';
+
+describe('Evidence encryption', () => {
+  const content = Buffer.from('confidential evidence content');
+  const investigator = Wallet.createRandom();
+  const prosecutor = Wallet.createRandom();
+  const outsider = Wallet.createRandom();
+
+  function recipientOf(wallet: HDNodeWallet): EncryptionRecipient {
+    return recipientFromPublicKey(wallet.signingKey.publicKey);
+  }
+
+  function expectEncryptionError(fn: () => unknown, code: string): void {
+    try {
+      fn();
+      expect.fail(`Expected ${code}`);
+    } catch (error) {
+      expect(error).to.be.instanceOf(EncryptionError);
+      expect((error as EncryptionError).code).to.equal(code);
+    }
+  }
+
+  it('Should decrypt for every recipient', () => {
+    const envelope = encryptEvidence(content, [recipientOf(investigator), recipientOf(prosecutor)]);
+
+    expect(isEncryptedEnvelope(envelope)).to.be.true;
+    expect(envelope.includes(content)).to.be.false;
+    expect(parseEncryptedEnvelope(envelope).header.recipients).to.have.length(2);
+    expect(decryptEvidence(envelope, investigator.privateKey).equals(content)).to.be.true;
+    expect(decryptEvidence(envelope, prosecutor.signingKey).equals(content)).to.be.true;
+  });
+
+  it('Should derive recipient addresses from compressed public keys', () => {
+    const recipient = recipientFromPublicKey(investigator.signingKey.compressedPublicKey);
+
+    expect(recipient.address).to.equal(investigator.address);
+    expect(recipient.publicKey).to.equal(investigator.signingKey.publicKey);
+  });
+
+  it('Should reject keys that are not recipients', () => {
+    const envelope = encryptEvidence(content, [recipientOf(investigator)]);
+
+    expectEncryptionError(() => decryptEvidence(envelope, outsider.privateKey), 'NOT_A_RECIPIENT');
+  });
+
+  it('Should reject recipients whose public key does not match the address', () => {
+    expectEncryptionError(
+      () =>
+        encryptEvidence(content, [
+          { address: investigator.address, publicKey: outsider.signingKey.publicKey },
+        ]),
+      'INVALID_RECIPIENT',
+    );
+    expectEncryptionError(() => encryptEvidence(content, []), 'INVALID_RECIPIENT');
+  });
+
+  it('Should detect tampered ciphertext', () => {
+    const envelope = encryptEvidence(content, [recipientOf(investigator)]);
+    const last = envelope.length - 1;
+    envelope[last] = (envelope[last] ?? 0) ^ 0xff;
+
+    expectEncryptionError(
+      () => decryptEvidence(envelope, investigator.privateKey),
+      'DECRYPTION_FAILED',
+    );
+    expectEncryptionError(
+      () => decryptEvidence(content, investigator.privateKey),
+      'INVALID_ENVELOPE',
+    );
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for client-side evidence hashing and manifest building
+ */
+
+import { expect } from 'chai';
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  canonicalJson,
+  checkEvidenceIntegrity,
+  detectMimeType,
+  hashEvidenceStream,
+  hashManifest,
+  prepareEvidence,
+} from '../src/evidence';
+
+describe('Evidence preparation', () => {
+  const content = Buffer.from('evidence file content for hashing');
+  const details = {
+    title: 'CCTV still',
+    description: 'Frame captured at the scene',
+    evidenceType: 1, // PHOTO
+    classification: 2, // CONFIDENTIAL
+    deviceInfo: 'Camera 4',
+    tags: ['cctv', 'scene'],
+  };
+
+  describe('Hashing', () => {
+    it('Should stream-hash content with SHA-256 and keccak256', async () => {
+      const digest = await hashEvidenceStream(
+        Readable.from([content.subarray(0, 10), content.subarray(10)]),
+      );
+
+      expect(digest.sha256).to.equal('0x' + createHash('sha256').update(content).digest('hex'));
+      expect(digest.keccak256).to.equal(ethers.keccak256(content));
+      expect(digest.size).to.equal(content.length);
+    });
+  });
+
+  describe('MIME type detection', () => {
+    it('Should detect common evidence types from the extension', () => {
+      expect(detectMimeType('statement.PDF')).to.equal('application/pdf');
+      expect(detectMimeType('photo.jpeg')).to.equal('image/jpeg');
+      expect(detectMimeType('interview.mp3')).to.equal('audio/mpeg');
+    });
+
+    it('Should fall back to a generic binary type', () => {
+      expect(detectMimeType('dump.bin')).to.equal('application/octet-stream');
+      expect(detectMimeType('no-extension')).to.equal('application/octet-stream');
+    });
+  });
+
+  describe('Canonical JSON', () => {
+    it('Should sort keys recursively and omit undefined values', () => {
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: true, e: null }], c: undefined } })).to.equal(
+        '{"a":{"d":[2,{"e":null,"f":true}]},"b":1}',
+      );
+    });
+  });
+
+  describe('prepareEvidence', () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(os.tmpdir(), `proofvault-evidence-${Date.now()}.jpg`);
+      fs.writeFileSync(filePath, content);
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(filePath);
+    });
+
+    it('Should fill in the submission and metadata from a local file', async () => {
+      const prepared = await prepareEvidence(filePath, details);
+
+      expect(prepared.submission.cryptographicHash).to.equal(ethers.keccak256(content));
+      expect(prepared.submission.metadataHash).to.equal(hashManifest(prepared.manifestJson));
+      expect(prepared.submission.isEncrypted).to.be.false;
+      expect(prepared.metadata.originalFilename).to.equal(path.basename(filePath));
+      expect(prepared.metadata.fileSize).to.equal(content.length);
+      expect(prepared.metadata.mimeType).to.equal('image/jpeg');
+      expect(prepared.metadata.tags).to.deep.equal(['cctv', 'scene']);
+      expect(prepared.manifest.file.sha256).to.equal(prepared.digest.sha256);
+    });
+
+    it('Should produce the same manifest for a file and an equivalent stream', async () => {
+      const fromFile = await prepareEvidence(filePath, {
+        ...details,
+        creationTimestamp: 1700000000,
+      });
+      const fromStream = await prepareEvidence(Readable.from([content]), {
+        ...details,
+        filename: path.basename(filePath),
+        creationTimestamp: 1700000000,
+      });
+
+      expect(fromStream.manifestJson).to.equal(fromFile.manifestJson);
+      expect(fromStream.submission.metadataHash).to.equal(fromFile.submission.metadataHash);
+    });
+
+    it('Should require a filename for streams', async () => {
+      try {
+        await prepareEvidence(Readable.from([content]), details);
+        expect.fail('Expected stream without filename to be rejected');
+      } catch (error) {
+        expect((error as Error).message).to.contain('filename is required');
+      }
+    });
+  });
+
+  describe('checkEvidenceIntegrity', () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(os.tmpdir(), `proofvault-integrity-${Date.now()}.jpg`);
+      fs.writeFileSync(filePath, content);
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(filePath);
+    });
+
+    it('Should pass for an untampered file and pretty-printed manifest', async () => {
+      const prepared = await prepareEvidence(filePath, details);
+      const record = { evidenceId: 1n, ...prepared.submission };
+
+      const report = await checkEvidenceIntegrity(
+        record,
+        filePath,
+        JSON.stringify(prepared.manifest, null, 2),
+      );
+
+      expect(report.passed).to.be.true;
+      expect(report.checks.map((check) => check.status)).to.deep.equal(['pass', 'pass', 'pass']);
+    });
+
+    it('Should fail when the file has been modified', async () => {
+      const prepared = await prepareEvidence(filePath, details);
+      fs.appendFileSync(filePath, 'tampered');
+
+      const report = await checkEvidenceIntegrity(
+        { evidenceId: 1n, ...prepared.submission },
+        filePath,
+        prepared.manifestJson,
+      );
+
+      expect(report.passed).to.be.false;
+      expect(report.checks.find((check) => check.name === 'File hash')?.status).to.equal('fail');
+      expect(report.checks.find((check) => check.name === 'Manifest hash')?.status).to.equal(
+        'pass',
+      );
+    });
+
+    it('Should fail when the manifest has been edited and skip when absent', async () => {
+      const prepared = await prepareEvidence(filePath, details);
+      const record = { evidenceId: 1n, ...prepared.submission };
+
+      const edited = await checkEvidenceIntegrity(
+        record,
+        filePath,
+        canonicalJson({ ...prepared.manifest, title: 'Edited title' }),
+      );
+      expect(edited.passed).to.be.false;
+
+      const withoutManifest = await checkEvidenceIntegrity(record, filePath);
+      expect(withoutManifest.passed).to.be.true;
+      expect(withoutManifest.checks[1]?.status).to.equal('skip');
+    });
+
+    it('Should fail manifests that are not objects or have no file object', async () => {
+      const prepared = await prepareEvidence(filePath, details);
+      const record = { evidenceId: 1n, ...prepared.submission };
+
+      for (const manifestJson of ['null', '0', '""', '[]']) {
+        const report = await checkEvidenceIntegrity(record, filePath, manifestJson);
+        expect(report.passed, manifestJson).to.be.false;
+        expect(report.checks[1]).to.deep.include({ name: 'Manifest hash', status: 'fail' });
+      }
+
+      const withoutFile = await checkEvidenceIntegrity(
+        record,
+        filePath,
+        canonicalJson({ ...prepared.manifest, file: null }),
+      );
+      expect(withoutFile.passed).to.be.false;
+      expect(
+        withoutFile.checks.find((check) => check.name === 'Manifest file digest'),
+      ).to.deep.include({ status: 'fail', message: 'Manifest has no file object' });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for Hedera client configuration, including local networks
+ */
+
+import { expect } from 'chai';
+import { HederaClientError, createHederaClient, getHederaClientConfig } from '../src';
+
+const LOCAL_ENV = {
+  LOCAL_OPERATOR_ID: '0.0.2',
+  LOCAL_OPERATOR_KEY: `0x${'11'.repeat(32)}`,
+  LOCAL_CONSENSUS_NODES: '127.0.0.1:50211=0.0.3, 127.0.0.1:51211=0.0.4',
+  LOCAL_MIRROR_NETWORK: '127.0.0.1:5600',
+};
+
+describe('Hedera client configuration', () => {
+  let savedEnv: typeof process.env;
+
+  beforeEach(() => {
+    savedEnv = { ...process.env };
+    Object.assign(process.env, LOCAL_ENV);
+  });
+
+  afterEach(() => {
+    process.env = savedEnv;
+  });
+
+  it('Should configure local consensus and mirror nodes', () => {
+    expect(getHederaClientConfig('local')).to.deep.include({
+      operatorId: '0.0.2',
+      network: 'local',
+      nodes: { '127.0.0.1:50211': '0.0.3', '127.0.0.1:51211': '0.0.4' },
+      mirrorNetwork: ['127.0.0.1:5600'],
+    });
+
+    delete process.env['LOCAL_CONSENSUS_NODES'];
+    delete process.env['LOCAL_MIRROR_NETWORK'];
+    expect(getHederaClientConfig('local')).to.deep.include({
+      nodes: { '127.0.0.1:50211': '0.0.3' },
+      mirrorNetwork: ['127.0.0.1:5600'],
+    });
+  });
+
+  it('Should reject malformed nodes and unknown networks', () => {
+    process.env['LOCAL_CONSENSUS_NODES'] = '127.0.0.1:50211';
+    expect(() => getHederaClientConfig('local')).to.throw('Invalid consensus node');
+
+    expect(() => getHederaClientConfig('previewnet')).to.throw('Unsupported network: previewnet');
+  });
+
+  it('Should build local clients from the configured endpoints', () => {
+    const client = createHederaClient(getHederaClientConfig('local'));
+    try {
+      expect(
+        Object.fromEntries(
+          Object.entries(client.network).map(([address, node]) => [address, node.toString()]),
+        ),
+      ).to.deep.equal({ '127.0.0.1:50211': '0.0.3', '127.0.0.1:51211': '0.0.4' });
+      expect(client.mirrorNetwork).to.deep.equal(['127.0.0.1:5600']);
+    } finally {
+      client.close();
+    }
+
+    const withoutNodes = getHederaClientConfig('local');
+    delete withoutNodes.nodes;
+    try {
+      createHederaClient(withoutNodes);
+      expect.fail('Expected a local network without nodes to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(HederaClientError);
+      expect((error as HederaClientError).code).to.equal('INVALID_NETWORK');
+    }
+  });
+});
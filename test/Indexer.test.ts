@@ -0,0 +1,173 @@
+/**
+ * Tests for the ProofVault event indexer
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { ethers } from 'hardhat';
+import os from 'os';
+import path from 'path';
+import { ConsoleLogger, EventIndexer } from '../src';
+import type { IndexerOptions } from '../src';
+import type { TestAccounts, TestContracts } from './helpers/setup';
+import { createSampleEvidenceData, setupTestEnvironment } from './helpers/setup';
+
+describe('EventIndexer', () => {
+  let contracts: TestContracts;
+  let accounts: TestAccounts;
+  let dataDir: string;
+  let options: IndexerOptions;
+  let startBlock: number;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-indexer-'));
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const setup = await setupTestEnvironment();
+    contracts = setup.contracts;
+    accounts = setup.accounts;
+
+    options = {
+      databasePath: path.join(dataDir, 'index.sqlite'),
+      startBlock,
+      batchSize: 5,
+      addresses: {
+        identityAttestation: await contracts.identityAttestation.getAddress(),
+        proofVault: await contracts.proofVault.getAddress(),
+        legalCaseManager: await contracts.legalCaseManager.getAddress(),
+      },
+      logger: new ConsoleLogger('error'),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function openIndexer(): Promise<EventIndexer> {
+    const indexer = new EventIndexer(ethers.provider, options);
+    await indexer.initialize();
+    return indexer;
+  }
+
+  async function submitEvidence(title: string, content: string): Promise<void> {
+    const evidence = createSampleEvidenceData();
+    await contracts.proofVault
+      .connect(accounts.user1)
+      .submitEvidence(
+        title,
+        evidence.description,
+        evidence.evidenceType,
+        evidence.classification,
+        evidence.ipfsHash,
+        evidence.metadataHash,
+        ethers.keccak256(ethers.toUtf8Bytes(content)),
+        false,
+      );
+  }
+
+  it('Should index evidence, identity and case events with search and pagination', async () => {
+    const level = 4; // LEGAL_PROFESSIONAL
+    await contracts.identityAttestation
+      .connect(accounts.user1)
+      .requestIdentityVerification(level, 1, 'QmIdentityDocs', 'Counsel', {
+        value: await contracts.identityAttestation.verificationFees(level),
+      });
+    await contracts.identityAttestation
+      .connect(accounts.admin)
+      .verifyIdentityRequest(1, true, 'QmCredential', '');
+    await contracts.legalCaseManager
+      .connect(accounts.user1)
+      .fileCase('CASE-2024-042', 'State v. Doe', 0, 1, 'Robbery', 'District 1', 'Court 3', false);
+    await contracts.legalCaseManager
+      .connect(accounts.user1)
+      .addPartyToCase(1, accounts.user2.address, 2, 'Witness', '', true);
+    for (let i = 1; i <= 3; i++) {
+      await submitEvidence(`Scene photo ${i}`, `photo ${i}`);
+    }
+    await submitEvidence('Interview 100% transcript', 'transcript');
+
+    const indexer = await openIndexer();
+    try {
+      const result = await indexer.sync();
+
+      expect(result.fromBlock).to.equal(startBlock);
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(indexer.getCheckpoint()).to.equal(result.toBlock);
+
+      const page = indexer.searchEvidence({ search: 'photo', limit: 2, offset: 1 });
+      expect(page.total).to.equal(3);
+      expect(page.items.map((item) => item.title)).to.deep.equal([
+        'Scene photo 2',
+        'Scene photo 3',
+      ]);
+      expect(indexer.searchEvidence({ search: '100%' }).items[0]?.title).to.equal(
+        'Interview 100% transcript',
+      );
+      expect(indexer.searchEvidence({ submitter: accounts.user2.address }).total).to.equal(0);
+
+      const cases = indexer.searchCases({ party: accounts.user2.address });
+      expect(cases.items.map((item) => item.caseNumber)).to.deep.equal(['CASE-2024-042']);
+      expect(indexer.getIdentity(accounts.user1.address)?.level).to.equal(level);
+
+      const submitted = indexer.getEvents({
+        contract: 'ProofVault',
+        eventName: 'EvidenceSubmitted',
+      });
+      expect(submitted.total).to.equal(4);
+      expect(submitted.items[0]?.args['title']).to.equal('Scene photo 1');
+    } finally {
+      indexer.close();
+    }
+  });
+
+  it('Should resume from the stored checkpoint', async () => {
+    await submitEvidence('First exhibit', 'first');
+
+    const first = await openIndexer();
+    const initial = await first.sync();
+    first.close();
+
+    await submitEvidence('Second exhibit', 'second');
+
+    const resumed = await openIndexer();
+    try {
+      const result = await resumed.sync();
+
+      expect(result.fromBlock).to.equal(initial.toBlock + 1);
+      expect(result.eventsIndexed).to.be.greaterThan(0);
+      expect(resumed.searchEvidence().items.map((item) => item.title)).to.deep.equal([
+        'First exhibit',
+        'Second exhibit',
+      ]);
+    } finally {
+      resumed.close();
+    }
+  });
+
+  it('Should roll back events from reorganized blocks', async () => {
+    await submitEvidence('Kept exhibit', 'kept');
+    const snapshot = await ethers.provider.send('evm_snapshot', []);
+    await submitEvidence('Orphaned exhibit', 'orphaned');
+
+    const indexer = await openIndexer();
+    try {
+      await indexer.sync();
+      expect(indexer.searchEvidence().total).to.equal(2);
+
+      // Replace the last block with a different one at the same height
+      await ethers.provider.send('evm_revert', [snapshot]);
+      await submitEvidence('Replacement exhibit', 'replacement');
+
+      const result = await indexer.sync();
+
+      expect(result.reorgedTo).to.be.a('number');
+      expect(indexer.searchEvidence().items.map((item) => item.title)).to.deep.equal([
+        'Kept exhibit',
+        'Replacement exhibit',
+      ]);
+      expect(indexer.getEvents({ eventName: 'EvidenceSubmitted' }).total).to.equal(2);
+    } finally {
+      indexer.close();
+    }
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Tests for the Hedera Mirror Node REST client
+ */
+
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  HederaClientError,
+  MirrorNodeClient,
+  MirrorNodeError,
+  consensusTimestampToDate,
+  saveDeploymentResult,
+  toMirrorTransactionId,
+  waitForHederaTransaction,
+} from '../src';
+import type { NetworkConfig } from '../src';
+import { ProofVault__factory } from '../typechain-types';
+
+const PROOF_VAULT = '0x00000000000000000000000000000000000003e8';
+const SUBMITTER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+interface FixtureLog {
+  address: string;
+  contract_id: string;
+  data: string;
+  topics: string[];
+  index: number;
+  block_number: number;
+  block_hash: string;
+  timestamp: string;
+  transaction_hash: string;
+  transaction_index: number;
+}
+
+/**
+ * Build mirror node log entries for EvidenceSubmitted events
+ */
+function evidenceSubmittedLogs(count: number): FixtureLog[] {
+  const contractInterface = ProofVault__factory.createInterface();
+  const fragment = contractInterface.getEvent('EvidenceSubmitted');
+
+  return Array.from({ length: count }, (_, i) => {
+    const encoded = contractInterface.encodeEventLog(fragment, [
+      i + 1,
+      SUBMITTER,
+      1,
+      `Exhibit ${i + 1}`,
+      1700000000 + i,
+    ]);
+    return {
+      address: PROOF_VAULT,
+      contract_id: '0.0.1000',
+      data: encoded.data,
+      topics: encoded.topics,
+      index: 0,
+      block_number: 100 + i,
+      block_hash: ethers.zeroPadValue(ethers.toBeHex(100 + i), 48),
+      timestamp: `${1700000000 + i}.000000${i + 1}00`,
+      transaction_hash: ethers.zeroPadValue(ethers.toBeHex(i + 1), 32),
+      transaction_index: 0,
+    };
+  });
+}
+
+/**
+ * Minimal stand-in for the mirror node REST API serving fixed logs and transactions
+ *
+ * Each transaction maps to the results returned by successive requests; PENDING
+ * answers 404 as the mirror node does before the record is ingested. Contract
+ * results of the `missingResults` transaction hashes answer 404 too.
+ */
+function startMirrorFixture(
+  logs: FixtureLog[],
+  requests: string[],
+  transactions: Record<string, string[]> = {},
+  missingResults: string[] = [],
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url.pathname + url.search);
+    res.setHeader('Content-Type', 'application/json');
+
+    const logsMatch = /^\/api\/v1\/contracts\/(0x[0-9a-f]{40})\/results\/logs$/.exec(url.pathname);
+    if (logsMatch) {
+      const limit = Number(url.searchParams.get('limit'));
+      const offset = Number(url.searchParams.get('offset') ?? 0);
+      const matching = logs.filter((log) => log.address === logsMatch[1]);
+      const page = matching.slice(offset, offset + limit);
+      const nextParams = new URLSearchParams(url.searchParams);
+      nextParams.set('offset', String(offset + limit));
+
+      res.end(
+        JSON.stringify({
+          logs: page,
+          links: {
+            next:
+              offset + limit < matching.length ? `${url.pathname}?${nextParams.toString()}` : null,
+          },
+        }),
+      );
+      return;
+    }
+
+    const transactionMatch = /^\/api\/v1\/transactions\/(.+)$/.exec(url.pathname);
+    const transaction = transactionMatch ? transactions[transactionMatch[1] ?? ''] : undefined;
+    if (transaction?.length) {
+      const result = transaction.length > 1 ? transaction.shift() : transaction[0];
+      if (result !== 'PENDING') {
+        res.end(
+          JSON.stringify({
+            transactions: [
+              {
+                transaction_id: transactionMatch?.[1],
+                consensus_timestamp: '1700000100.000000001',
+                name: 'CONTRACTCREATEINSTANCE',
+                result,
+                charged_tx_fee: 95000000,
+                entity_id: '0.0.1001',
+                nonce: 0,
+              },
+            ],
+          }),
+        );
+        return;
+      }
+    }
+
+    const resultMatch = /^\/api\/v1\/contracts\/results\/(0x[0-9a-f]{64})$/.exec(url.pathname);
+    const log = logs.find((entry) => entry.transaction_hash === resultMatch?.[1]);
+    if (log && !missingResults.includes(log.transaction_hash)) {
+      res.end(
+        JSON.stringify({
+          hash: log.transaction_hash,
+          contract_id: log.contract_id,
+          from: SUBMITTER.toLowerCase(),
+          to: log.address,
+          result: 'SUCCESS',
+          status: '0x1',
+          gas_used: 250000 + log.block_number,
+          gas_limit: 3000000,
+          block_number: log.block_number,
+          timestamp: log.timestamp,
+        }),
+      );
+      return;
+    }
+
+    res.statusCode = 404;
+    res.end(JSON.stringify({ _status: { messages: [{ message: 'Not found' }] } }));
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('MirrorNodeClient', () => {
+  let server: http.Server;
+  let requests: string[];
+  let networkConfig: NetworkConfig;
+
+  beforeEach(async () => {
+    requests = [];
+    server = await startMirrorFixture(evidenceSubmittedLogs(3), requests);
+    networkConfig = {
+      network: 'local',
+      rpcUrl: 'http://localhost:8545',
+      operatorKey: '',
+      chainId: 31337,
+      mirrorNodeUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/`,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('Should page through contract logs following next links', async () => {
+    const client = new MirrorNodeClient(networkConfig);
+    const logs = [];
+    for await (const log of client.getContractLogs(PROOF_VAULT, {
+      pageSize: 2,
+      fromTimestamp: '1700000000.000000000',
+    })) {
+      logs.push(log);
+    }
+
+    expect(logs.map((log) => log.blockNumber)).to.deep.equal([100, 101, 102]);
+    expect(logs[0]?.consensusTimestamp).to.equal('1700000000.000000100');
+    expect(requests).to.have.length(2);
+    expect(requests[0]).to.contain('timestamp=gte%3A1700000000.000000000');
+  });
+
+  it('Should decode events with their gas used and consensus timestamps', async () => {
+    const client = new MirrorNodeClient(networkConfig);
+
+    const events = await client.getContractEvents({ proofVault: PROOF_VAULT }, { pageSize: 2 });
+
+    expect(events).to.have.length(3);
+    expect(events[1]).to.include({
+      contract: 'ProofVault',
+      eventName: 'EvidenceSubmitted',
+      consensusTimestamp: '1700000001.000000200',
+      gasUsed: 250101n,
+    });
+    expect(events[1]?.args).to.deep.include({
+      evidenceId: 2,
+      submitter: SUBMITTER,
+      title: 'Exhibit 2',
+    });
+    expect(consensusTimestampToDate('1700000001.500000000').toISOString()).to.equal(
+      '2023-11-14T22:13:21.500Z',
+    );
+  });
+
+  it('Should look up gas once per transaction and leave it unset when unavailable', async () => {
+    const logs = evidenceSubmittedLogs(3);
+    const [first, second, third] = logs;
+    if (!first || !second || !third) {
+      throw new Error('Expected three fixture logs');
+    }
+    second.transaction_hash = first.transaction_hash;
+    second.index = 1;
+    const gasRequests: string[] = [];
+    const gasServer = await startMirrorFixture(logs, gasRequests, {}, [third.transaction_hash]);
+
+    try {
+      const client = new MirrorNodeClient({
+        ...networkConfig,
+        mirrorNodeUrl: `http://127.0.0.1:${(gasServer.address() as AddressInfo).port}/api/v1/`,
+      });
+      const events = await client.getContractEvents({ proofVault: PROOF_VAULT });
+
+      expect(events.map((event) => event.gasUsed)).to.deep.equal([250100n, 250100n, undefined]);
+      expect(
+        gasRequests.filter((request) => request.startsWith('/api/v1/contracts/results/')),
+      ).to.have.length(2);
+    } finally {
+      await new Promise((resolve) => gasServer.close(resolve));
+    }
+  });
+
+  it('Should read contract addresses from the latest deployment', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-mirror-'));
+    try {
+      const client = new MirrorNodeClient(networkConfig);
+      try {
+        await client.getDeploymentEvents(outputDir);
+        expect.fail('Expected a missing deployment to be rejected');
+      } catch (error) {
+        expect((error as MirrorNodeError).code).to.equal('NOT_DEPLOYED');
+      }
+
+      saveDeploymentResult(
+        {
+          network: 'local',
+          deployer: SUBMITTER,
+          timestamp: 1700000000000,
+          contracts: {
+            ProofVault: {
+              name: 'ProofVault',
+              address: PROOF_VAULT,
+              transactionHash: ethers.ZeroHash,
+              blockNumber: 1,
+              gasUsed: '0',
+              deploymentTimestamp: 1700000000000,
+            },
+          },
+          totalGasUsed: '0',
+          success: true,
+        },
+        outputDir,
+      );
+
+      expect(await client.getDeploymentEvents(outputDir)).to.have.length(3);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('Should report missing records as not found', async () => {
+    const client = new MirrorNodeClient(networkConfig);
+
+    try {
+      await client.getContractResult(ethers.ZeroHash);
+      expect.fail('Expected a missing contract result to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(MirrorNodeError);
+      expect((error as MirrorNodeError).code).to.equal('NOT_FOUND');
+    }
+  });
+});
+
+describe('waitForHederaTransaction', () => {
+  let server: http.Server;
+  let client: MirrorNodeClient;
+
+  beforeEach(async () => {
+    server = await startMirrorFixture([], [], {
+      '0.0.2-1700000100-1': ['PENDING', 'PENDING', 'SUCCESS'],
+      '0.0.2-1700000100-2': ['CONTRACT_REVERT_EXECUTED'],
+      '0.0.2-1700000100-3': ['INSUFFICIENT_GAS'],
+      '0.0.2-1700000100-4': ['PENDING'],
+    });
+    client = new MirrorNodeClient({
+      network: 'local',
+      rpcUrl: 'http://localhost:8545',
+      operatorKey: '',
+      chainId: 31337,
+      mirrorNodeUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('Should poll until the transaction reaches consensus', async () => {
+    const result = await waitForHederaTransaction(
+      client,
+      '0.0.2@1700000100.1',
+      5000,
+      undefined,
+      10,
+    );
+
+    expect(result).to.deep.equal({
+      transactionId: '0.0.2@1700000100.1',
+      status: 'SUCCESS',
+      statusCode: 22,
+      entityId: '0.0.1001',
+      consensusTimestamp: '1700000100.000000001',
+    });
+    expect(toMirrorTransactionId('0.0.2@1700000100.1')).to.equal('0.0.2-1700000100-1');
+  });
+
+  it('Should reject reverted and out-of-gas transactions with their status', async () => {
+    for (const [transactionId, status, statusCode] of [
+      ['0.0.2@1700000100.2', 'CONTRACT_REVERT_EXECUTED', 33],
+      ['0.0.2@1700000100.3', 'INSUFFICIENT_GAS', 30],
+    ] as const) {
+      try {
+        await waitForHederaTransaction(client, transactionId, 5000, undefined, 10);
+        expect.fail(`Expected ${status} to be rejected`);
+      } catch (error) {
+        expect(error).to.be.instanceOf(HederaClientError);
+        expect((error as HederaClientError).code).to.equal(status);
+        expect((error as HederaClientError).details).to.deep.equal({
+          transactionId,
+          status,
+          statusCode,
+        });
+      }
+    }
+  });
+
+  it('Should time out when the transaction never reaches consensus', async () => {
+    try {
+      await waitForHederaTransaction(client, '0.0.2@1700000100.4', 100, undefined, 10);
+      expect.fail('Expected the wait to time out');
+    } catch (error) {
+      expect(error).to.be.instanceOf(HederaClientError);
+      expect((error as HederaClientError).code).to.equal('TIMEOUT');
+    }
+  });
+});
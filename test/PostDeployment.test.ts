@@ -0,0 +1,148 @@
+/**
+ * Tests for post-deployment role and fee configuration
+ */
+
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import path from 'path';
+import {
+  DeploymentError,
+  applyPostDeploymentActions,
+  contractIdToEvmAddress,
+  createPostDeploymentActions,
+  getRoleId,
+  loadPostDeploymentConfig,
+} from '../src';
+import type { PostDeploymentConfig, PostDeploymentExecutor } from '../src';
+import type { TestContracts } from './helpers/setup';
+import { deployTestContracts } from './helpers/setup';
+
+async function getAddresses(contracts: TestContracts): Promise<Record<string, string>> {
+  return {
+    IdentityAttestation: await contracts.identityAttestation.getAddress(),
+    ProofVault: await contracts.proofVault.getAddress(),
+    LegalCaseManager: await contracts.legalCaseManager.getAddress(),
+  };
+}
+
+function expectInvalid(config: PostDeploymentConfig, addresses: Record<string, string>): void {
+  try {
+    createPostDeploymentActions(config, addresses);
+    expect.fail('Expected post-deployment config to be rejected');
+  } catch (error) {
+    expect(error).to.be.instanceOf(DeploymentError);
+    expect((error as DeploymentError).code).to.equal('INVALID_POST_DEPLOYMENT');
+  }
+}
+
+describe('Post-deployment configuration', () => {
+  let contracts: TestContracts;
+  let addresses: Record<string, string>;
+  let executor: PostDeploymentExecutor & { sent: number };
+
+  beforeEach(async () => {
+    contracts = await deployTestContracts();
+    addresses = await getAddresses(contracts);
+
+    const [deployer] = await ethers.getSigners();
+    if (!deployer) {
+      throw new Error('No signers available');
+    }
+    executor = {
+      sent: 0,
+      call: (action, data) => ethers.provider.call({ to: action.contractAddress, data }),
+      execute: async (action, data) => {
+        executor.sent++;
+        const tx = await deployer.sendTransaction({ to: action.contractAddress, data });
+        await tx.wait();
+        return { transactionId: tx.hash };
+      },
+    };
+  });
+
+  it('Should grant roles and set fees, then skip them on a rerun', async () => {
+    const [, authority, judge] = await ethers.getSigners();
+    if (!authority || !judge) {
+      throw new Error('Insufficient signers available');
+    }
+    const config: PostDeploymentConfig = {
+      roles: [
+        {
+          contract: 'ProofVault',
+          role: 'LEGAL_AUTHORITY_ROLE',
+          accounts: ['${LegalCaseManager.address}'],
+        },
+        {
+          contract: 'IdentityAttestation',
+          role: 'VERIFICATION_AUTHORITY_ROLE',
+          accounts: [authority.address],
+        },
+        { contract: 'LegalCaseManager', role: 'JUDGE_ROLE', accounts: [judge.address] },
+        { contract: 'LegalCaseManager', role: 'CASE_ADMIN_ROLE', accounts: ['0.0.1001'] },
+      ],
+      verificationFees: { BASIC_KYC: '100000000', GOVERNMENT_VERIFIED: 0 },
+    };
+
+    const actions = await applyPostDeploymentActions(
+      createPostDeploymentActions(config, addresses),
+      executor,
+    );
+
+    expect(actions.map((action) => action.status)).to.deep.equal([
+      'applied',
+      'applied',
+      'applied',
+      'applied',
+      'applied',
+      'skipped', // GOVERNMENT_VERIFIED is free from the constructor
+    ]);
+    expect(actions[3]?.account).to.equal(contractIdToEvmAddress('0.0.1001'));
+    expect(
+      await contracts.proofVault.hasRole(
+        getRoleId('LEGAL_AUTHORITY_ROLE'),
+        addresses['LegalCaseManager'] ?? '',
+      ),
+    ).to.be.true;
+    expect(await contracts.legalCaseManager.hasRole(getRoleId('JUDGE_ROLE'), judge.address)).to.be
+      .true;
+    expect(await contracts.identityAttestation.verificationFees(1)).to.equal(100000000n);
+
+    const sent = executor.sent;
+    const rerun = await applyPostDeploymentActions(
+      createPostDeploymentActions(config, addresses),
+      executor,
+    );
+    expect(rerun.every((action) => action.status === 'skipped')).to.be.true;
+    expect(executor.sent).to.equal(sent);
+  });
+
+  it('Should reject unknown contracts, roles, levels and accounts', () => {
+    expectInvalid(
+      { roles: [{ contract: 'Missing', role: 'JUDGE_ROLE', accounts: [] }] },
+      addresses,
+    );
+    expectInvalid(
+      { roles: [{ contract: 'ProofVault', role: 'JUDGE_ROLE', accounts: [] }] },
+      addresses,
+    );
+    expectInvalid(
+      { roles: [{ contract: 'ProofVault', role: 'AUDITOR_ROLE', accounts: ['nobody'] }] },
+      addresses,
+    );
+    expectInvalid({ verificationFees: { PLATINUM: 1 } }, addresses);
+  });
+
+  it('Should load post-deployment config from the example manifest', () => {
+    const config = loadPostDeploymentConfig(
+      path.join(__dirname, '..', 'deployment-manifest.example.yaml'),
+    );
+
+    expect(config.roles).to.deep.equal([
+      {
+        contract: 'ProofVault',
+        role: 'LEGAL_AUTHORITY_ROLE',
+        accounts: ['${LegalCaseManager.address}'],
+      },
+    ]);
+  });
+});
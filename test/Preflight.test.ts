@@ -0,0 +1,226 @@
+/**
+ * Tests for live deployment preflight checks
+ */
+
+import { Client, PrivateKey } from '@hashgraph/sdk';
+import { expect } from 'chai';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  CLOCK_SKEW_FAIL_MS,
+  CLOCK_SKEW_WARN_MS,
+  MIN_SERVICES_VERSION,
+  compareVersions,
+  createHederaPreflightProbe,
+  runPreflightChecks,
+  summarizePreflight,
+} from '../src';
+import type { NetworkConfig, PreflightOptions, PreflightProbe } from '../src';
+
+const NOW = 1700000000000;
+const OPERATOR_KEY = PrivateKey.fromStringED25519('11'.repeat(32)).publicKey.toStringRaw();
+const OTHER_KEY = PrivateKey.fromStringED25519('22'.repeat(32)).publicKey.toStringRaw();
+
+const OPTIONS: PreflightOptions = {
+  operatorId: '0.0.2',
+  operatorPublicKey: OPERATOR_KEY,
+  estimatedFee: 1_000_000_000n,
+  maxFee: 5_000_000_000n,
+  expectedChainId: 296,
+  now: () => NOW,
+};
+
+/**
+ * Probe answering from fixed values; override a method to change one check
+ */
+function fakeProbe(overrides: Partial<PreflightProbe> = {}): PreflightProbe {
+  return {
+    getAccountBalance: () => Promise.resolve(10_000_000_000n),
+    getAccountKeys: () => Promise.resolve({ publicKeys: [OPERATOR_KEY], threshold: 1 }),
+    getNodeVersion: () => Promise.resolve('0.50.1'),
+    getNetworkTime: () => Promise.resolve(NOW - 2_000),
+    getChainId: () => Promise.resolve(296),
+    ...overrides,
+  };
+}
+
+async function statusOf(name: string, probe: PreflightProbe): Promise<string | undefined> {
+  const checks = await runPreflightChecks(probe, OPTIONS);
+  return checks.find((check) => check.name === name)?.status;
+}
+
+describe('Preflight checks', () => {
+  it('Should pass a healthy network', async () => {
+    const checks = await runPreflightChecks(fakeProbe(), OPTIONS);
+
+    expect(checks.map((check) => [check.name, check.status])).to.deep.equal([
+      ['operator-balance', 'pass'],
+      ['operator-key', 'pass'],
+      ['node-version', 'pass'],
+      ['clock-skew', 'pass'],
+      ['rpc-chain-id', 'pass'],
+    ]);
+    expect(checks[0]?.details).to.deep.equal({
+      balance: '10000000000',
+      estimatedFee: '1000000000',
+      maxFee: '5000000000',
+    });
+    expect(summarizePreflight(checks)).to.equal('pass');
+    // Reports are consumed as JSON, so details must not hold bigints
+    expect(() => JSON.stringify(checks)).not.to.throw();
+  });
+
+  it('Should compare the balance against the estimated and maximum fees', async () => {
+    expect(
+      await statusOf(
+        'operator-balance',
+        fakeProbe({ getAccountBalance: () => Promise.resolve(2_000_000_000n) }),
+      ),
+    ).to.equal('warn');
+    expect(
+      await statusOf(
+        'operator-balance',
+        fakeProbe({ getAccountBalance: () => Promise.resolve(999_999_999n) }),
+      ),
+    ).to.equal('fail');
+  });
+
+  it('Should check the operator key against the account key', async () => {
+    expect(
+      await statusOf(
+        'operator-key',
+        fakeProbe({
+          getAccountKeys: () => Promise.resolve({ publicKeys: [OTHER_KEY], threshold: 1 }),
+        }),
+      ),
+    ).to.equal('fail');
+    expect(
+      await statusOf(
+        'operator-key',
+        fakeProbe({
+          getAccountKeys: () =>
+            Promise.resolve({ publicKeys: [OTHER_KEY, OPERATOR_KEY.toUpperCase()], threshold: 2 }),
+        }),
+      ),
+    ).to.equal('warn');
+  });
+
+  it('Should check the node version, clock skew and chain ID', async () => {
+    expect(compareVersions('0.50.1', MIN_SERVICES_VERSION)).to.be.greaterThan(0);
+    expect(compareVersions('v0.38.0', MIN_SERVICES_VERSION)).to.equal(0);
+    expect(compareVersions('0.37.9', MIN_SERVICES_VERSION)).to.be.lessThan(0);
+    expect(
+      await statusOf(
+        'node-version',
+        fakeProbe({ getNodeVersion: () => Promise.resolve('0.37.2') }),
+      ),
+    ).to.equal('fail');
+
+    expect(
+      await statusOf(
+        'clock-skew',
+        fakeProbe({ getNetworkTime: () => Promise.resolve(NOW + CLOCK_SKEW_WARN_MS + 1) }),
+      ),
+    ).to.equal('warn');
+    expect(
+      await statusOf(
+        'clock-skew',
+        fakeProbe({ getNetworkTime: () => Promise.resolve(NOW - CLOCK_SKEW_FAIL_MS - 1) }),
+      ),
+    ).to.equal('fail');
+
+    expect(
+      await statusOf('rpc-chain-id', fakeProbe({ getChainId: () => Promise.resolve(295) })),
+    ).to.equal('fail');
+  });
+
+  it('Should fail only the check whose query fails', async () => {
+    const checks = await runPreflightChecks(
+      fakeProbe({ getAccountBalance: () => Promise.reject(new Error('INVALID_ACCOUNT_ID')) }),
+      OPTIONS,
+    );
+
+    expect(checks[0]).to.deep.equal({
+      name: 'operator-balance',
+      status: 'fail',
+      message: 'INVALID_ACCOUNT_ID',
+    });
+    expect(checks.slice(1).every((check) => check.status === 'pass')).to.be.true;
+    expect(summarizePreflight(checks)).to.equal('fail');
+    expect(
+      summarizePreflight([
+        ...checks.slice(1),
+        {
+          name: 'clock-skew',
+          status: 'warn',
+          message: 'Local clock is 12.0s ahead of the network',
+        },
+      ]),
+    ).to.equal('warn');
+  });
+
+  describe('Hedera probe', () => {
+    let server: http.Server;
+    let networkConfig: NetworkConfig;
+    let client: Client;
+
+    beforeEach(async () => {
+      server = http.createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'POST' && req.url === '/rpc') {
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result: '0x128' }));
+        } else if (req.url === '/api/v1/blocks?limit=1&order=desc') {
+          res.end(
+            JSON.stringify({
+              blocks: [
+                {
+                  number: 42,
+                  hash: `0x${'ab'.repeat(48)}`,
+                  timestamp: { from: '1699999999.000000000', to: '1700000000.500000000' },
+                },
+              ],
+            }),
+          );
+        } else {
+          res.statusCode = 404;
+          res.end('{}');
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      networkConfig = {
+        network: 'testnet',
+        rpcUrl: `http://127.0.0.1:${port}/rpc`,
+        chainId: 296,
+        operatorId: '0.0.2',
+        operatorKey: '11'.repeat(32),
+        mirrorNodeUrl: `http://127.0.0.1:${port}`,
+      };
+      client = Client.forTestnet();
+    });
+
+    afterEach(async () => {
+      client.close();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('Should read network time from the mirror node and the chain ID from the RPC URL', async () => {
+      const probe = createHederaPreflightProbe(client, '0.0.2', networkConfig);
+
+      expect(await probe.getNetworkTime()).to.equal(1700000000500);
+      expect(await probe.getChainId()).to.equal(296);
+
+      const unreachable = createHederaPreflightProbe(client, '0.0.2', {
+        ...networkConfig,
+        rpcUrl: `${networkConfig.mirrorNodeUrl}/missing`,
+      });
+      try {
+        await unreachable.getChainId();
+        expect.fail('Expected eth_chainId to fail');
+      } catch (error) {
+        expect((error as Error).message).to.equal('eth_chainId failed with HTTP 404');
+      }
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Tests for the ProofVault TypeScript SDK
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { HDNodeWallet, Wallet } from 'ethers';
+import { ethers } from 'hardhat';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  ConsoleLogger,
+  FileSystemStorage,
+  ProofVaultSDK,
+  ProofVaultSDKError,
+  computeCid,
+  isEncryptedEnvelope,
+  recipientFromPublicKey,
+} from '../src';
+import type { NetworkConfig } from '../src';
+import type { TestAccounts, TestContracts } from './helpers/setup';
+import { createSampleEvidenceData, setupTestEnvironment } from './helpers/setup';
+
+describe('ProofVaultSDK', () => {
+  let contracts: TestContracts;
+  let accounts: TestAccounts;
+  let networkConfig: NetworkConfig;
+
+  beforeEach(async () => {
+    const setup = await setupTestEnvironment();
+    contracts = setup.contracts;
+    accounts = setup.accounts;
+
+    networkConfig = {
+      network: 'local',
+      rpcUrl: 'http://localhost:8545',
+      operatorKey: '',
+      chainId: 31337,
+    };
+  });
+
+  async function createSDK(): Promise<ProofVaultSDK> {
+    const sdk = new ProofVaultSDK(networkConfig, {
+      signer: accounts.user1,
+      addresses: { proofVault: await contracts.proofVault.getAddress() },
+      logger: new ConsoleLogger('error'),
+    });
+    sdk.initialize();
+    return sdk;
+  }
+
+  describe('Evidence Submission', () => {
+    it('Should submit evidence and return the new evidence ID', async () => {
+      const sdk = await createSDK();
+
+      const result = await sdk.submitEvidence(createSampleEvidenceData());
+
+      expect(result.evidenceId).to.equal(1n);
+      expect(result.transactionId).to.match(/^0x[0-9a-f]{64}$/);
+      expect(BigInt(result.gasUsed)).to.be.greaterThan(0n);
+
+      const evidenceRecord = await contracts.proofVault
+        .connect(accounts.user1)
+        .getEvidenceRecord(result.evidenceId);
+      expect(evidenceRecord[3]).to.equal(accounts.user1.address); // submitter
+    });
+
+    it('Should return sequential IDs for multiple submissions', async () => {
+      const sdk = await createSDK();
+      const evidenceData = createSampleEvidenceData();
+
+      await sdk.submitEvidence(evidenceData);
+      const second = await sdk.submitEvidence({
+        ...evidenceData,
+        cryptographicHash: ethers.keccak256(ethers.toUtf8Bytes('second evidence content')),
+      });
+
+      expect(second.evidenceId).to.equal(2n);
+    });
+
+    it('Should reject a malformed cryptographic hash before sending', async () => {
+      const sdk = await createSDK();
+
+      try {
+        await sdk.submitEvidence({ ...createSampleEvidenceData(), cryptographicHash: '0x1234' });
+        expect.fail('Expected submission to be rejected');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ProofVaultSDKError);
+        expect((error as ProofVaultSDKError).code).to.equal('INVALID_SUBMISSION');
+      }
+
+      expect(await contracts.proofVault.getTotalEvidenceCount()).to.equal(0);
+    });
+
+    it('Should surface contract reverts as transaction failures', async () => {
+      const sdk = await createSDK();
+
+      try {
+        await sdk.submitEvidence({ ...createSampleEvidenceData(), title: '' });
+        expect.fail('Expected submission without title to fail');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ProofVaultSDKError);
+        expect((error as ProofVaultSDKError).code).to.equal('TRANSACTION_FAILED');
+      }
+    });
+
+    it('Should reject duplicate evidence before sending', async () => {
+      const sdk = await createSDK();
+      const evidenceData = createSampleEvidenceData();
+      await sdk.submitEvidence(evidenceData);
+
+      try {
+        await sdk.submitEvidence(evidenceData);
+        expect.fail('Expected duplicate submission to fail');
+      } catch (error) {
+        expect((error as ProofVaultSDKError).code).to.equal('DUPLICATE_EVIDENCE');
+        expect((error as ProofVaultSDKError).details).to.deep.equal({ evidenceId: 1n });
+      }
+    });
+
+    it('Should prepare and submit a local evidence file', async () => {
+      const sdk = await createSDK();
+      const filePath = path.join(os.tmpdir(), `proofvault-sdk-${Date.now()}.pdf`);
+      fs.writeFileSync(filePath, 'signed contract scan');
+
+      try {
+        const prepared = await sdk.prepareEvidence(filePath, {
+          title: 'Signed contract',
+          description: 'Scanned copy of the signed contract',
+          evidenceType: 0,
+          classification: 1,
+          ipfsHash: 'QmTestHash123456789',
+        });
+        expect(prepared.metadata.mimeType).to.equal('application/pdf');
+
+        const result = await sdk.submitEvidence(prepared.submission);
+        expect(await sdk.findEvidenceByHash(prepared.submission.cryptographicHash)).to.equal(
+          result.evidenceId,
+        );
+
+        try {
+          await sdk.prepareEvidence(filePath, {
+            title: 'Signed contract (again)',
+            description: '',
+            evidenceType: 0,
+            classification: 1,
+          });
+          expect.fail('Expected duplicate file to be rejected');
+        } catch (error) {
+          expect((error as ProofVaultSDKError).code).to.equal('DUPLICATE_EVIDENCE');
+        }
+      } finally {
+        fs.unlinkSync(filePath);
+      }
+    });
+
+    it('Should upload evidence content and fill in the IPFS hash', async () => {
+      const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-sdk-storage-'));
+      const storage = new FileSystemStorage(storageDir);
+      const sdk = new ProofVaultSDK(networkConfig, {
+        signer: accounts.user1,
+        addresses: { proofVault: await contracts.proofVault.getAddress() },
+        storage,
+        logger: new ConsoleLogger('error'),
+      });
+      sdk.initialize();
+
+      try {
+        const content = Buffer.from('recorded interview transcript');
+        const result = await sdk.submitEvidenceFile(Readable.from([content]), {
+          title: 'Interview transcript',
+          description: 'Transcript of the witness interview',
+          evidenceType: 6, // TESTIMONY
+          classification: 1, // RESTRICTED
+          filename: 'interview.txt',
+        });
+
+        expect(result.ipfsHash).to.equal(computeCid(content));
+        expect(await storage.isPinned(result.ipfsHash)).to.be.true;
+        expect((await sdk.getEvidenceRecord(result.evidenceId)).ipfsHash).to.equal(result.ipfsHash);
+      } finally {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+      }
+    });
+
+    it('Should require initialization before submitting', async () => {
+      const sdk = new ProofVaultSDK(networkConfig, { logger: new ConsoleLogger('error') });
+
+      try {
+        await sdk.submitEvidence(createSampleEvidenceData());
+        expect.fail('Expected uninitialized SDK to throw');
+      } catch (error) {
+        expect((error as ProofVaultSDKError).code).to.equal('NOT_INITIALIZED');
+      }
+    });
+  });
+
+  describe('Evidence Integrity', () => {
+    it('Should read back the submitted evidence record', async () => {
+      const sdk = await createSDK();
+      const evidenceData = createSampleEvidenceData();
+      const { evidenceId } = await sdk.submitEvidence(evidenceData);
+
+      const record = await sdk.getEvidenceRecord(evidenceId);
+
+      expect(record.evidenceId).to.equal(evidenceId);
+      expect(record.title).to.equal(evidenceData.title);
+      expect(record.submitter).to.equal(accounts.user1.address);
+      expect(record.cryptographicHash).to.equal(evidenceData.cryptographicHash);
+      expect(record.metadataHash).to.equal(evidenceData.metadataHash);
+    });
+
+    it('Should record integrity checks on the chain of custody', async () => {
+      const sdk = await createSDK();
+      const evidenceData = createSampleEvidenceData();
+      const { evidenceId } = await sdk.submitEvidence(evidenceData);
+
+      expect(await sdk.verifyEvidenceIntegrity(evidenceId, evidenceData.cryptographicHash)).to.be
+        .true;
+      expect(await sdk.verifyEvidenceIntegrity(evidenceId, ethers.ZeroHash)).to.be.false;
+
+      const custody = await contracts.proofVault
+        .connect(accounts.user1)
+        .getChainOfCustody(evidenceId);
+      expect(custody.map((entry) => entry.action)).to.deep.equal([
+        'SUBMITTED',
+        'INTEGRITY_CHECK',
+        'INTEGRITY_CHECK',
+      ]);
+    });
+  });
+
+  describe('Custody Reports', () => {
+    it('Should combine the record, metadata and custody with handler identity levels', async () => {
+      const level = 4; // LEGAL_PROFESSIONAL
+      await contracts.identityAttestation
+        .connect(accounts.user1)
+        .requestIdentityVerification(level, 1, 'QmIdentityDocs', 'Counsel for the defence', {
+          value: await contracts.identityAttestation.verificationFees(level),
+        });
+      await contracts.identityAttestation
+        .connect(accounts.admin)
+        .verifyIdentityRequest(1, true, 'QmCredential', '');
+
+      const sdk = new ProofVaultSDK(networkConfig, {
+        signer: accounts.user1,
+        addresses: {
+          proofVault: await contracts.proofVault.getAddress(),
+          identityAttestation: await contracts.identityAttestation.getAddress(),
+        },
+        logger: new ConsoleLogger('error'),
+      });
+      sdk.initialize();
+
+      const evidenceData = createSampleEvidenceData();
+      const { evidenceId } = await sdk.submitEvidence(evidenceData);
+      await sdk.verifyEvidenceIntegrity(evidenceId, evidenceData.cryptographicHash);
+
+      const report = await sdk.getCustodyReport(evidenceId);
+
+      expect(report.evidence.title).to.equal(evidenceData.title);
+      expect(report.metadata.originalFilename).to.equal('');
+      expect(report.custody.map((entry) => entry.action)).to.deep.equal([
+        'SUBMITTED',
+        'INTEGRITY_CHECK',
+      ]);
+      expect(report.custody[0]?.handler).to.equal(accounts.user1.address);
+      expect(report.custody[0]?.handlerVerificationLevel).to.equal(level);
+    });
+  });
+
+  describe('Encrypted Evidence', () => {
+    const mnemonic = 'test test test test test test test test test test test junk';
+    let storageDir: string;
+    let storage: FileSystemStorage;
+
+    // Hardhat's default accounts, so the wallets match the funded test signers
+    function hardhatWallet(index: number): HDNodeWallet {
+      return HDNodeWallet.fromPhrase(mnemonic, undefined, `m/44'/60'/0'/0/${index}`);
+    }
+
+    beforeEach(() => {
+      storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-sdk-encrypted-'));
+      storage = new FileSystemStorage(storageDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    async function createWalletSDK(): Promise<ProofVaultSDK> {
+      const sdk = new ProofVaultSDK(networkConfig, {
+        signer: hardhatWallet(2).connect(ethers.provider),
+        addresses: { proofVault: await contracts.proofVault.getAddress() },
+        storage,
+        logger: new ConsoleLogger('error'),
+      });
+      sdk.initialize();
+      return sdk;
+    }
+
+    it('Should encrypt confidential evidence and authorize recipients', async () => {
+      const sdk = await createWalletSDK();
+      const viewer = hardhatWallet(3);
+      const content = Buffer.from('sealed witness statement');
+
+      const result = await sdk.submitEvidenceFile(Readable.from([content]), {
+        title: 'Sealed statement',
+        description: 'Statement under protective order',
+        evidenceType: 6, // TESTIMONY
+        classification: 2, // CONFIDENTIAL
+        filename: 'statement.txt',
+        recipients: [recipientFromPublicKey(viewer.signingKey.publicKey)],
+      });
+
+      expect(viewer.address).to.equal(accounts.user2.address);
+      expect(result.prepared.submission.isEncrypted).to.be.true;
+      expect(result.ipfsHash).to.not.equal(computeCid(content));
+      expect(isEncryptedEnvelope(await storage.get(result.ipfsHash))).to.be.true;
+      expect(await contracts.proofVault.hasAccessToEvidence(viewer.address, result.evidenceId)).to
+        .be.true;
+
+      expect((await sdk.retrieveEvidence(result.evidenceId)).equals(content)).to.be.true;
+      expect((await sdk.retrieveEvidence(result.evidenceId, viewer.privateKey)).equals(content)).to
+        .be.true;
+    });
+
+    it('Should authorize each recipient once whatever the case of its address', async () => {
+      const signer = hardhatWallet(2).connect(ethers.provider);
+      signer.getAddress = () => Promise.resolve(signer.address.toLowerCase());
+      const sdk = new ProofVaultSDK(networkConfig, {
+        signer,
+        addresses: { proofVault: await contracts.proofVault.getAddress() },
+        storage,
+        logger: new ConsoleLogger('error'),
+      });
+      sdk.initialize();
+      const authorized: string[] = [];
+      const authorizeViewer = sdk.authorizeViewer.bind(sdk);
+      sdk.authorizeViewer = (evidenceId, viewer) => {
+        authorized.push(viewer);
+        return authorizeViewer(evidenceId, viewer);
+      };
+
+      const viewer = recipientFromPublicKey(hardhatWallet(3).signingKey.publicKey);
+      const self = recipientFromPublicKey(signer.signingKey.publicKey);
+      const result = await sdk.submitEvidenceFile(Readable.from([Buffer.from('sealed memo')]), {
+        title: 'Sealed memo',
+        description: 'Memo under protective order',
+        evidenceType: 0, // DOCUMENT
+        classification: 2, // CONFIDENTIAL
+        filename: 'memo.txt',
+        recipients: [
+          viewer,
+          { ...viewer, address: viewer.address.toLowerCase() },
+          { ...self, address: self.address.toLowerCase() },
+        ],
+      });
+
+      expect(authorized).to.deep.equal([viewer.address]);
+      expect(await contracts.proofVault.hasAccessToEvidence(viewer.address, result.evidenceId)).to
+        .be.true;
+    });
+
+    it('Should deny retrieval to viewers without access', async () => {
+      const sdk = await createWalletSDK();
+      const result = await sdk.submitEvidenceFile(Readable.from([Buffer.from('sealed exhibit')]), {
+        title: 'Sealed exhibit',
+        description: 'Exhibit under protective order',
+        evidenceType: 0, // DOCUMENT
+        classification: 3, // SECRET
+        filename: 'exhibit.txt',
+      });
+
+      try {
+        await sdk.retrieveEvidence(result.evidenceId, Wallet.createRandom().privateKey);
+        expect.fail('Expected retrieval without access to fail');
+      } catch (error) {
+        expect((error as ProofVaultSDKError).code).to.equal('ACCESS_DENIED');
+      }
+    });
+
+    it('Should require a recipient key when the signer key is unavailable', async () => {
+      const sdk = new ProofVaultSDK(networkConfig, {
+        signer: accounts.user1,
+        addresses: { proofVault: await contracts.proofVault.getAddress() },
+        storage,
+        logger: new ConsoleLogger('error'),
+      });
+      sdk.initialize();
+
+      try {
+        await sdk.submitEvidenceFile(Readable.from([Buffer.from('sealed')]), {
+          title: 'Sealed',
+          description: 'No recipients',
+          evidenceType: 0, // DOCUMENT
+          classification: 2, // CONFIDENTIAL
+          filename: 'sealed.txt',
+        });
+        expect.fail('Expected encryption without recipients to fail');
+      } catch (error) {
+        expect((error as ProofVaultSDKError).code).to.equal('INVALID_SUBMISSION');
+      }
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for chain-of-custody report rendering
+ */
+
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import type { CustodyReport } from '../src';
+import {
+  renderCustodyReport,
+  renderCustodyReportHtml,
+  renderCustodyReportJson,
+  renderCustodyReportPdf,
+} from '../src/reports';
+
+describe('Custody reports', () => {
+  function createReport(custodyCount = 2): CustodyReport {
+    return {
+      version: 1,
+      evidence: {
+        evidenceId: 7n,
+        title: 'Knife <exhibit A>',
+        description: 'Recovered at "the scene" & bagged',
+        submitter: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        submissionTimestamp: 1700000000,
+        evidenceType: 1, // PHOTO
+        status: 2, // VERIFIED
+        classification: 2, // CONFIDENTIAL
+        ipfsHash: 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e',
+        metadataHash: ethers.ZeroHash,
+        cryptographicHash: ethers.keccak256(ethers.toUtf8Bytes('exhibit')),
+        isEncrypted: true,
+        isSealed: false,
+        sealedUntil: 0,
+        lastModified: 1700000600,
+      },
+      metadata: {
+        originalFilename: 'knife.jpg',
+        fileSize: 2048,
+        mimeType: 'image/jpeg',
+        creationTimestamp: 1699990000,
+        deviceInfo: 'Evidence camera (unit 3)',
+        geoLocation: '51.5072,-0.1276',
+        tags: ['weapon', 'exhibit-a'],
+      },
+      custody: Array.from({ length: custodyCount }, (_, i) => ({
+        handler: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+        handlerVerificationLevel: i === 0 ? 4 : 9,
+        timestamp: 1700000000 + i * 60,
+        action: i === 0 ? 'SUBMITTED' : 'TRANSFERRED',
+        location: 'Evidence locker 12',
+        notes: `Custody step ${i + 1}`,
+        handlerSignature: ethers.ZeroHash,
+      })),
+    };
+  }
+
+  it('Should render JSON with readable enums and ISO timestamps', () => {
+    const document = JSON.parse(renderCustodyReportJson(createReport()));
+
+    expect(document.evidence.evidenceId).to.equal('7');
+    expect(document.evidence.evidenceType).to.equal('PHOTO');
+    expect(document.evidence.classification).to.equal('CONFIDENTIAL');
+    expect(document.evidence.submittedAt).to.equal('2023-11-14T22:13:20.000Z');
+    expect(document.evidence.sealedUntil).to.be.null;
+    expect(document.custody[0].handlerVerificationLevel).to.equal('LEGAL_PROFESSIONAL');
+    expect(document.custody[1].handlerVerificationLevel).to.equal('UNKNOWN(9)');
+  });
+
+  it('Should escape evidence text in HTML', () => {
+    const html = renderCustodyReportHtml(createReport());
+
+    expect(html).to.contain('Knife &lt;exhibit A&gt;');
+    expect(html).to.contain('Recovered at &quot;the scene&quot; &amp; bagged');
+    expect(html).to.not.contain('<exhibit A>');
+  });
+
+  it('Should render a well-formed PDF with valid cross-reference offsets', () => {
+    const pdf = renderCustodyReportPdf(createReport()).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).to.be.true;
+    expect(pdf).to.contain('(  Description: Recovered at "the scene" & bagged) Tj');
+    expect(pdf).to.contain('(  Device: Evidence camera \\(unit 3\\)) Tj');
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref).startsWith('xref\n')).to.be.true;
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj\n`)).to.be.true;
+    });
+  });
+
+  it('Should paginate long custody histories', () => {
+    const pdf = renderCustodyReportPdf(createReport(40)).toString('latin1');
+
+    expect(pdf).to.contain('/Count 4 >>');
+    expect(pdf).to.contain('(Page 4 of 4) Tj');
+  });
+
+  it('Should render identical bytes and hashes for the same report', () => {
+    for (const format of ['json', 'html', 'pdf'] as const) {
+      const first = renderCustodyReport(createReport(), format);
+      const second = renderCustodyReport(createReport(), format);
+
+      expect(first.content.equals(second.content)).to.be.true;
+      expect(first.contentHash).to.equal(ethers.keccak256(first.content));
+      expect(second.contentHash).to.equal(first.contentHash);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the post-deployment smoke test scenario
+ */
+
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { DeploymentError, runSmokeTest } from '../src';
+import type { SDKContractAddresses } from '../src';
+import type { TestContracts } from './helpers/setup';
+import { deployTestContracts } from './helpers/setup';
+
+describe('Smoke test', () => {
+  let contracts: TestContracts;
+  let addresses: SDKContractAddresses;
+  let deployer: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    const [first, , , fourth] = await ethers.getSigners();
+    if (!first || !fourth) {
+      throw new Error('Insufficient signers available for smoke tests');
+    }
+    deployer = first;
+    outsider = fourth;
+
+    contracts = await deployTestContracts();
+    addresses = {
+      identityAttestation: await contracts.identityAttestation.getAddress(),
+      proofVault: await contracts.proofVault.getAddress(),
+      legalCaseManager: await contracts.legalCaseManager.getAddress(),
+    };
+  });
+
+  it('Should run the scenario end to end and clean up after itself', async () => {
+    const report = await runSmokeTest(deployer, addresses, { network: 'local', runId: '1' });
+
+    expect(report.status).to.equal('pass');
+    expect(report.steps.map((step) => [step.name, step.status])).to.deep.equal([
+      ['request-identity', 'pass'],
+      ['verify-identity', 'pass'],
+      ['submit-evidence', 'pass'],
+      ['file-case', 'pass'],
+      ['link-evidence', 'pass'],
+      ['issue-court-order', 'pass'],
+      ['read-court-order', 'pass'],
+    ]);
+    expect(report.cleanup.every((step) => step.status === 'pass')).to.be.true;
+    expect(report.records).to.deep.equal({
+      requestId: '1',
+      evidenceId: '1',
+      caseId: '1',
+      orderId: '1',
+    });
+    expect(report.steps[2]?.transactions).to.have.length(1);
+    expect(BigInt(report.steps[2]?.gasUsed ?? 0)).to.be.greaterThan(0n);
+    expect(() => JSON.stringify(report)).not.to.throw();
+
+    const { identityAttestation, legalCaseManager, proofVault } = contracts;
+    expect(await identityAttestation.isVerified(deployer.address)).to.be.false;
+    expect(
+      await identityAttestation.hasRole(
+        await identityAttestation.VERIFICATION_AUTHORITY_ROLE(),
+        deployer.address,
+      ),
+    ).to.be.false;
+    expect(await legalCaseManager.hasRole(await legalCaseManager.JUDGE_ROLE(), deployer.address)).to
+      .be.false;
+    expect((await legalCaseManager.getCaseDetails(1)).status).to.equal(6n); // CLOSED
+    expect((await proofVault.getEvidenceRecord(1))[6]).to.equal(7n); // ARCHIVED
+
+    // Cleanup leaves the deployment ready for the next run
+    const rerun = await runSmokeTest(deployer, addresses, { network: 'local', runId: '2' });
+    expect(rerun.status).to.equal('pass');
+    expect(rerun.records.caseId).to.equal('2');
+  });
+
+  it('Should skip the remaining steps after a failure and clean up what was created', async () => {
+    const report = await runSmokeTest(outsider, addresses, { network: 'local', runId: '1' });
+
+    expect(report.status).to.equal('fail');
+    expect(report.steps.map((step) => step.status)).to.deep.equal([
+      'pass',
+      'fail',
+      'skip',
+      'skip',
+      'skip',
+      'skip',
+      'skip',
+    ]);
+    expect(report.steps[2]?.message).to.equal('Skipped after verify-identity failed');
+    expect(report.cleanup.map((step) => step.status)).to.deep.equal([
+      'skip',
+      'skip',
+      'skip',
+      'skip',
+    ]);
+  });
+
+  it('Should require every contract address', async () => {
+    try {
+      await runSmokeTest(
+        deployer,
+        { proofVault: addresses.proofVault ?? '' },
+        { network: 'local' },
+      );
+      expect.fail('Expected missing contracts to be rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(DeploymentError);
+      expect((error as DeploymentError).code).to.equal('CONTRACT_NOT_DEPLOYED');
+    }
+  });
+});
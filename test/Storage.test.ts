@@ -0,0 +1,181 @@
+/**
+ * Tests for evidence content storage backends
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  FileSystemStorage,
+  IPFS_CHUNK_SIZE,
+  IpfsHttpStorage,
+  StorageError,
+  computeCid,
+  isValidCid,
+  readStream,
+} from '../src';
+
+/**
+ * Minimal stand-in for the IPFS HTTP RPC API backed by a filesystem store
+ */
+function startIpfsFixture(
+  store: FileSystemStorage,
+  requests: http.IncomingMessage[] = [],
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const arg = url.searchParams.get('arg') ?? '';
+
+      try {
+        switch (url.pathname) {
+          case '/api/v0/add': {
+            const body = await readStream(req);
+            const boundary = `--${(req.headers['content-type'] ?? '').split('boundary=')[1]}`;
+            const part = body.subarray(0, body.lastIndexOf(`\r\n${boundary}--`));
+            const content = part.subarray(part.indexOf('\r\n\r\n') + 4);
+            const hash = await store.put(content);
+            res.end(JSON.stringify({ Name: 'blob', Hash: hash, Size: String(content.length) }));
+            return;
+          }
+          case '/api/v0/cat':
+            res.end(await store.get(arg));
+            return;
+          case '/api/v0/pin/add':
+            await store.pin(arg);
+            res.end(JSON.stringify({ Pins: [arg] }));
+            return;
+          case '/api/v0/block/stat':
+            if (!(await store.exists(arg))) {
+              throw new StorageError('block not found', 'NOT_FOUND');
+            }
+            res.end(JSON.stringify({ Key: arg }));
+            return;
+          default:
+            res.statusCode = 404;
+            res.end('404 page not found');
+        }
+      } catch (error) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ Message: (error as Error).message, Code: 0, Type: 'error' }));
+      }
+    })();
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Storage', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofvault-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('Content addressing', () => {
+    it('Should compute CIDv1 raw addresses matching IPFS', () => {
+      expect(computeCid(Buffer.alloc(0))).to.equal(
+        'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku',
+      );
+      expect(computeCid(Buffer.from('hello world'))).to.equal(
+        'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e',
+      );
+    });
+
+    it('Should reject malformed CIDs', () => {
+      expect(isValidCid(computeCid(Buffer.from('x')))).to.be.true;
+      expect(isValidCid('QmTestHash123456789')).to.be.false;
+      expect(isValidCid('../../etc/passwd')).to.be.false;
+    });
+  });
+
+  describe('FileSystemStorage', () => {
+    it('Should store and retrieve buffers and streams by CID', async () => {
+      const storage = new FileSystemStorage(rootDir);
+      const content = Buffer.from('evidence bytes');
+
+      const cid = await storage.put(content);
+      const streamed = await storage.put(
+        Readable.from([content.subarray(0, 4), content.subarray(4)]),
+      );
+
+      expect(cid).to.equal(computeCid(content));
+      expect(streamed).to.equal(cid);
+      expect(await storage.exists(cid)).to.be.true;
+      expect((await storage.get(cid)).equals(content)).to.be.true;
+    });
+
+    it('Should pin stored content only', async () => {
+      const storage = new FileSystemStorage(rootDir);
+      const cid = await storage.put(Buffer.from('pinned evidence'));
+
+      await storage.pin(cid);
+      expect(await storage.isPinned(cid)).to.be.true;
+
+      const missing = computeCid(Buffer.from('never stored'));
+      expect(await storage.exists(missing)).to.be.false;
+      try {
+        await storage.pin(missing);
+        expect.fail('Expected pinning missing content to fail');
+      } catch (error) {
+        expect((error as StorageError).code).to.equal('NOT_FOUND');
+      }
+    });
+  });
+
+  describe('IpfsHttpStorage', () => {
+    let server: http.Server;
+    let storage: IpfsHttpStorage;
+    let requests: http.IncomingMessage[];
+
+    beforeEach(async () => {
+      requests = [];
+      server = await startIpfsFixture(new FileSystemStorage(rootDir), requests);
+      storage = new IpfsHttpStorage(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('Should add, pin and fetch content through the HTTP API', async () => {
+      const content = Buffer.from('evidence uploaded over http');
+
+      const cid = await storage.put(Readable.from([content]));
+      await storage.pin(cid);
+
+      expect(cid).to.equal(computeCid(content));
+      expect(await storage.exists(cid)).to.be.true;
+      expect((await storage.get(cid)).equals(content)).to.be.true;
+    });
+
+    it('Should stream uploads split by the chunk size local CIDs assume', async () => {
+      const content = Buffer.alloc(IPFS_CHUNK_SIZE, 7);
+
+      const cid = await storage.put(
+        Readable.from([content.subarray(0, 1000), content.subarray(1000)]),
+      );
+
+      const [add] = requests;
+      const params = new URL(add?.url ?? '/', 'http://localhost').searchParams;
+      expect(params.get('chunker')).to.equal(`size-${IPFS_CHUNK_SIZE}`);
+      expect(params.get('raw-leaves')).to.equal('true');
+      expect(add?.headers['transfer-encoding']).to.equal('chunked');
+      expect(add?.headers['content-length']).to.be.undefined;
+      expect(cid).to.equal(computeCid(content));
+    });
+
+    it('Should report missing content as absent', async () => {
+      expect(await storage.exists(computeCid(Buffer.from('missing')))).to.be.false;
+    });
+  });
+});
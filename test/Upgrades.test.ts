@@ -0,0 +1,230 @@
+/**
+ * Tests for UUPS proxy deployments and storage layout checks
+ */
+
+import { expect } from 'chai';
+import { getAddress } from 'ethers';
+import { ethers } from 'hardhat';
+import {
+  DeploymentError,
+  PROXY_CONTRACT_NAME,
+  assertStorageLayoutCompatible,
+  compareStorageLayouts,
+  createDeploymentPlan,
+  encodeInitializerCall,
+  encodeUpgradeCall,
+  getRoleId,
+  loadContractArtifact,
+  loadStorageLayout,
+  toProxiedContract,
+} from '../src';
+import type { DeployedContract, StorageLayout } from '../src';
+import {
+  IdentityAttestation__factory,
+  LegalCaseManager__factory,
+  ProofVault__factory,
+} from '../typechain-types';
+
+// ERC-1967 implementation slot: keccak256('eip1967.proxy.implementation') - 1
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+function cloneLayout(layout: StorageLayout): StorageLayout {
+  return JSON.parse(JSON.stringify(layout)) as StorageLayout;
+}
+
+async function deployProxied(
+  contractName: string,
+  args: unknown[] = [],
+): Promise<{ proxyAddress: string; implementationAddress: string }> {
+  const libraries: Record<string, string> = {};
+  if (contractName === 'LegalCaseManager') {
+    libraries['LegalCaseLib'] = await (await ethers.deployContract('LegalCaseLib')).getAddress();
+  }
+  const implementation = await ethers.deployContract(contractName, args, { libraries });
+  const implementationAddress = await implementation.getAddress();
+  const proxy = await ethers.deployContract(PROXY_CONTRACT_NAME, [
+    implementationAddress,
+    encodeInitializerCall(contractName, loadContractArtifact(contractName).abi, args),
+  ]);
+  return { proxyAddress: await proxy.getAddress(), implementationAddress };
+}
+
+async function getImplementation(proxyAddress: string): Promise<string> {
+  const slot = await ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT);
+  return getAddress(`0x${slot.slice(-40)}`);
+}
+
+describe('Upgradeable deployments', () => {
+  describe('Storage layouts', () => {
+    it('Should load layouts without compiler AST IDs', () => {
+      const layout = loadStorageLayout('ProofVault');
+
+      expect(layout.storage.map((variable) => variable.label)).to.include.members([
+        '_roles',
+        '_evidenceIdCounter',
+        'evidenceRecords',
+      ]);
+      expect(JSON.stringify(layout)).not.to.match(/t_(struct|enum|contract)\(\w+\)\d/);
+      expect(layout.types['t_enum(EvidenceStatus)']?.values).to.deep.equal([
+        'SUBMITTED',
+        'UNDER_REVIEW',
+        'VERIFIED',
+        'CHALLENGED',
+        'ACCEPTED',
+        'REJECTED',
+        'SEALED',
+        'ARCHIVED',
+      ]);
+      expect(compareStorageLayouts(layout, loadStorageLayout('ProofVault'))).to.deep.equal([]);
+    });
+
+    it('Should allow appended variables, struct members and enum values', () => {
+      const previous = loadStorageLayout('ProofVault');
+      const next = cloneLayout(previous);
+      const last = next.storage[next.storage.length - 1];
+      next.storage.push({
+        label: 'archive',
+        slot: String(Number(last?.slot) + 1),
+        offset: 0,
+        type: 't_bool',
+      });
+
+      const record = next.types['t_struct(EvidenceRecord)_storage'];
+      record?.members?.push({ label: 'archivedAt', slot: '99', offset: 0, type: 't_uint256' });
+      next.types['t_enum(EvidenceType)']?.values?.push('BLOCKCHAIN_RECORD');
+
+      expect(compareStorageLayouts(previous, next)).to.deep.equal([]);
+    });
+
+    it('Should report inserted, renamed, retyped and reordered state', () => {
+      const previous = loadStorageLayout('ProofVault');
+
+      const inserted = cloneLayout(previous);
+      inserted.storage.splice(3, 0, { label: 'paused2', slot: '3', offset: 0, type: 't_bool' });
+      expect(compareStorageLayouts(previous, inserted)[0]).to.contain(
+        '_evidenceIdCounter (slot 3, offset 0) was replaced by paused2',
+      );
+
+      const retyped = cloneLayout(previous);
+      const counter = retyped.storage.find((variable) => variable.label === '_evidenceIdCounter');
+      if (counter) {
+        counter.type = 't_bool';
+      }
+      expect(compareStorageLayouts(previous, retyped)).to.deep.equal([
+        '_evidenceIdCounter (slot 3, offset 0) changed type: uint256 became bool',
+      ]);
+
+      const reordered = cloneLayout(previous);
+      reordered.types['t_enum(EvidenceType)']?.values?.reverse();
+      expect(compareStorageLayouts(previous, reordered).join('\n')).to.contain(
+        'enum ProofVault.EvidenceType values were removed or reordered',
+      );
+
+      const removed = cloneLayout(previous);
+      removed.storage.pop();
+      try {
+        assertStorageLayoutCompatible('ProofVault', previous, removed);
+        expect.fail('Expected the removed variable to be rejected');
+      } catch (error) {
+        expect(error).to.be.instanceOf(DeploymentError);
+        expect((error as DeploymentError).code).to.equal('INCOMPATIBLE_STORAGE_LAYOUT');
+        expect((error as DeploymentError).message).to.contain('was removed');
+      }
+    });
+  });
+
+  describe('Proxies', () => {
+    it('Should keep upgradeable contracts under the 24KB contract size limit', () => {
+      for (const contractName of ['IdentityAttestation', 'ProofVault', 'LegalCaseManager']) {
+        const { deployedBytecode } = loadContractArtifact(contractName);
+        expect((deployedBytecode.length - 2) / 2, contractName).to.be.at.most(24576);
+      }
+    });
+
+    it('Should initialize state through the proxy and upgrade it in place', async () => {
+      const [deployer, outsider] = await ethers.getSigners();
+      if (!deployer || !outsider) {
+        throw new Error('Insufficient signers available');
+      }
+      const { proxyAddress, implementationAddress } = await deployProxied('IdentityAttestation');
+      const identity = IdentityAttestation__factory.connect(proxyAddress, deployer);
+
+      expect(await getImplementation(proxyAddress)).to.equal(implementationAddress);
+      expect(await identity.hasRole(getRoleId('DEFAULT_ADMIN_ROLE'), deployer.address)).to.be.true;
+      expect(await identity.verificationFees(1)).to.equal(ethers.parseEther('0.01'));
+      await identity.updateVerificationFee(1, 5n);
+      await expect(identity.initialize()).to.be.reverted;
+
+      const next = await ethers.deployContract('IdentityAttestation');
+      const nextAddress = await next.getAddress();
+      await expect(
+        outsider.sendTransaction({ to: proxyAddress, data: encodeUpgradeCall(nextAddress) }),
+      ).to.be.reverted;
+      await (
+        await deployer.sendTransaction({ to: proxyAddress, data: encodeUpgradeCall(nextAddress) })
+      ).wait();
+
+      expect(await getImplementation(proxyAddress)).to.equal(nextAddress);
+      expect(await identity.verificationFees(1)).to.equal(5n);
+    });
+
+    it('Should pass constructor args to the initializer', async () => {
+      const proofVault = await deployProxied('ProofVault');
+      const identity = await deployProxied('IdentityAttestation');
+      const { proxyAddress } = await deployProxied('LegalCaseManager', [
+        proofVault.proxyAddress,
+        identity.proxyAddress,
+      ]);
+      const manager = LegalCaseManager__factory.connect(proxyAddress, ethers.provider);
+
+      expect(await manager.proofVault()).to.equal(proofVault.proxyAddress);
+      expect(() =>
+        encodeInitializerCall('LegalCaseManager', loadContractArtifact('LegalCaseManager').abi, []),
+      ).to.throw('LegalCaseManager initializer expects 2 arguments');
+    });
+
+    it('Should not initialize implementations deployed directly', async () => {
+      const [deployer] = await ethers.getSigners();
+      const implementation = await ethers.deployContract('ProofVault');
+      const proofVault = ProofVault__factory.connect(await implementation.getAddress(), deployer);
+      await expect(proofVault.initialize()).to.be.reverted;
+    });
+  });
+
+  it('Should plan proxy deployments and record both addresses', () => {
+    const plan = createDeploymentPlan([{ name: 'ProofVault', proxy: true }], {
+      network: 'testnet',
+      deployer: '0.0.2',
+      hbarPriceUsd: 0.05,
+    });
+    expect(plan.contracts[0]?.proxy).to.be.true;
+    expect(
+      plan.contracts[0]?.steps.filter((step) => step.type === 'CONTRACT_CREATE'),
+    ).to.have.length(2);
+
+    const deployed = (address: string, gasUsed: string): DeployedContract => ({
+      name: 'ProofVault',
+      address,
+      transactionHash: '0.0.2@1700000000.1',
+      blockNumber: 1,
+      gasUsed,
+      deploymentTimestamp: 1700000000000,
+      constructorArgs: [],
+    });
+    const layout = loadStorageLayout('ProofVault');
+    const record = toProxiedContract(
+      'ProofVault',
+      deployed('0x00000000000000000000000000000000000003e8', '100'),
+      deployed('0x00000000000000000000000000000000000003e9', '50'),
+      layout,
+    );
+
+    expect(record).to.deep.include({
+      address: '0x00000000000000000000000000000000000003e9',
+      proxyAddress: '0x00000000000000000000000000000000000003e9',
+      implementationAddress: '0x00000000000000000000000000000000000003e8',
+      gasUsed: '150',
+    });
+    expect(record.storageLayout).to.equal(layout);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for Sourcify-compatible contract verification
+ */
+
+import { expect } from 'chai';
+import { getAddress } from 'ethers';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  ContractVerificationError,
+  SourcifyVerifier,
+  loadVerificationInput,
+  readStream,
+} from '../src';
+
+const PROOF_VAULT = getAddress('0x00000000000000000000000000000000000003e8');
+
+interface VerifyRequest {
+  address: string;
+  chain: string;
+  files: Record<string, string>;
+}
+
+/**
+ * Minimal stand-in for a Sourcify server that reports a match after a number of checks
+ */
+function startSourcifyFixture(
+  state: { checksUntilMatch: number; submissions: VerifyRequest[] },
+  status = 'perfect',
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'POST' && url.pathname === '/verify') {
+        const body = JSON.parse((await readStream(req)).toString('utf8')) as VerifyRequest;
+        state.submissions.push(body);
+        res.end(JSON.stringify({ result: [{ address: body.address, status: 'pending' }] }));
+        return;
+      }
+
+      if (url.pathname === '/check-by-addresses') {
+        const address = url.searchParams.get('addresses');
+        const chainId = url.searchParams.get('chainIds') ?? '';
+        const matched = state.checksUntilMatch-- <= 0;
+        res.end(
+          JSON.stringify([
+            matched ? { address, chainIds: [{ chainId, status }] } : { address, status: 'false' },
+          ]),
+        );
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Not found' }));
+    })();
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('SourcifyVerifier', () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    const running = server;
+    server = undefined;
+    if (running) {
+      await new Promise((resolve) => running.close(resolve));
+    }
+  });
+
+  async function createVerifier(
+    checksUntilMatch: number,
+    timeout = 5000,
+  ): Promise<{ verifier: SourcifyVerifier; submissions: VerifyRequest[] }> {
+    const state = { checksUntilMatch, submissions: [] as VerifyRequest[] };
+    server = await startSourcifyFixture(state);
+    const verifier = new SourcifyVerifier({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+      chainId: 296,
+      pollInterval: 10,
+      timeout,
+    });
+    return { verifier, submissions: state.submissions };
+  }
+
+  it('Should build the standard-JSON input and metadata from the build info', () => {
+    const input = loadVerificationInput('ProofVault');
+    const metadata = JSON.parse(input.metadata) as {
+      compiler: { version: string };
+      settings: { compilationTarget: Record<string, string> };
+    };
+
+    expect(input.sourceName).to.equal('contracts/ProofVault.sol');
+    expect(input.standardJsonInput.language).to.equal('Solidity');
+    expect(input.standardJsonInput.sources).to.have.property('contracts/ProofVault.sol');
+    expect(metadata.compiler.version).to.equal(input.compilerVersion);
+    expect(metadata.settings.compilationTarget).to.deep.equal({
+      'contracts/ProofVault.sol': 'ProofVault',
+    });
+  });
+
+  it('Should submit sources and poll until the server reports a match', async () => {
+    const { verifier, submissions } = await createVerifier(3);
+
+    const result = await verifier.verify({
+      contractAddress: PROOF_VAULT,
+      contractName: 'ProofVault',
+    });
+
+    expect(result).to.deep.equal({ address: PROOF_VAULT, chainId: 296, status: 'perfect' });
+    expect(submissions).to.have.length(1);
+    expect(submissions[0]?.chain).to.equal('296');
+    expect(submissions[0]?.files).to.have.keys(
+      'metadata.json',
+      ...Object.keys(loadVerificationInput('ProofVault').standardJsonInput.sources),
+    );
+  });
+
+  it('Should not resubmit contracts that are already verified', async () => {
+    const { verifier, submissions } = await createVerifier(0);
+
+    const result = await verifier.verify({
+      contractAddress: PROOF_VAULT,
+      contractName: 'ProofVault',
+    });
+
+    expect(result.status).to.equal('perfect');
+    expect(submissions).to.have.length(0);
+  });
+
+  it('Should fail when the server never reports a match', async () => {
+    const { verifier } = await createVerifier(Number.MAX_SAFE_INTEGER, 100);
+
+    try {
+      await verifier.verify({ contractAddress: PROOF_VAULT, contractName: 'ProofVault' });
+      expect.fail('Expected verification to time out');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ContractVerificationError);
+      expect((error as ContractVerificationError).contractAddress).to.equal(PROOF_VAULT);
+    }
+  });
+});
@@ -48,8 +48,14 @@ export async function deployTestContracts(): Promise<TestContracts> {
   const proofVault = await ProofVaultFactory.deploy();
   await proofVault.waitForDeployment();
 
+  // Deploy LegalCaseLib and link it into LegalCaseManager
+  const legalCaseLib = await ethers.deployContract('LegalCaseLib');
+  await legalCaseLib.waitForDeployment();
+
   // Deploy LegalCaseManager
-  const LegalCaseManagerFactory = await ethers.getContractFactory('LegalCaseManager');
+  const LegalCaseManagerFactory = await ethers.getContractFactory('LegalCaseManager', {
+    libraries: { LegalCaseLib: await legalCaseLib.getAddress() },
+  });
   const legalCaseManager = await LegalCaseManagerFactory.deploy(
     await proofVault.getAddress(),
     await identityAttestation.getAddress(),